@@ -89,6 +89,30 @@ export class AdminAuthController {
     }
   }
 
+  static async createTelegramLinkCode(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, message: 'Not authenticated' });
+      }
+      const result = await AuthService.createTelegramLinkCode(req.user._id);
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message });
+    }
+  }
+
+  static async unlinkTelegram(req: Request, res: Response) {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ success: false, message: 'Not authenticated' });
+      }
+      const result = await AuthService.unlinkTelegram(req.user._id);
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ success: false, message: error.message });
+    }
+  }
+
   static async forgotPassword(req: Request, res: Response) {
     try {
       const { email } = req.body;
@@ -1,23 +1,13 @@
 import { Request, Response } from 'express';
-import { Registration } from '../../models/user.model';
-import { Event } from '../../models/events.model';
 import { Invoice } from '../../models/invoice.model';
 import { EventRegistration } from '../../models/event-registration.model';
+import { Refund } from '../../models/refund.model';
+import { dashboardService } from '../../services/dashboard.service';
 
 export class DashboardController {
   static async getStats(req: Request, res: Response) {
     try {
-      const [totalUsers, activeEvents, revenueData, pendingInvoices] = await Promise.all([
-        Registration.countDocuments(),
-        Event.countDocuments({ isActive: true }),
-        Invoice.aggregate([
-          { $match: { status: 'paid' } },
-          { $group: { _id: null, total: { $sum: '$amount' } } }
-        ]),
-        Invoice.countDocuments({ status: 'pending' })
-      ]);
-
-      const totalRevenue = revenueData.length > 0 ? revenueData[0].total : 0;
+      const stats = await dashboardService.getStats();
 
       // Calculate trends (mocked for now, but could be calculated by comparing with previous period)
       // For a real implementation, we would query data from last month/week and compare.
@@ -31,10 +21,7 @@ export class DashboardController {
       res.json({
         success: true,
         data: {
-          totalUsers,
-          activeEvents,
-          totalRevenue,
-          pendingInvoices,
+          ...stats,
           trends
         }
       });
@@ -61,6 +48,14 @@ export class DashboardController {
         .populate('event', 'name')
         .lean();
 
+      // Fetch recent refunds
+      const recentRefunds = await Refund.find()
+        .sort({ createdAt: -1 })
+        .limit(5)
+        .populate('user', 'fullName')
+        .populate('event', 'name')
+        .lean();
+
       // Combine and format
       const activities = [
         ...recentRegistrations.map((reg: any) => ({
@@ -76,6 +71,13 @@ export class DashboardController {
           message: `Payment received from ${inv.user?.fullName || 'Unknown User'} for "${inv.event?.name || inv.metadata?.eventName || 'Unknown Event'}"`,
           time: inv.paidAt || inv.createdAt,
           timestamp: new Date(inv.paidAt || inv.createdAt).getTime()
+        })),
+        ...recentRefunds.map((refund: any) => ({
+          id: refund._id,
+          type: 'refund',
+          message: `Refund of ${refund.amount} ETB to ${refund.user?.fullName || 'Unknown User'} for "${refund.event?.name || 'Unknown Event'}"`,
+          time: refund.createdAt,
+          timestamp: new Date(refund.createdAt).getTime()
         }))
       ];
 
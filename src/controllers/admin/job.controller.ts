@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { Job } from '../../models/job.model';
+import { jobQueue } from '../../services/job-queue.service';
+
+export class JobController {
+  static async getJobs(req: Request, res: Response) {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const query: any = {};
+      if (req.query.status && req.query.status !== 'all') {
+        query.status = req.query.status;
+      }
+      if (req.query.type) {
+        query.type = req.query.type;
+      }
+
+      const [jobs, total] = await Promise.all([
+        Job.find(query)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        Job.countDocuments(query)
+      ]);
+
+      res.json({
+        success: true,
+        data: jobs,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getJobStats(req: Request, res: Response) {
+    try {
+      const stats = await Job.aggregate([
+        { $group: { _id: { type: '$type', status: '$status' }, count: { $sum: 1 } } },
+        { $project: { _id: 0, type: '$_id.type', status: '$_id.status', count: 1 } },
+        { $sort: { type: 1, status: 1 } }
+      ]);
+
+      res.json({ success: true, data: stats });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getJob(req: Request, res: Response) {
+    try {
+      const job = await Job.findById(req.params.id);
+      if (!job) {
+        return res.status(404).json({ success: false, message: 'Job not found' });
+      }
+      res.json({ success: true, data: job });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async retryJob(req: Request, res: Response) {
+    try {
+      const job = await jobQueue.retry(req.params.id);
+      if (!job) {
+        return res.status(400).json({ success: false, message: 'Only failed jobs can be retried' });
+      }
+      res.json({ success: true, message: 'Job queued for retry', data: job });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
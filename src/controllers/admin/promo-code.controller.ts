@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { Error as MongooseError } from 'mongoose';
+import { PromoCode } from '../../models/promo-code.model';
+import { PromoRedemption } from '../../models/promo-redemption.model';
+
+export class PromoCodeController {
+  static async getPromoCodes(req: Request, res: Response) {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const search = req.query.search as string;
+      const skip = (page - 1) * limit;
+
+      const query: any = {};
+      if (req.query.isActive !== undefined) {
+        query.isActive = req.query.isActive === 'true';
+      }
+      if (search) {
+        query.code = { $regex: search, $options: 'i' };
+      }
+
+      const [promoCodes, total] = await Promise.all([
+        PromoCode.find(query)
+          .populate('events', 'name date')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        PromoCode.countDocuments(query)
+      ]);
+
+      res.json({
+        success: true,
+        data: promoCodes,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getPromoCode(req: Request, res: Response) {
+    try {
+      const promoCode = await PromoCode.findById(req.params.id).populate('events', 'name date');
+      if (!promoCode) {
+        return res.status(404).json({ success: false, message: 'Promo code not found' });
+      }
+      res.json({ success: true, data: promoCode });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async createPromoCode(req: Request, res: Response) {
+    try {
+      const { code, description, discountType, value, maxUses, perUserLimit, validFrom, validUntil, events, isActive } = req.body;
+
+      const promoCode = new PromoCode({
+        code,
+        description,
+        discountType,
+        value,
+        maxUses,
+        perUserLimit,
+        validFrom,
+        validUntil,
+        events,
+        isActive,
+        createdBy: req.user?._id
+      });
+
+      await promoCode.save();
+      res.status(201).json({ success: true, message: 'Promo code created', data: promoCode });
+    } catch (error: any) {
+      if (error instanceof MongooseError.ValidationError) {
+        const messages = Object.values(error.errors).map((err: any) => err.message);
+        return res.status(400).json({ success: false, message: messages.join(', ') });
+      }
+      if (error.code === 11000) {
+        return res.status(400).json({ success: false, message: 'A promo code with this code already exists' });
+      }
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async updatePromoCode(req: Request, res: Response) {
+    try {
+      // Usage is tracked by redemptions, never edited directly
+      const { usedCount, createdBy, ...updateData } = req.body;
+
+      const promoCode = await PromoCode.findById(req.params.id);
+      if (!promoCode) {
+        return res.status(404).json({ success: false, message: 'Promo code not found' });
+      }
+
+      promoCode.set(updateData);
+      await promoCode.save();
+
+      res.json({ success: true, message: 'Promo code updated', data: promoCode });
+    } catch (error: any) {
+      if (error instanceof MongooseError.ValidationError) {
+        const messages = Object.values(error.errors).map((err: any) => err.message);
+        return res.status(400).json({ success: false, message: messages.join(', ') });
+      }
+      if (error.code === 11000) {
+        return res.status(400).json({ success: false, message: 'A promo code with this code already exists' });
+      }
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async deletePromoCode(req: Request, res: Response) {
+    try {
+      const promoCode = await PromoCode.findById(req.params.id);
+      if (!promoCode) {
+        return res.status(404).json({ success: false, message: 'Promo code not found' });
+      }
+
+      // Keep redeemed codes for the report; just switch them off
+      const redemptions = await PromoRedemption.countDocuments({ promoCode: promoCode._id });
+      if (redemptions > 0) {
+        promoCode.isActive = false;
+        await promoCode.save();
+        return res.json({ success: true, message: 'Promo code has redemptions and was deactivated instead of deleted' });
+      }
+
+      await promoCode.deleteOne();
+      res.json({ success: true, message: 'Promo code deleted' });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getRedemptionReport(req: Request, res: Response) {
+    try {
+      const match: any = {};
+      if (req.query.from || req.query.to) {
+        match.createdAt = {};
+        if (req.query.from) match.createdAt.$gte = new Date(req.query.from as string);
+        if (req.query.to) match.createdAt.$lte = new Date(req.query.to as string);
+      }
+
+      const report = await PromoRedemption.aggregate([
+        { $match: match },
+        {
+          $lookup: {
+            from: 'invoices',
+            localField: 'invoice',
+            foreignField: '_id',
+            as: 'invoice'
+          }
+        },
+        { $unwind: '$invoice' },
+        {
+          $group: {
+            _id: '$promoCode',
+            code: { $first: '$code' },
+            redemptions: { $sum: 1 },
+            paidRedemptions: { $sum: { $cond: [{ $eq: ['$invoice.status', 'paid'] }, 1, 0] } },
+            totalDiscount: { $sum: '$discountAmount' },
+            paidDiscount: { $sum: { $cond: [{ $eq: ['$invoice.status', 'paid'] }, '$discountAmount', 0] } },
+            paidRevenue: { $sum: { $cond: [{ $eq: ['$invoice.status', 'paid'] }, '$invoice.amount', 0] } },
+            uniqueUsers: { $addToSet: '$user' }
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            promoCodeId: '$_id',
+            code: 1,
+            redemptions: 1,
+            paidRedemptions: 1,
+            totalDiscount: 1,
+            paidDiscount: 1,
+            paidRevenue: 1,
+            uniqueUsers: { $size: '$uniqueUsers' }
+          }
+        },
+        { $sort: { redemptions: -1 } }
+      ]);
+
+      res.json({ success: true, data: report });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getPromoCodeRedemptions(req: Request, res: Response) {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const skip = (page - 1) * limit;
+
+      const query = { promoCode: req.params.id };
+
+      const [redemptions, total] = await Promise.all([
+        PromoRedemption.find(query)
+          .populate('user', 'fullName email phoneNumber')
+          .populate('event', 'name')
+          .populate('invoice', 'invoiceId amount originalAmount discountAmount status paidAt')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        PromoRedemption.countDocuments(query)
+      ]);
+
+      res.json({
+        success: true,
+        data: redemptions,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
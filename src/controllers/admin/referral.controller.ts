@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { Error as MongooseError } from 'mongoose';
+import { ReferralCode, IReferralCode, ReferralCodeType } from '../../models/referral-code.model';
+import { Registration } from '../../models/user.model';
+import { referralService } from '../../services/referral.service';
+
+const withLink = (referralCode: IReferralCode) => ({
+  ...referralCode.toJSON(),
+  link: referralService.deepLink(referralCode.code)
+});
+
+export class ReferralController {
+  static async getReferralCodes(req: Request, res: Response) {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const search = req.query.search as string;
+      const skip = (page - 1) * limit;
+
+      const query: any = {};
+      if (req.query.type) {
+        query.type = req.query.type;
+      }
+      if (req.query.isActive !== undefined) {
+        query.isActive = req.query.isActive === 'true';
+      }
+      if (search) {
+        query.$or = [
+          { code: { $regex: search, $options: 'i' } },
+          { name: { $regex: search, $options: 'i' } }
+        ];
+      }
+
+      const [referralCodes, total] = await Promise.all([
+        ReferralCode.find(query)
+          .populate('owner', 'fullName email')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        ReferralCode.countDocuments(query)
+      ]);
+
+      res.json({
+        success: true,
+        data: referralCodes.map(withLink),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * Create a campaign code, or get the code of a user (`type: 'user'`, `owner`), creating it if needed
+   */
+  static async createReferralCode(req: Request, res: Response) {
+    try {
+      const { code, name, type, owner, isActive } = req.body;
+
+      if (type === 'user') {
+        if (!(await Registration.exists({ _id: owner }))) {
+          return res.status(400).json({ success: false, message: 'User not found' });
+        }
+        const referralCode = await referralService.getOrCreateUserCode(owner);
+        return res.status(201).json({ success: true, message: 'User referral code ready', data: withLink(referralCode) });
+      }
+
+      const referralCode = new ReferralCode({
+        code,
+        name,
+        type: 'campaign',
+        isActive,
+        createdBy: req.user?._id
+      });
+
+      await referralCode.save();
+      res.status(201).json({ success: true, message: 'Referral code created', data: withLink(referralCode) });
+    } catch (error: any) {
+      if (error instanceof MongooseError.ValidationError) {
+        const messages = Object.values(error.errors).map((err: any) => err.message);
+        return res.status(400).json({ success: false, message: messages.join(', ') });
+      }
+      if (error.code === 11000) {
+        return res.status(400).json({ success: false, message: 'A referral code with this code already exists' });
+      }
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async updateReferralCode(req: Request, res: Response) {
+    try {
+      // The code itself is fixed: links already shared and past attributions refer to it
+      const { name, isActive } = req.body;
+
+      const referralCode = await ReferralCode.findById(req.params.id);
+      if (!referralCode) {
+        return res.status(404).json({ success: false, message: 'Referral code not found' });
+      }
+
+      if (name !== undefined) referralCode.name = name;
+      if (isActive !== undefined) referralCode.isActive = isActive;
+      await referralCode.save();
+
+      res.json({ success: true, message: 'Referral code updated', data: withLink(referralCode) });
+    } catch (error: any) {
+      if (error instanceof MongooseError.ValidationError) {
+        const messages = Object.values(error.errors).map((err: any) => err.message);
+        return res.status(400).json({ success: false, message: messages.join(', ') });
+      }
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * Conversions and revenue per referral code, optionally within ?from=&to= and for one ?type=
+   */
+  static async getReport(req: Request, res: Response) {
+    try {
+      const report = await referralService.getReport({
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+        type: req.query.type as ReferralCodeType | undefined
+      });
+
+      res.json({ success: true, data: report });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { Error as MongooseError } from 'mongoose';
+import { Segment } from '../../models/segment.model';
+import { segmentService } from '../../services/segment.service';
+import { isNotificationCategory } from '../../services/notification-preference.service';
+
+// Preview who would get a message of a category, e.g. ?category=events
+const previewCategory = (req: Request) =>
+  isNotificationCategory(req.query.category) ? req.query.category : undefined;
+
+export class SegmentController {
+  static async getSegments(req: Request, res: Response) {
+    try {
+      const segments = await Segment.find()
+        .populate('filters.event', 'name date')
+        .sort({ name: 1 });
+
+      res.json({ success: true, data: segments });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getSegment(req: Request, res: Response) {
+    try {
+      const segment = await Segment.findById(req.params.id).populate('filters.event', 'name date');
+      if (!segment) {
+        return res.status(404).json({ success: false, message: 'Segment not found' });
+      }
+
+      res.json({ success: true, data: segment });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async createSegment(req: Request, res: Response) {
+    try {
+      const { name, description, filters } = req.body;
+      const segment = await Segment.create({ name, description, filters, createdBy: req.user?._id });
+
+      res.status(201).json({ success: true, message: 'Segment created', data: segment });
+    } catch (error: any) {
+      if (error instanceof MongooseError.ValidationError) {
+        const messages = Object.values(error.errors).map((err: any) => err.message);
+        return res.status(400).json({ success: false, message: messages.join(', ') });
+      }
+      if (error.code === 11000) {
+        return res.status(400).json({ success: false, message: 'A segment with this name already exists' });
+      }
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async updateSegment(req: Request, res: Response) {
+    try {
+      const { name, description, filters } = req.body;
+
+      const segment = await Segment.findById(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ success: false, message: 'Segment not found' });
+      }
+
+      if (name !== undefined) segment.name = name;
+      if (description !== undefined) segment.description = description;
+      if (filters !== undefined) segment.set('filters', filters);
+      await segment.save();
+
+      res.json({ success: true, message: 'Segment updated', data: segment });
+    } catch (error: any) {
+      if (error instanceof MongooseError.ValidationError) {
+        const messages = Object.values(error.errors).map((err: any) => err.message);
+        return res.status(400).json({ success: false, message: messages.join(', ') });
+      }
+      if (error.code === 11000) {
+        return res.status(400).json({ success: false, message: 'A segment with this name already exists' });
+      }
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async deleteSegment(req: Request, res: Response) {
+    try {
+      // Broadcasts keep their own copy of the filters, so they are unaffected
+      const segment = await Segment.findByIdAndDelete(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ success: false, message: 'Segment not found' });
+      }
+
+      res.json({ success: true, message: 'Segment deleted' });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * Recipient count and sample for filters that haven't been saved yet
+   */
+  static async previewFilters(req: Request, res: Response) {
+    try {
+      const sampleSize = Math.min(parseInt(req.query.sample as string) || 5, 50);
+      const preview = await segmentService.preview(req.body.filters || {}, sampleSize, previewCategory(req));
+
+      res.json({ success: true, data: preview });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * Recipient count and sample for a saved segment, as it stands right now
+   */
+  static async previewSegment(req: Request, res: Response) {
+    try {
+      const segment = await Segment.findById(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ success: false, message: 'Segment not found' });
+      }
+
+      const sampleSize = Math.min(parseInt(req.query.sample as string) || 5, 50);
+      const preview = await segmentService.preview(segment.filters, sampleSize, previewCategory(req));
+
+      res.json({ success: true, data: { segment: { id: segment._id, name: segment.name }, ...preview } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { SupportTicket, SupportTicketStatus } from '../../models/support-ticket.model';
+import { Admin } from '../../models/admin.model';
+import { supportService, SupportStaff } from '../../services/support.service';
+
+const staffFor = (req: Request): SupportStaff => ({
+  adminId: String(req.user?._id),
+  name: req.user?.userType === 'admin' ? `${req.user.firstName} ${req.user.lastName}` : 'Staff'
+});
+
+export class SupportController {
+  /**
+   * List support threads, e.g. ?status=open&assignedTo=me. `assignedTo` also takes an admin ID or `unassigned`.
+   */
+  static async getTickets(req: Request, res: Response) {
+    try {
+      const { status, assignedTo } = req.query as { status?: SupportTicketStatus; assignedTo?: string };
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const result = await supportService.list({
+        status,
+        assignedTo: assignedTo === 'me' ? String(req.user?._id) : assignedTo === 'unassigned' ? null : assignedTo,
+        page,
+        limit
+      });
+
+      res.json({ success: true, data: result.tickets, pagination: result.pagination });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async getTicket(req: Request, res: Response) {
+    try {
+      const ticket = await SupportTicket.findById(req.params.id)
+        .populate('assignedTo', 'firstName lastName email')
+        .populate('closedBy', 'firstName lastName email')
+        .populate('user', 'fullName email phoneNumber');
+      if (!ticket) {
+        return res.status(404).json({ success: false, message: 'Support thread not found' });
+      }
+
+      res.json({ success: true, data: ticket });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  /**
+   * Assign a thread to an admin, the caller if no `adminId` is given, or unassign it with `adminId: null`
+   */
+  static async assignTicket(req: Request, res: Response) {
+    try {
+      const ticket = await SupportTicket.findById(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ success: false, message: 'Support thread not found' });
+      }
+
+      const adminId = req.body.adminId === undefined ? String(req.user?._id) : req.body.adminId;
+      if (adminId && !(await Admin.exists({ _id: adminId }))) {
+        return res.status(400).json({ success: false, message: 'Admin not found' });
+      }
+
+      ticket.set('assignedTo', adminId || undefined);
+      await ticket.save();
+      await ticket.populate('assignedTo', 'firstName lastName email');
+
+      res.json({ success: true, message: adminId ? 'Support thread assigned' : 'Support thread unassigned', data: ticket });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async replyToTicket(req: Request, res: Response) {
+    try {
+      const ticket = await SupportTicket.findById(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ success: false, message: 'Support thread not found' });
+      }
+      if (ticket.status === 'closed') {
+        return res.status(400).json({ success: false, message: 'This support thread is closed' });
+      }
+
+      await supportService.reply(ticket, req.body.message.trim(), staffFor(req));
+
+      res.json({ success: true, message: 'Reply sent', data: ticket });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+
+  static async closeTicket(req: Request, res: Response) {
+    try {
+      const ticket = await SupportTicket.findById(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ success: false, message: 'Support thread not found' });
+      }
+      if (ticket.status === 'closed') {
+        return res.status(400).json({ success: false, message: 'Support thread is already closed' });
+      }
+
+      await supportService.close(ticket, staffFor(req));
+
+      res.json({ success: true, message: 'Support thread closed', data: ticket });
+    } catch (error: any) {
+      res.status(500).json({ success: false, message: error.message });
+    }
+  }
+}
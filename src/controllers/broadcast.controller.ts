@@ -0,0 +1,354 @@
+import { Request, Response } from 'express';
+import { Error as MongooseError } from 'mongoose';
+import { Broadcast, BroadcastStatus, IAnnouncementContent } from '../models/broadcast.model';
+import { BroadcastDeliveryStatus } from '../models/broadcast-delivery.model';
+import { Segment, ISegmentFilters } from '../models/segment.model';
+import { Admin } from '../models/admin.model';
+import { broadcastService } from '../services/broadcast.service';
+import { isNotificationCategory } from '../services/notification-preference.service';
+import { scheduleBroadcast } from '../jobs';
+
+const CONTENT_FIELDS: (keyof IAnnouncementContent)[] = ['title', 'message', 'location', 'time', 'photo', 'am'];
+
+// Broadcasts that haven't started sending can still be changed
+const EDITABLE_STATUSES: BroadcastStatus[] = ['draft', 'scheduled'];
+
+/**
+ * Announcement fields present in a request body
+ */
+const pickContent = (body: Record<string, any>): Partial<IAnnouncementContent> =>
+  Object.fromEntries(CONTENT_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+const hasText = (content: IAnnouncementContent) =>
+  Boolean(content.title || content.message || content.location || content.time);
+
+/**
+ * Parse an optional send time; a time in the past means now
+ */
+const parseScheduledAt = (value: unknown): Date | null => {
+  if (value === undefined || value === null || value === '') {
+    return new Date();
+  }
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  return date.getTime() < Date.now() ? new Date() : date;
+};
+
+const validationMessage = (error: any): string | undefined =>
+  error instanceof MongooseError.ValidationError
+    ? Object.values(error.errors).map((err: any) => err.message).join(', ')
+    : undefined;
+
+export class BroadcastController {
+  /**
+   * Write an announcement for subscribed Telegram users. It is sent now, at `scheduledAt`,
+   * or kept as a draft (`draft: true`). The audience can be narrowed to a saved segment
+   * (`segmentId`) or to inline segment `filters`, and a `category` (e.g. gallery) leaves out
+   * users who turned that kind of message off.
+   * Admin-only route (protected at router level)
+   */
+  public createBroadcast = async (req: Request, res: Response) => {
+    try {
+      const content = pickContent(req.body) as IAnnouncementContent;
+      const { segmentId, draft, category } = req.body as { segmentId?: string; draft?: boolean; category?: string };
+      let filters = req.body.filters as ISegmentFilters | undefined;
+
+      if (!hasText(content)) {
+        return res.status(400).json({ success: false, message: 'At least one field (title, message, location, time) is required' });
+      }
+      if (category !== undefined && !isNotificationCategory(category)) {
+        return res.status(400).json({ success: false, message: 'Category must be one of: events, reminders, payments, gallery' });
+      }
+
+      const scheduledAt = parseScheduledAt(req.body.scheduledAt);
+      if (!scheduledAt) {
+        return res.status(400).json({ success: false, message: 'Invalid scheduledAt date' });
+      }
+
+      if (segmentId) {
+        const segment = await Segment.findById(segmentId);
+        if (!segment) {
+          return res.status(404).json({ success: false, message: 'Segment not found' });
+        }
+        filters = segment.filters;
+      }
+
+      const broadcast = new Broadcast({
+        status: draft ? 'draft' : 'scheduled',
+        scheduledAt,
+        category,
+        segment: segmentId,
+        filters,
+        createdBy: req.user?._id
+      });
+      broadcastService.applyContent(broadcast, content);
+      await broadcast.save();
+
+      if (broadcast.status === 'scheduled') {
+        await scheduleBroadcast(broadcast);
+      }
+
+      const sendingNow = broadcast.status === 'scheduled' && scheduledAt.getTime() <= Date.now();
+      return res.status(sendingNow ? 202 : 201).json({
+        success: true,
+        message: draft ? 'Broadcast saved as draft' : sendingNow ? 'Broadcast queued' : 'Broadcast scheduled',
+        data: { broadcastId: broadcast._id, status: broadcast.status, scheduledAt: broadcast.scheduledAt }
+      });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ success: false, message });
+      }
+      console.error('Error creating broadcast:', error);
+      return res.status(500).json({ success: false, message: 'Failed to create broadcast' });
+    }
+  };
+
+  /**
+   * Broadcast history, newest first, with delivery counts
+   * Admin-only route (protected at router level)
+   */
+  public getBroadcasts = async (req: Request, res: Response) => {
+    try {
+      const { broadcasts, pagination } = await broadcastService.list({
+        status: req.query.status as BroadcastStatus | undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 20
+      });
+
+      return res.status(200).json({ success: true, data: broadcasts, pagination });
+    } catch (error) {
+      console.error('Error getting broadcasts:', error);
+      return res.status(500).json({ success: false, message: 'Failed to get broadcasts' });
+    }
+  };
+
+  /**
+   * Progress of a broadcast: how many messages were sent, failed or are still to go
+   * Admin-only route (protected at router level)
+   */
+  public getBroadcastProgress = async (req: Request, res: Response) => {
+    try {
+      const progress = await broadcastService.getProgress(req.params.id);
+      if (!progress) {
+        return res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+
+      return res.status(200).json({ success: true, data: progress });
+    } catch (error) {
+      console.error('Error getting broadcast progress:', error);
+      return res.status(500).json({ success: false, message: 'Failed to get broadcast progress' });
+    }
+  };
+
+  /**
+   * Per-recipient delivery results, filterable by `status` (e.g. failed)
+   * Admin-only route (protected at router level)
+   */
+  public getBroadcastDeliveries = async (req: Request, res: Response) => {
+    try {
+      if (!(await Broadcast.exists({ _id: req.params.id }))) {
+        return res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+
+      const { summary, deliveries, pagination } = await broadcastService.getDeliveries(req.params.id, {
+        status: req.query.status as BroadcastDeliveryStatus | undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 50
+      });
+
+      return res.status(200).json({ success: true, data: { summary, deliveries }, pagination });
+    } catch (error) {
+      console.error('Error getting broadcast deliveries:', error);
+      return res.status(500).json({ success: false, message: 'Failed to get broadcast deliveries' });
+    }
+  };
+
+  /**
+   * Edit a draft or scheduled broadcast: its content, audience or send time
+   * Admin-only route (protected at router level)
+   */
+  public updateBroadcast = async (req: Request, res: Response) => {
+    try {
+      const broadcast = await Broadcast.findById(req.params.id);
+      if (!broadcast) {
+        return res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+      if (!EDITABLE_STATUSES.includes(broadcast.status)) {
+        return res.status(400).json({ success: false, message: `A ${broadcast.status} broadcast can no longer be edited` });
+      }
+
+      const changes = pickContent(req.body);
+      if (Object.keys(changes).length > 0) {
+        const content = { ...broadcast.toObject().content, ...changes } as IAnnouncementContent;
+        if (!hasText(content)) {
+          return res.status(400).json({ success: false, message: 'At least one field (title, message, location, time) is required' });
+        }
+        broadcastService.applyContent(broadcast, content);
+      }
+
+      if (req.body.segmentId !== undefined) {
+        if (req.body.segmentId) {
+          const segment = await Segment.findById(req.body.segmentId);
+          if (!segment) {
+            return res.status(404).json({ success: false, message: 'Segment not found' });
+          }
+          broadcast.set({ segment: segment._id, filters: segment.filters });
+        } else {
+          broadcast.set({ segment: undefined, filters: undefined });
+        }
+      } else if (req.body.filters !== undefined) {
+        broadcast.set({ segment: undefined, filters: req.body.filters || undefined });
+      }
+
+      if (req.body.category !== undefined) {
+        if (req.body.category && !isNotificationCategory(req.body.category)) {
+          return res.status(400).json({ success: false, message: 'Category must be one of: events, reminders, payments, gallery' });
+        }
+        broadcast.category = req.body.category || undefined;
+      }
+
+      const rescheduled = req.body.scheduledAt !== undefined;
+      if (rescheduled) {
+        const scheduledAt = parseScheduledAt(req.body.scheduledAt);
+        if (!scheduledAt) {
+          return res.status(400).json({ success: false, message: 'Invalid scheduledAt date' });
+        }
+        broadcast.scheduledAt = scheduledAt;
+      }
+
+      await broadcast.save();
+
+      if (rescheduled && broadcast.status === 'scheduled') {
+        await scheduleBroadcast(broadcast);
+      }
+
+      return res.status(200).json({ success: true, message: 'Broadcast updated', data: broadcast });
+    } catch (error) {
+      const message = validationMessage(error);
+      if (message) {
+        return res.status(400).json({ success: false, message });
+      }
+      console.error('Error updating broadcast:', error);
+      return res.status(500).json({ success: false, message: 'Failed to update broadcast' });
+    }
+  };
+
+  /**
+   * Schedule a draft, sending it at `scheduledAt` or right away
+   * Admin-only route (protected at router level)
+   */
+  public scheduleBroadcast = async (req: Request, res: Response) => {
+    try {
+      const broadcast = await Broadcast.findById(req.params.id);
+      if (!broadcast) {
+        return res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+      if (broadcast.status !== 'draft') {
+        return res.status(400).json({ success: false, message: 'Only drafts can be scheduled' });
+      }
+
+      const scheduledAt = parseScheduledAt(req.body.scheduledAt);
+      if (!scheduledAt) {
+        return res.status(400).json({ success: false, message: 'Invalid scheduledAt date' });
+      }
+
+      broadcast.status = 'scheduled';
+      broadcast.scheduledAt = scheduledAt;
+      await broadcast.save();
+      await scheduleBroadcast(broadcast);
+
+      return res.status(200).json({ success: true, message: 'Broadcast scheduled', data: broadcast });
+    } catch (error) {
+      console.error('Error scheduling broadcast:', error);
+      return res.status(500).json({ success: false, message: 'Failed to schedule broadcast' });
+    }
+  };
+
+  /**
+   * Cancel a scheduled broadcast, or stop one that is sending
+   * Admin-only route (protected at router level)
+   */
+  public cancelBroadcast = async (req: Request, res: Response) => {
+    try {
+      const broadcast = await Broadcast.findOneAndUpdate(
+        { _id: req.params.id, status: { $in: ['scheduled', 'sending'] } },
+        { $set: { status: 'cancelled', cancelledAt: new Date() } },
+        { new: true }
+      );
+
+      if (!broadcast) {
+        const exists = await Broadcast.exists({ _id: req.params.id });
+        return exists
+          ? res.status(400).json({ success: false, message: 'Only scheduled or sending broadcasts can be cancelled' })
+          : res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+
+      return res.status(200).json({ success: true, message: 'Broadcast cancelled', data: broadcast });
+    } catch (error) {
+      console.error('Error cancelling broadcast:', error);
+      return res.status(500).json({ success: false, message: 'Failed to cancel broadcast' });
+    }
+  };
+
+  /**
+   * Delete a draft. Broadcasts that were scheduled stay in the history.
+   * Admin-only route (protected at router level)
+   */
+  public deleteBroadcast = async (req: Request, res: Response) => {
+    try {
+      const broadcast = await Broadcast.findById(req.params.id);
+      if (!broadcast) {
+        return res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+      if (broadcast.status !== 'draft') {
+        return res.status(400).json({ success: false, message: 'Only drafts can be deleted; cancel a scheduled broadcast instead' });
+      }
+
+      await broadcast.deleteOne();
+      return res.status(200).json({ success: true, message: 'Draft deleted' });
+    } catch (error) {
+      console.error('Error deleting broadcast:', error);
+      return res.status(500).json({ success: false, message: 'Failed to delete broadcast' });
+    }
+  };
+
+  /**
+   * Send a broadcast to the requesting admin's own Telegram chat to check how it looks
+   * Admin-only route (protected at router level)
+   */
+  public sendTestBroadcast = async (req: Request, res: Response) => {
+    try {
+      const [broadcast, admin] = await Promise.all([
+        Broadcast.findById(req.params.id),
+        Admin.findById(req.user?._id)
+      ]);
+
+      if (!broadcast) {
+        return res.status(404).json({ success: false, message: 'Broadcast not found' });
+      }
+      if (!admin?.telegramChatId) {
+        return res.status(400).json({
+          success: false,
+          message: 'Link your Telegram account to receive test broadcasts'
+        });
+      }
+
+      const results = await broadcastService.sendTest(broadcast, admin.telegramChatId);
+      const failed = results.filter(result => !result.ok);
+
+      return res.status(failed.length > 0 ? 502 : 200).json({
+        success: failed.length === 0,
+        message: failed.length > 0 ? 'Test broadcast could not be delivered' : 'Test broadcast sent',
+        data: results
+      });
+    } catch (error) {
+      console.error('Error sending test broadcast:', error);
+      return res.status(500).json({ success: false, message: 'Failed to send test broadcast' });
+    }
+  };
+}
+
+export const broadcastController = new BroadcastController();
@@ -1,8 +1,12 @@
 import { Request, Response } from 'express';
 import { Event } from '../models/events.model';
 import mongoose, { Error as MongooseError } from 'mongoose';
-import { Registration } from '../models/user.model';
-import { TelegramService } from '../services/telegram.service';
+import { waitlistService } from '../services/waitlist.service';
+import { refundService } from '../services/refund.service';
+import { bookingService } from '../services/booking.service';
+import { isAdmin } from '../middleware/auth.middleware';
+import { queueBroadcast, scheduleEventReminders } from '../jobs';
+import { t, Language } from '../i18n';
 
 /**
  * @desc Create new event (Admin only)
@@ -10,60 +14,61 @@ import { TelegramService } from '../services/telegram.service';
  */
 export const createEvent = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, description, date, location, price, capacity } = req.body;
+    const {
+      name, description, date, location, meetingPoint, price, capacity, tiers,
+      refundPolicy, reminders, paymentDeadlineHours, paymentReminderHours
+    } = req.body;
 
     const event = new Event({
       name,
       description,
       date,
       location,
+      meetingPoint,
       price,
-      capacity
+      capacity,
+      tiers,
+      refundPolicy,
+      reminders,
+      paymentDeadlineHours,
+      paymentReminderHours
     });
 
     await event.save();
 
-    // Fire-and-forget: notify all Telegram users about the new event
-    (async () => {
-      try {
-        const telegramUsers = await Registration.find({
-          'telegramData.chatId': { $ne: null },
-          'telegramData.is_subscribed': true
-        });
-
-        const chatIds = telegramUsers
-          .map(user => (user as any).telegramData?.chatId)
-          .filter((id: any) => id !== null && id !== undefined);
-
-        if (chatIds.length === 0) {
-          return;
-        }
-
-        const telegramService = new TelegramService();
-        const frontendUrl = process.env.FRONTEND_URL || 'https://your-frontend-url.com';
-
-        const message =
-          `🐴 <b>New Event Coming Up!</b>\n\n` +
-          `📍 <b>${event.name}</b>\n` +
-          (event.description ? `${event.description}\n\n` : '\n') +
-          `Tap the button below to view details and sign up.`;
+    try {
+      await scheduleEventReminders(event);
+    } catch (scheduleError) {
+      console.error('Failed to schedule event reminders:', scheduleError);
+    }
 
-        const replyMarkup = {
-          inline_keyboard: [
-            [
-              {
-                text: '🌐 Open Web App',
-                web_app: { url: `${frontendUrl}/events` }
-              }
+    // Notify all Telegram users about the new event in the background
+    try {
+      const frontendUrl = process.env.FRONTEND_URL || 'https://your-frontend-url.com';
+
+      const announcement = (lang: Language) => ({
+        text: t(lang, 'announcement.newEvent', {
+          event: event.name,
+          description: event.description ? `${event.description}\n` : ''
+        }),
+        options: {
+          reply_markup: {
+            inline_keyboard: [
+              [
+                {
+                  text: t(lang, 'common.openWebApp'),
+                  web_app: { url: `${frontendUrl}/events` }
+                }
+              ]
             ]
-          ]
-        };
+          }
+        }
+      });
 
-        await telegramService.broadcastMessage(chatIds, message, { reply_markup: replyMarkup });
-      } catch (notifyError) {
-        console.error('Failed to broadcast new event notification:', notifyError);
-      }
-    })();
+      await queueBroadcast(announcement('en'), { translations: { am: announcement('am') }, category: 'events' });
+    } catch (notifyError) {
+      console.error('Failed to queue new event notification:', notifyError);
+    }
 
     res.status(201).json({
       success: true,
@@ -151,6 +156,11 @@ export const updateEventStatus = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    // Reactivating an event needs its reminders queued again
+    if (event.isActive) {
+      await scheduleEventReminders(event);
+    }
+
     res.json({
       success: true,
       message: 'Event status updated',
@@ -163,14 +173,17 @@ export const updateEventStatus = async (req: Request, res: Response): Promise<vo
 };
 
 /**
- * @desc Sign up for an event
+ * @desc Sign up the authenticated user for an event (admins may pass userId)
  * @route POST /api/events/:id/signup
  */
 export const signupForEvent = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { userId } = req.body;
+    const { tierId, promoCode } = req.body;
     const eventId = req.params.id;
 
+    // Users sign themselves up; admins may sign up any user
+    const userId = isAdmin(req.user) ? req.body.userId : req.user?._id;
+
     if (!userId) {
       res.status(400).json({ success: false, error: 'User ID is required' });
       return;
@@ -183,15 +196,7 @@ export const signupForEvent = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (!event.isActive) {
-      res.status(400).json({ success: false, error: 'Event is not active' });
-      return;
-    }
-
     // Check if user exists
-    // We need to import Registration model dynamically or at top level if possible
-    // To avoid circular deps if any, but models usually fine.
-    // Let's assume we can import it.
     const { Registration } = await import('../models/user.model');
     const user = await Registration.findById(userId);
 
@@ -200,36 +205,28 @@ export const signupForEvent = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Check if already registered
-    // Import EventRegistration model
-    const { EventRegistration } = await import('../models/event-registration.model');
-    
-    const existingRegistration = await EventRegistration.findOne({
-      user: userId,
-      event: eventId
-    });
-
-    if (existingRegistration) {
-      res.status(400).json({ success: false, error: 'User already registered for this event' });
+    let registration;
+    try {
+      registration = await bookingService.signUp(user, event, { tierId, promoCode });
+    } catch (signupError: any) {
+      res.status(400).json({ success: false, error: signupError.message });
       return;
     }
 
-    // Create new registration
-    const registration = new EventRegistration({
-      user: userId,
-      event: eventId,
-      status: 'registered',
-      priceAtRegistration: event.price
-    });
-
-    await registration.save();
+    const isFull = registration.status === 'waitlisted';
 
     res.status(200).json({
       success: true,
-      message: 'Successfully signed up for event',
+      message: isFull
+        ? 'Event is full. You have been added to the waitlist'
+        : 'Successfully signed up for event',
       data: {
         eventName: event.name,
-        status: 'registered'
+        status: registration.status,
+        tier: registration.tierName,
+        price: registration.priceAtRegistration,
+        promoCode: registration.promoCode,
+        waitlistPosition: registration.waitlistPosition
       }
     });
 
@@ -251,13 +248,182 @@ export const updateEvent = async (req: Request, res: Response): Promise<void> =>
       res.status(404).json({ success: false, error: 'Event not found' });
       return;
     }
-    res.json({ success: true, message: 'Event updated', data: event });
+
+    // A capacity increase may free seats for people on the waitlist
+    const promoted = await waitlistService.fillOpenSeats(String(event._id));
+
+    // A new date or reminder schedule needs fresh jobs; stale ones are ignored when they run
+    if (updateData.date !== undefined || updateData.reminders !== undefined) {
+      await scheduleEventReminders(event);
+    }
+
+    res.json({ success: true, message: 'Event updated', data: event, promoted });
   } catch (error) {
     console.error('Update event error:', error);
     res.status(500).json({ success: false, error: 'Server error' });
   }
 };
 
+/**
+ * @desc Get an event's reminder schedule with how many of each reminder were delivered - Admin only
+ * @route GET /api/events/:id/reminders
+ */
+export const getEventReminders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = await Event.findById(req.params.id);
+    if (!event) {
+      res.status(404).json({ success: false, error: 'Event not found' });
+      return;
+    }
+
+    const { ReminderDelivery } = await import('../models/reminder-delivery.model');
+    const counts = await ReminderDelivery.aggregate([
+      { $match: { event: event._id, status: 'sent' } },
+      { $group: { _id: '$offsetMinutes', sent: { $sum: 1 }, lastSentAt: { $max: '$sentAt' } } }
+    ]);
+
+    const data = event.reminders.map(reminder => {
+      const delivered = counts.find(c => c._id === reminder.offsetMinutes);
+      return {
+        offsetMinutes: reminder.offsetMinutes,
+        template: reminder.template,
+        sendAt: new Date(new Date(event.date).getTime() - reminder.offsetMinutes * 60 * 1000),
+        sent: delivered?.sent || 0,
+        lastSentAt: delivered?.lastSentAt
+      };
+    });
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Get event reminders error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+};
+
+/**
+ * @desc Cancel a registration, refund it under the event's refund policy and promote the next person on the waitlist - Admin only
+ * @route PATCH /api/events/:id/registrations/:registrationId/cancel
+ */
+export const cancelRegistration = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id: eventId, registrationId } = req.params;
+    const { reason, payoutMethod, payoutReference, refundPercentage } = req.body;
+
+    const { EventRegistration } = await import('../models/event-registration.model');
+
+    const registration = await EventRegistration.findOne({ _id: registrationId, event: eventId });
+    if (!registration) {
+      res.status(404).json({ success: false, error: 'Registration not found' });
+      return;
+    }
+
+    let result;
+    try {
+      result = await refundService.cancelRegistration(registration, {
+        requestedBy: 'admin',
+        reason,
+        payoutMethod,
+        payoutReference,
+        refundPercentage: refundPercentage !== undefined ? Number(refundPercentage) : undefined,
+        processedBy: req.user?._id
+      });
+    } catch (cancelError: any) {
+      res.status(400).json({ success: false, error: cancelError.message });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Registration cancelled',
+      data: {
+        registration: result.registration,
+        refund: result.refund,
+        promotedRegistrationId: result.promoted?._id
+      }
+    });
+  } catch (error) {
+    console.error('Cancel registration error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+};
+
+/**
+ * @desc Show what the signed-in user would be refunded for cancelling their registration now
+ * @route GET /api/events/:id/cancel
+ */
+export const getCancellationQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { EventRegistration } = await import('../models/event-registration.model');
+
+    const registration = await EventRegistration.findOne({ user: req.user?._id, event: req.params.id });
+    if (!registration || registration.status === 'cancelled') {
+      res.status(404).json({ success: false, error: 'Registration not found' });
+      return;
+    }
+
+    const quote = await refundService.quoteCancellation(registration);
+
+    res.json({
+      success: true,
+      data: {
+        registrationId: registration._id,
+        status: registration.status,
+        paidAmount: quote.invoice?.amount || 0,
+        refundPercentage: quote.percentage,
+        refundAmount: quote.amount
+      }
+    });
+  } catch (error) {
+    console.error('Get cancellation quote error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+};
+
+/**
+ * @desc Cancel the signed-in user's own registration for an event
+ * @route POST /api/events/:id/cancel
+ */
+export const cancelMyRegistration = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { reason, payoutMethod } = req.body;
+
+    const { EventRegistration } = await import('../models/event-registration.model');
+
+    const registration = await EventRegistration.findOne({ user: req.user?._id, event: req.params.id });
+    if (!registration) {
+      res.status(404).json({ success: false, error: 'Registration not found' });
+      return;
+    }
+
+    let result;
+    try {
+      result = await refundService.cancelRegistration(registration, {
+        requestedBy: 'user',
+        reason,
+        // Users choose between credit and a payout to how they paid; finance records the payout
+        payoutMethod: payoutMethod === 'credit' ? 'credit' : undefined
+      });
+    } catch (cancelError: any) {
+      res.status(400).json({ success: false, error: cancelError.message });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: result.refund
+        ? `Registration cancelled. ${result.refund.amount} ETB will be refunded.`
+        : 'Registration cancelled',
+      data: {
+        registration: result.registration,
+        refund: result.refund
+      }
+    });
+  } catch (error) {
+    console.error('Cancel my registration error:', error);
+    res.status(500).json({ success: false, error: 'Server error' });
+  }
+};
+
 /**
  * @desc Delete an event - Admin only
  * @route DELETE /api/events/:id
@@ -292,26 +458,30 @@ export const getEventRegistrations = async (req: Request, res: Response): Promis
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
 
+    // Optional status filter, e.g. ?status=waitlisted to list the queue in order
+    const status = req.query.status as string | undefined;
+    const query: any = { event: eventId };
+    if (status) {
+      query.status = status;
+    }
+    const sort: Record<string, 1 | -1> = status === 'waitlisted' ? { waitlistPosition: 1 } : { createdAt: -1 };
+
     const [registrations, total] = await Promise.all([
-      EventRegistration.find({ event: eventId })
+      EventRegistration.find(query)
         .populate('user')
-        .sort({ createdAt: -1 })
+        .sort(sort)
         .skip(skip)
         .limit(limit)
         .lean(),
-      EventRegistration.countDocuments({ event: eventId })
+      EventRegistration.countDocuments(query)
     ]);
 
     // Get payment details for each attendee
     const attendees = await Promise.all(registrations.map(async (reg: any) => {
       // Find the most recent paid invoice for this user and event
-      // or just any paid invoice if event link is missing but metadata matches
       const invoice = await Invoice.findOne({
         user: reg.user?._id,
-        $or: [
-          { event: eventId },
-          { 'metadata.eventName': (await Event.findById(eventId))?.name }
-        ],
+        event: eventId,
         status: 'paid'
       }).sort({ paidAt: -1 }).lean();
 
@@ -329,6 +499,8 @@ export const getEventRegistrations = async (req: Request, res: Response): Promis
           height: reg.user?.height
         },
         status: reg.status,
+        tier: reg.tierName,
+        waitlistPosition: reg.status === 'waitlisted' ? reg.waitlistPosition : undefined,
         paymentStatus: invoice ? 'paid' : 'unpaid',
         paidAmount: invoice?.amount,
         paidAt: invoice?.paidAt,
@@ -338,17 +510,13 @@ export const getEventRegistrations = async (req: Request, res: Response): Promis
       };
     }));
       // Get stats for the entire event registrations
-      // First, get event name for matching invoices by metadata
-      const event = await Event.findById(eventId);
-      const eventName = event?.name;
-
       // Aggregate stats from EventRegistration
       const stats = await EventRegistration.aggregate([
         { $match: { event: new mongoose.Types.ObjectId(eventId) } },
         {
           $lookup: {
             from: 'invoices',
-            let: { userId: '$user', eventId: new mongoose.Types.ObjectId(eventId), eventName: eventName },
+            let: { userId: '$user', eventId: new mongoose.Types.ObjectId(eventId) },
             pipeline: [
               {
                 $match: {
@@ -356,12 +524,7 @@ export const getEventRegistrations = async (req: Request, res: Response): Promis
                     $and: [
                       { $eq: ['$user', '$$userId'] },
                       { $eq: ['$status', 'paid'] },
-                      {
-                        $or: [
-                          { $eq: ['$event', '$$eventId'] },
-                          { $eq: ['$metadata.eventName', '$$eventName'] }
-                        ]
-                      }
+                      { $eq: ['$event', '$$eventId'] }
                     ]
                   }
                 }
@@ -377,6 +540,7 @@ export const getEventRegistrations = async (req: Request, res: Response): Promis
             _id: null,
             total: { $sum: 1 },
             confirmed: { $sum: { $cond: [{ $eq: ['$status', 'confirmed'] }, 1, 0] } },
+            waitlisted: { $sum: { $cond: [{ $eq: ['$status', 'waitlisted'] }, 1, 0] } },
             paid: { $sum: { $cond: [{ $gt: [{ $size: '$invoice' }, 0] }, 1, 0] } },
             totalRevenue: { $sum: { $ifNull: [{ $arrayElemAt: ['$invoice.amount', 0] }, 0] } },
             checkedIn: { $sum: { $cond: ['$checkedIn', 1, 0] } }
@@ -384,7 +548,7 @@ export const getEventRegistrations = async (req: Request, res: Response): Promis
         }
       ]);
 
-      const eventStats = stats.length > 0 ? stats[0] : { total: 0, confirmed: 0, paid: 0, totalRevenue: 0, checkedIn: 0 };
+      const eventStats = stats.length > 0 ? stats[0] : { total: 0, confirmed: 0, waitlisted: 0, paid: 0, totalRevenue: 0, checkedIn: 0 };
 
       res.status(200).json({
         success: true,
@@ -1,14 +1,24 @@
 import { Request, Response } from 'express';
 import { paymentService } from '../services/payment.service';
+import { promoService } from '../services/promo.service';
+import { creditService } from '../services/credit.service';
+import { refundService } from '../services/refund.service';
+import { bookingService } from '../services/booking.service';
 import { Registration } from '../models/user.model';
 
 import { check, validationResult } from 'express-validator';
 import { isAdmin } from '../middleware/auth.middleware';
 import { validate } from '../middleware/validation.middleware';
+import { t, isLanguage, DEFAULT_LANGUAGE, formatDateTime } from '../i18n';
+
+// Users may only see their own invoices; admins see all of them
+const canAccessInvoice = (req: Request, invoice: { user: unknown }) =>
+  isAdmin(req.user) || String(invoice.user) === String(req.user?._id);
 
 export class PaymentController {
   /**
-   * Initialize a new payment
+   * Invoice the user's registration for an event. The amount comes from the registration's
+   * tier and price, never from the request; users pay for themselves, admins may pass userId.
    */
   public async initializePayment(req: Request, res: Response) {
     try {
@@ -17,7 +27,12 @@ export class PaymentController {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { userId, eventName, amount, place, time } = req.body;
+      const { eventId, promoCode } = req.body;
+      const userId = isAdmin(req.user) ? req.body.userId : req.user?._id;
+
+      if (!userId) {
+        return res.status(400).json({ success: false, message: 'User ID is required' });
+      }
 
       // Find the user
       const user = await Registration.findById(userId);
@@ -25,15 +40,51 @@ export class PaymentController {
         return res.status(404).json({ message: 'User not found' });
       }
 
-      // Initialize payment
-      const invoiceData = {
-        eventName,
-        amount,
-        place,
-        time: new Date(time)
-      } as const;
-      
-      const result = await paymentService.initializePayment(user, invoiceData);
+      const { Event } = await import('../models/events.model');
+      const event = await Event.findById(eventId);
+      if (!event) {
+        return res.status(404).json({ success: false, message: 'Event not found' });
+      }
+
+      if (promoCode) {
+        try {
+          await promoService.validateCode(promoCode, userId, eventId);
+        } catch (promoError: any) {
+          return res.status(400).json({ success: false, message: promoError.message });
+        }
+      }
+
+      // Only a registration that holds a seat can be paid for
+      const { EventRegistration } = await import('../models/event-registration.model');
+      const registration = await EventRegistration.findOne({ user: userId, event: eventId });
+      if (!registration) {
+        return res.status(400).json({ success: false, message: 'Sign up for the event before paying' });
+      }
+      if (!['registered', 'payment_initiated'].includes(registration.status)) {
+        return res.status(400).json({ success: false, message: `Registration is ${registration.status} and cannot be paid for` });
+      }
+
+      // One open invoice per seat: a second would expire on its own schedule and could be paid after the seat was released
+      const { Invoice } = await import('../models/invoice.model');
+      const openInvoice = await Invoice.findOne({
+        user: userId,
+        status: { $in: ['pending', 'partially_paid'] },
+        $or: [{ registration: registration._id }, { event: eventId }]
+      });
+      if (openInvoice) {
+        return res.status(400).json({
+          success: false,
+          message: `Invoice ${openInvoice.invoiceId} is already open for this registration`,
+          data: { invoiceId: openInvoice.invoiceId, amount: openInvoice.amount, balanceDue: openInvoice.balanceDue }
+        });
+      }
+
+      if (promoCode) {
+        registration.promoCode = promoCode;
+        await registration.save();
+      }
+
+      const result = await bookingService.invoiceRegistration(user, event, registration);
       
       return res.status(200).json({
         success: true,
@@ -63,13 +114,17 @@ export class PaymentController {
          invoice = await Invoice.findOne({ invoiceId });
       }
       
-      if (status === 'not_found') {
+      if (status === 'not_found' || !invoice) {
         return res.status(404).json({
           success: false,
           message: 'Payment not found'
         });
       }
 
+      if (!canAccessInvoice(req, invoice)) {
+        return res.status(403).json({ success: false, message: 'You can only view your own payments' });
+      }
+
       return res.status(200).json({
         success: true,
         data: {
@@ -92,6 +147,10 @@ export class PaymentController {
   public async getUserInvoices(req: Request, res: Response) {
     try {
       const { userId } = req.params;
+
+      if (!isAdmin(req.user) && String(req.user?._id) !== userId) {
+        return res.status(403).json({ success: false, message: 'You can only view your own invoices' });
+      }
       
       // Import Invoice model
       const { Invoice } = await import('../models/invoice.model');
@@ -118,20 +177,21 @@ export class PaymentController {
    */
   public async getInvoiceById(req: Request, res: Response) {
     try {
-      const { userId, invoiceId } = req.params;
+      const { invoiceId } = req.params;
       
       // Import Invoice model
       const { Invoice } = await import('../models/invoice.model');
       
-      const invoice = await Invoice.findOne({ 
-        user: userId,
-        invoiceId: invoiceId 
-      });
+      const invoice = await Invoice.findOne({ invoiceId });
 
       if (!invoice) {
         return res.status(404).json({ message: 'Invoice not found' });
       }
 
+      if (!canAccessInvoice(req, invoice)) {
+        return res.status(403).json({ success: false, message: 'You can only view your own invoices' });
+      }
+
       return res.status(200).json({
         success: true,
         data: {
@@ -305,10 +365,10 @@ export class PaymentController {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { transactionId, userId, method } = req.body;
+      const { transactionId, userId, method, invoiceId } = req.body;
 
       // Verify payment
-      const result = await paymentService.verifyPayment(transactionId, userId, method);
+      const result = await paymentService.verifyPayment(transactionId, userId, method, invoiceId);
       
       return res.status(200).json({
         success: result.success,
@@ -324,6 +384,117 @@ export class PaymentController {
     }
   }
 
+  /**
+   * Get payments flagged for review (admin only)
+   */
+  public async getPaymentReviews(req: Request, res: Response) {
+    try {
+      const { PaymentReview } = await import('../models/payment-review.model');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const skip = (page - 1) * limit;
+
+      const query: any = {};
+      if (req.query.status && req.query.status !== 'all') {
+        query.status = req.query.status;
+      }
+
+      const [reviews, total] = await Promise.all([
+        PaymentReview.find(query)
+          .populate('user', 'fullName email phoneNumber')
+          .populate('invoice', 'invoiceId amount status metadata')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        PaymentReview.countDocuments(query)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: reviews,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      console.error('Error getting payment reviews:', error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get payment reviews'
+      });
+    }
+  }
+
+  /**
+   * Approve or reject a flagged payment (admin only)
+   * Approving settles the linked invoice with the flagged receipt
+   */
+  public async resolvePaymentReview(req: Request, res: Response) {
+    try {
+      const { status, notes, invoiceId } = req.body;
+
+      const { PaymentReview } = await import('../models/payment-review.model');
+      const { Invoice } = await import('../models/invoice.model');
+
+      const review = await PaymentReview.findById(req.params.id);
+      if (!review) {
+        return res.status(404).json({ success: false, message: 'Payment review not found' });
+      }
+
+      if (review.status !== 'open') {
+        return res.status(400).json({ success: false, message: `Payment review is already ${review.status}` });
+      }
+
+      if (status === 'approved') {
+        const invoice = invoiceId
+          ? await Invoice.findOne({ invoiceId, user: review.user })
+          : await Invoice.findById(review.invoice);
+
+        if (!invoice || !['pending', 'partially_paid'].includes(invoice.status)) {
+          return res.status(400).json({ success: false, message: 'No pending invoice to apply this payment to' });
+        }
+
+        const amount = review.receiptData?.confirmedAmount || invoice.balanceDue;
+        await paymentService.applyPayment(invoice, {
+          transactionId: review.transactionId,
+          method: review.method,
+          amount,
+          paidAt: new Date(),
+          receiptData: {
+            senderName: review.receiptData?.senderName,
+            confirmedAmount: amount,
+            date: review.receiptData?.date,
+            receiver: review.receiptData?.receiverName,
+            receiverAccount: review.receiptData?.receiverAccount
+          }
+        });
+        review.invoice = invoice._id as any;
+      }
+
+      review.status = status;
+      review.notes = notes;
+      review.reviewedBy = req.user?._id;
+      review.reviewedAt = new Date();
+      await review.save();
+
+      return res.status(200).json({
+        success: true,
+        message: status === 'approved' ? 'Payment approved and applied to the invoice' : 'Payment rejected',
+        data: review
+      });
+    } catch (error: any) {
+      console.error('Error resolving payment review:', error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to resolve payment review'
+      });
+    }
+  }
+
   /**
    * Export invoices as CSV or PDF
    */
@@ -340,19 +511,44 @@ export class PaymentController {
         query.status = status;
       }
 
-      const invoices = await Invoice.find(query)
+      const invoiceRows = await Invoice.find(query)
         .populate('user', 'fullName email phoneNumber')
         .sort({ createdAt: -1 })
         .lean();
 
+      // Refunds are listed as negative entries against the invoice they return money from
+      const { Refund } = await import('../models/refund.model');
+      const includeRefunds = !status || status === 'all' || status === 'refunded';
+      const refunds = includeRefunds
+        ? await Refund.find()
+            .populate('user', 'fullName email phoneNumber')
+            .populate('invoice', 'invoiceId metadata')
+            .lean()
+        : [];
+
+      const refundRows = refunds.map((refund: any) => ({
+        invoiceId: `${refund.invoice?.invoiceId || '-'} / ${refund.refundId}`,
+        user: refund.user,
+        amount: -refund.amount,
+        originalAmount: -refund.amount,
+        discountAmount: 0,
+        status: `refund_${refund.status}`,
+        metadata: refund.invoice?.metadata,
+        createdAt: refund.createdAt
+      }));
+
+      const invoices = [...invoiceRows, ...refundRows]
+        .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
       if (formatParam === 'csv') {
-        const header = 'Invoice ID,User,Amount,Status,Event,Date';
+        const header = 'Invoice ID,User,Original Amount,Discount,Promo Code,Amount,Status,Event,Tier,Date';
         const csvLines = invoices.map((inv: any) => {
           const userName = typeof inv.user === 'object' ? inv.user.fullName : 'Unknown';
           const eventName = inv.metadata?.eventName || '-';
+          const tierName = inv.metadata?.tierName || '-';
           const date = inv.createdAt ? new Date(inv.createdAt).toISOString() : '-';
           
-          return [inv.invoiceId, userName, inv.amount, inv.status, eventName, date]
+          return [inv.invoiceId, userName, inv.originalAmount ?? inv.amount, inv.discountAmount || 0, inv.promoCode || '', inv.amount, inv.status, eventName, tierName, date]
             .map((val) => {
               const s = val ?? '';
               if (/[",\n]/.test(String(s))) {
@@ -374,6 +570,8 @@ export class PaymentController {
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', `attachment; filename="invoices_export_${new Date().toISOString().split('T')[0]}.pdf"`);
 
+        // ?lang=am renders the report in Amharic
+        const lang = isLanguage(req.query.lang) ? req.query.lang : DEFAULT_LANGUAGE;
         const doc = new PDFDocument({ margin: 40, layout: 'landscape' });
         doc.pipe(res);
 
@@ -389,12 +587,12 @@ export class PaymentController {
           fontBold = 'Amharic-Bold';
         } catch (err) { /* ignore */ }
 
-        doc.font(fontBold).fontSize(18).text('Finance Report - Invoices', { align: 'center' });
+        doc.font(fontBold).fontSize(18).text(t(lang, 'pdf.invoicesTitle'), { align: 'center' });
         doc.moveDown();
 
         const tableTop = doc.y + 10;
         const rowHeight = 25;
-        const columnWidths = [120, 150, 150, 80, 80, 140]; // InvoiceID, User, Event, Amount, Status, Date
+        const columnWidths = [120, 130, 130, 80, 80, 70, 110]; // InvoiceID, User, Event, Tier, Amount, Status, Date
         const startX = doc.page.margins.left;
 
         const drawRowBackground = (y: number, isHeader = false) => {
@@ -415,7 +613,15 @@ export class PaymentController {
         // Header
         let y = tableTop;
         drawRowBackground(y, true);
-        const headers = ['Invoice ID', 'User', 'Event', 'Amount', 'Status', 'Date'];
+        const headers = [
+          t(lang, 'pdf.invoiceId'),
+          t(lang, 'pdf.user'),
+          t(lang, 'pdf.event'),
+          t(lang, 'pdf.tier'),
+          t(lang, 'pdf.amount'),
+          t(lang, 'pdf.status'),
+          t(lang, 'pdf.date')
+        ];
         let x = startX;
         headers.forEach((h, i) => {
           drawCellText(h, x, y, columnWidths[i], true);
@@ -432,14 +638,15 @@ export class PaymentController {
           if (i % 2 === 0) drawRowBackground(y);
           
           x = startX;
-          const userName = typeof inv.user === 'object' ? inv.user.fullName : 'Unknown';
+          const userName = typeof inv.user === 'object' ? inv.user.fullName : t(lang, 'pdf.unknownUser');
           const values = [
             inv.invoiceId,
             userName,
             inv.metadata?.eventName || '-',
+            inv.metadata?.tierName || '-',
             `${inv.amount} ETB`,
             inv.status.toUpperCase(),
-            inv.createdAt ? new Date(inv.createdAt).toLocaleString() : '-'
+            inv.createdAt ? formatDateTime(inv.createdAt, lang) : '-'
           ];
 
           values.forEach((v, idx) => {
@@ -486,6 +693,153 @@ export class PaymentController {
       });
     }
   }
+
+  /**
+   * Get refunds, optionally filtered by status (admin only)
+   */
+  public async getRefunds(req: Request, res: Response) {
+    try {
+      const { Refund } = await import('../models/refund.model');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const skip = (page - 1) * limit;
+
+      const query: any = {};
+      if (req.query.status && req.query.status !== 'all') {
+        query.status = req.query.status;
+      }
+
+      const [refunds, total] = await Promise.all([
+        Refund.find(query)
+          .populate('user', 'fullName email phoneNumber')
+          .populate('event', 'name date')
+          .populate('invoice', 'invoiceId amount status metadata')
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        Refund.countDocuments(query)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: refunds,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error: any) {
+      console.error('Error getting refunds:', error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get refunds'
+      });
+    }
+  }
+
+  /**
+   * Record the payout of a pending refund (admin only)
+   */
+  public async completeRefund(req: Request, res: Response) {
+    try {
+      const { payoutMethod, payoutReference } = req.body;
+
+      const { Refund } = await import('../models/refund.model');
+      const refund = await Refund.findById(req.params.id);
+      if (!refund) {
+        return res.status(404).json({ success: false, message: 'Refund not found' });
+      }
+
+      try {
+        await refundService.completeRefund(refund, {
+          payoutMethod,
+          payoutReference,
+          processedBy: req.user?._id
+        });
+      } catch (refundError: any) {
+        return res.status(400).json({ success: false, message: refundError.message });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Refund marked as paid out',
+        data: refund
+      });
+    } catch (error: any) {
+      console.error('Error completing refund:', error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to complete refund'
+      });
+    }
+  }
+
+  /**
+   * Get a user's credit balance and history (admin only)
+   */
+  public async getUserCredit(req: Request, res: Response) {
+    try {
+      const [balance, history] = await Promise.all([
+        creditService.getBalance(req.params.userId),
+        creditService.getHistory(req.params.userId)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: { balance, history }
+      });
+    } catch (error: any) {
+      console.error('Error getting user credit:', error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get user credit'
+      });
+    }
+  }
+
+  /**
+   * Record a payout of a user's credit back to them (admin only)
+   */
+  public async refundUserCredit(req: Request, res: Response) {
+    try {
+      const { userId } = req.params;
+      const { amount, reference, note } = req.body;
+
+      const balance = await creditService.getBalance(userId);
+      const refundAmount = amount !== undefined ? Number(amount) : balance;
+
+      if (refundAmount <= 0 || refundAmount > balance) {
+        return res.status(400).json({
+          success: false,
+          message: `Refund amount must be between 0 and the available credit of ${balance} ETB`
+        });
+      }
+
+      const entry = await creditService.addEntry({
+        user: userId,
+        amount: -refundAmount,
+        type: 'refund',
+        reference,
+        note,
+        createdBy: req.user?._id
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: `Refunded ${refundAmount} ETB of credit`,
+        data: { entry, balance: balance - refundAmount }
+      });
+    } catch (error: any) {
+      console.error('Error refunding user credit:', error);
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to refund user credit'
+      });
+    }
+  }
 }
 
 export const paymentController = new PaymentController();
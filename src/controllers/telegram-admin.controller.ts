@@ -0,0 +1,408 @@
+import { TelegramService } from '../services/telegram.service';
+import { Admin, AdminRole, AdminStatus, IAdmin } from '../models/admin.model';
+import { Event } from '../models/events.model';
+import { EventRegistration } from '../models/event-registration.model';
+import { Invoice } from '../models/invoice.model';
+import { Memory } from '../models/memory.model';
+import { Registration } from '../models/user.model';
+import { dashboardService } from '../services/dashboard.service';
+import { checkInService, CheckInResult } from '../services/check-in.service';
+import { paymentService } from '../services/payment.service';
+import { t, Language, MessageKey, formatDate, formatDateTime, escapeHtml } from '../i18n';
+
+const ALL_ROLES = Object.values(AdminRole);
+const MANAGER_ROLES = [AdminRole.SUPER_ADMIN, AdminRole.ADMIN];
+
+// Roles allowed to use each staff command; the same rules as the matching admin API routes
+const COMMAND_ROLES: Record<string, AdminRole[]> = {
+  '/admin': ALL_ROLES,
+  '/stats': ALL_ROLES,
+  '/attendees': ALL_ROLES,
+  '/checkin': ALL_ROLES,
+  '/confirmpayment': MANAGER_ROLES,
+  '/memories': MANAGER_ROLES
+};
+
+const CALLBACK_ROLES: Record<string, AdminRole[]> = {
+  ATT: ALL_ROLES,
+  PAY: MANAGER_ROLES,
+  MEM: MANAGER_ROLES
+};
+
+// Telegram caps messages at 4096 characters
+const MAX_ATTENDEES_LISTED = 60;
+const MEMORIES_PAGE_SIZE = 5;
+
+const TICKET_LINK = /\/ticket\/([A-Za-z0-9_-]+)/;
+const TICKET_REFERENCE = /^[A-Za-z0-9_-]{60,}$/; // Signed references are long base64url strings
+const INVOICE_ID = /\bINV-\d+-\d+\b/;
+// Has to fit in the 64 bytes of callback data next to the invoice ID
+const PAYMENT_REFERENCE = /^[A-Za-z0-9-]{1,30}$/;
+
+// Photo captions are sent as HTML and capped at 1024 characters
+const MAX_MEMORY_CAPTION = 800;
+
+type TicketInput = { reference: string } | { invoiceId: string };
+
+/**
+ * Staff commands for admins who linked their Telegram account from their admin profile.
+ * Everyone else is told the commands don't exist.
+ */
+export class TelegramAdminController {
+  private telegramService: TelegramService;
+
+  constructor() {
+    this.telegramService = new TelegramService();
+  }
+
+  /**
+   * Run a staff command. Returns false if it isn't one, or the sender isn't a linked admin.
+   */
+  public handleCommand = async (chatId: string | number, command: string, args: string[], lang: Language, userId?: number): Promise<boolean> => {
+    const roles = COMMAND_ROLES[command];
+    if (!roles) return false;
+
+    const admin = await this.findAdmin(userId);
+    if (!admin) return false;
+
+    if (!roles.includes(admin.role)) {
+      await this.telegramService.sendMessage(chatId, t(lang, 'admin.notAllowed'));
+      return true;
+    }
+
+    try {
+      switch (command) {
+        case '/admin':
+          await this.sendHelp(chatId, admin, lang);
+          break;
+        case '/stats':
+          await this.handleStats(chatId, lang);
+          break;
+        case '/attendees':
+          await this.handleAttendeeEvents(chatId, lang);
+          break;
+        case '/checkin': {
+          const ticket = args[0] && this.parseTicket(args[0], true);
+          if (!ticket) {
+            await this.telegramService.sendMessage(chatId, t(lang, 'admin.checkinUsage'));
+            break;
+          }
+          await this.handleCheckIn(chatId, ticket, lang);
+          break;
+        }
+        case '/confirmpayment':
+          await this.handleConfirmPayment(chatId, args[0], args[1], lang);
+          break;
+        case '/memories':
+          await this.handlePendingMemories(chatId, lang);
+          break;
+      }
+    } catch (error: any) {
+      console.error(`Error in staff command ${command}:`, error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'admin.failed', { message: error.message }));
+    }
+    return true;
+  };
+
+  /**
+   * Handle an ADMIN_ button, with `params` being what follows the prefix
+   */
+  public handleCallback = async (chatId: string | number, params: string[], lang: Language, userId?: number, messageId?: number) => {
+    const [action, ...rest] = params;
+
+    const admin = await this.findAdmin(userId);
+    if (!admin) return;
+
+    if (!CALLBACK_ROLES[action]?.includes(admin.role)) {
+      await this.telegramService.sendMessage(chatId, t(lang, 'admin.notAllowed'));
+      return;
+    }
+
+    try {
+      switch (action) {
+        case 'ATT':
+          await this.handleAttendees(chatId, rest[0], lang);
+          break;
+        case 'PAY':
+          await this.handleConfirmPaymentChoice(chatId, rest[0], rest[1], lang);
+          break;
+        case 'MEM':
+          await this.handleMemoryChoice(chatId, rest[0], rest[1], lang, messageId);
+          break;
+      }
+    } catch (error: any) {
+      console.error(`Error in staff action ${action}:`, error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'admin.failed', { message: error.message }));
+    }
+  };
+
+  /**
+   * Check in a ticket an admin pasted or forwarded to the bot. Returns false if the message
+   * isn't a ticket, or the sender isn't a linked admin, so it gets handled as usual.
+   */
+  public handleMessage = async (chatId: string | number, message: any, lang: Language, userId?: number): Promise<boolean> => {
+    const text: string = (message.text || message.caption || '').trim();
+    if (!text) return false;
+
+    // Invoice IDs in a message are only trusted when it is a ticket the bot itself sent
+    const ticket = this.parseTicket(text, this.isForwardedFromBot(message));
+    if (!ticket) return false;
+
+    const admin = await this.findAdmin(userId);
+    if (!admin) return false;
+
+    await this.handleCheckIn(chatId, ticket, lang);
+    return true;
+  };
+
+  private findAdmin = async (userId?: number): Promise<IAdmin | null> => {
+    if (!userId) return null;
+    return Admin.findOne({ telegramId: userId, status: AdminStatus.ACTIVE });
+  };
+
+  /**
+   * Find the ticket in a message: a ticket link, a bare signed reference or, if allowed, an invoice ID
+   */
+  private parseTicket = (text: string, allowInvoiceId: boolean): TicketInput | null => {
+    const link = text.match(TICKET_LINK);
+    if (link) {
+      return { reference: link[1] };
+    }
+    if (TICKET_REFERENCE.test(text)) {
+      return { reference: text };
+    }
+
+    const invoiceId = allowInvoiceId && text.match(INVOICE_ID);
+    return invoiceId ? { invoiceId: invoiceId[0] } : null;
+  };
+
+  private isForwardedFromBot = (message: any): boolean => {
+    const botId = Number(process.env.TELEGRAM_BOT_TOKEN?.split(':')[0]);
+    const sender = message.forward_origin?.sender_user || message.forward_from;
+    return !!sender && sender.id === botId;
+  };
+
+  /**
+   * Handle /admin: list the staff commands the admin's role can use
+   */
+  private sendHelp = async (chatId: string | number, admin: IAdmin, lang: Language) => {
+    let text = t(lang, 'admin.help');
+    if (MANAGER_ROLES.includes(admin.role)) {
+      text += t(lang, 'admin.helpManager');
+    }
+    await this.telegramService.sendMessage(chatId, text);
+  };
+
+  /**
+   * Handle /stats: today's activity and the dashboard totals
+   */
+  private handleStats = async (chatId: string | number, lang: Language) => {
+    const [totals, today] = await Promise.all([
+      dashboardService.getStats(),
+      dashboardService.getTodayStats()
+    ]);
+
+    await this.telegramService.sendMessage(chatId, t(lang, 'admin.stats', { ...totals, ...today }));
+  };
+
+  /**
+   * Handle /attendees: offer the active events to list attendees for
+   */
+  private handleAttendeeEvents = async (chatId: string | number, lang: Language) => {
+    const events = await Event.find({ isActive: true }).sort({ date: 1 }).limit(10);
+    if (events.length === 0) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.noEvents'));
+    }
+
+    const buttons = events.map(event => ([{
+      text: `${event.name} (${formatDate(event.date, lang, { month: 'short', day: 'numeric' })})`,
+      callback_data: `ADMIN_ATT_${event._id}`
+    }]));
+
+    await this.telegramService.sendMessage(chatId, t(lang, 'admin.chooseEvent'), {
+      reply_markup: { inline_keyboard: buttons }
+    });
+  };
+
+  /**
+   * List an event's confirmed attendees with who has checked in
+   */
+  private handleAttendees = async (chatId: string | number, eventId: string, lang: Language) => {
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.noEvents'));
+    }
+
+    const registrations = await EventRegistration.find({ event: event._id, status: 'confirmed' })
+      .populate('user', 'fullName phoneNumber')
+      .sort({ checkedIn: 1, registrationDate: 1 });
+
+    if (registrations.length === 0) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.noAttendees', { event: event.name }));
+    }
+
+    const lines = registrations.slice(0, MAX_ATTENDEES_LISTED).map(registration => {
+      const user = registration.user as any;
+      const mark = registration.checkedIn ? '✅' : '⬜';
+      const tier = registration.tierName ? ` · ${registration.tierName}` : '';
+      return `${mark} ${user?.fullName || t(lang, 'admin.unknownAttendee')}${user?.phoneNumber ? ` (${user.phoneNumber})` : ''}${tier}`;
+    });
+
+    let text = t(lang, 'admin.attendeesTitle', {
+      event: event.name,
+      checkedIn: registrations.filter(registration => registration.checkedIn).length,
+      total: registrations.length
+    }) + '\n' + lines.join('\n');
+
+    if (registrations.length > MAX_ATTENDEES_LISTED) {
+      text += t(lang, 'admin.attendeesMore', { count: registrations.length - MAX_ATTENDEES_LISTED });
+    }
+
+    await this.telegramService.sendMessage(chatId, text);
+  };
+
+  /**
+   * Check a ticket in and tell the admin at the gate who it belongs to
+   */
+  private handleCheckIn = async (chatId: string | number, ticket: TicketInput, lang: Language) => {
+    let result: CheckInResult;
+    try {
+      result = 'reference' in ticket
+        ? await checkInService.checkInByReference(ticket.reference)
+        : await checkInService.checkInByInvoiceId(ticket.invoiceId);
+    } catch (error: any) {
+      // Forged, malformed or cancelled tickets
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.ticketInvalid', { message: error.message }));
+    }
+
+    const { outcome, invoice, user, registration, event } = result;
+    await this.telegramService.sendMessage(chatId, t(lang, `admin.checkin.${outcome}` as MessageKey, {
+      name: user?.fullName || t(lang, 'admin.unknownAttendee'),
+      event: invoice?.metadata?.eventName || event?.name || t(lang, 'common.event'),
+      time: registration?.checkedInAt ? formatDateTime(registration.checkedInAt, lang) : t(lang, 'common.notAvailable')
+    }));
+  };
+
+  /**
+   * Handle /confirmpayment: show the invoice and ask to confirm before recording anything
+   */
+  private handleConfirmPayment = async (chatId: string | number, invoiceId: string | undefined, reference: string | undefined, lang: Language) => {
+    if (!invoiceId || (reference && !PAYMENT_REFERENCE.test(reference))) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.confirmUsage'));
+    }
+
+    const invoice = await Invoice.findOne({ invoiceId: invoiceId.toUpperCase() });
+    if (!invoice) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.invoiceNotFound', { invoiceId }));
+    }
+    if (!['pending', 'partially_paid'].includes(invoice.status)) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.invoiceNotPending', { invoiceId: invoice.invoiceId, status: invoice.status }));
+    }
+
+    const user = await Registration.findById(invoice.user).select('fullName');
+
+    await this.telegramService.sendMessage(chatId, t(lang, 'admin.confirmPrompt', {
+      invoiceId: invoice.invoiceId,
+      name: user?.fullName || t(lang, 'admin.unknownAttendee'),
+      event: invoice.metadata?.eventName || t(lang, 'common.event'),
+      balance: invoice.balanceDue,
+      amount: invoice.amount,
+      reference: reference || t(lang, 'admin.manualReference')
+    }), {
+      reply_markup: {
+        inline_keyboard: [[{
+          text: t(lang, 'admin.confirmButton'),
+          callback_data: ['ADMIN_PAY', invoice.invoiceId, reference].filter(Boolean).join('_')
+        }]]
+      }
+    });
+  };
+
+  /**
+   * Record the outstanding balance of an invoice as paid, which confirms the booking and sends the ticket
+   */
+  private handleConfirmPaymentChoice = async (chatId: string | number, invoiceId: string, reference: string | undefined, lang: Language) => {
+    const invoice = await Invoice.findOne({ invoiceId });
+    if (!invoice) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.invoiceNotFound', { invoiceId }));
+    }
+    // The button may be tapped twice, or after the invoice was paid some other way
+    if (!['pending', 'partially_paid'].includes(invoice.status)) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.invoiceNotPending', { invoiceId, status: invoice.status }));
+    }
+
+    const amount = invoice.balanceDue;
+    try {
+      await paymentService.applyPayment(invoice, {
+        transactionId: reference || `MANUAL-${Date.now()}`,
+        method: 'manual',
+        amount,
+        paidAt: new Date()
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'admin.referenceUsed'));
+      }
+      throw error;
+    }
+
+    console.log(`Invoice ${invoiceId} confirmed as paid from Telegram (${amount} ETB)`);
+    await this.telegramService.sendMessage(chatId, t(lang, 'admin.paymentConfirmed', { amount, invoiceId }));
+  };
+
+  /**
+   * Handle /memories: send the oldest photos waiting for review, each with approve and reject buttons
+   */
+  private handlePendingMemories = async (chatId: string | number, lang: Language) => {
+    const [memories, total] = await Promise.all([
+      Memory.find({ isApproved: false })
+        .populate('user', 'fullName')
+        .populate('event', 'name')
+        .sort({ createdAt: 1 })
+        .limit(MEMORIES_PAGE_SIZE),
+      Memory.countDocuments({ isApproved: false })
+    ]);
+
+    if (memories.length === 0) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'admin.noPendingMemories'));
+    }
+
+    for (const memory of memories) {
+      const user = memory.user as any;
+      const event = memory.event as any;
+      const caption = t(lang, 'admin.memoryCaption', {
+        event: event?.name || t(lang, 'common.event'),
+        name: user?.fullName || t(lang, 'admin.unknownAttendee'),
+        caption: escapeHtml((memory.caption || '').slice(0, MAX_MEMORY_CAPTION))
+      });
+
+      await this.telegramService.sendPhoto(chatId, memory.telegramFileId || memory.photoUrl, caption, {
+        reply_markup: {
+          inline_keyboard: [[
+            { text: t(lang, 'admin.approve'), callback_data: `ADMIN_MEM_ok_${memory._id}` },
+            { text: t(lang, 'admin.reject'), callback_data: `ADMIN_MEM_no_${memory._id}` }
+          ]]
+        }
+      });
+    }
+
+    if (total > memories.length) {
+      await this.telegramService.sendMessage(chatId, t(lang, 'admin.memoriesMore', { count: total - memories.length }));
+    }
+  };
+
+  /**
+   * Approve a memory for the gallery, or reject and delete it
+   */
+  private handleMemoryChoice = async (chatId: string | number, choice: string, memoryId: string, lang: Language, messageId?: number) => {
+    // Only pending memories, so a second tap doesn't delete an approved photo
+    const memory = choice === 'ok'
+      ? await Memory.findOneAndUpdate({ _id: memoryId, isApproved: false }, { isApproved: true }, { new: true })
+      : await Memory.findOneAndDelete({ _id: memoryId, isApproved: false });
+
+    const key: MessageKey = !memory ? 'admin.memoryNotFound' : choice === 'ok' ? 'admin.memoryApproved' : 'admin.memoryRejected';
+    await this.telegramService.sendMessage(chatId, t(lang, key), messageId ? { reply_to_message_id: messageId } : {});
+  };
+}
+
+export const telegramAdminController = new TelegramAdminController();
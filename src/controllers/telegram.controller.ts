@@ -1,10 +1,42 @@
 import { Request, Response } from 'express';
 import { TelegramService } from '../services/telegram.service';
 import { Registration } from '../models/user.model';
-import { PaymentService, paymentService } from '../services/payment.service';
+import { PaymentService } from '../services/payment.service';
+import { refundService } from '../services/refund.service';
+import { jobQueue } from '../services/job-queue.service';
+import { botSessionService, BotState } from '../services/bot-session.service';
+import { bookingService } from '../services/booking.service';
+import { IRegistration, IRegistrationInput } from '../interfaces/user.interface';
+import { NOTIFICATION_CATEGORIES, isNotificationCategory, notificationPreferenceService } from '../services/notification-preference.service';
+import { PAYMENT_VERIFICATION_JOB } from '../jobs';
+import { AuthService } from '../services/auth.service';
+import { supportService } from '../services/support.service';
+import { referralService } from '../services/referral.service';
+import { Admin, AdminStatus } from '../models/admin.model';
+import { telegramAdminController } from './telegram-admin.controller';
+import { t, Language, MessageKey, resolveLanguage, isLanguage, formatDate, formatDateTime, escapeHtml, SUPPORTED_LANGUAGES } from '../i18n';
 import fs from 'fs';
 import path from 'path';
 
+const EVENTS_PAGE_SIZE = 5;
+
+// Registration fields asked one at a time when someone books from the bot before registering
+const REGISTRATION_STEPS: { field: keyof IRegistrationInput; prompt: MessageKey; options?: string[] }[] = [
+  { field: 'fullName', prompt: 'register.fullName' },
+  { field: 'email', prompt: 'register.email' },
+  { field: 'phoneNumber', prompt: 'register.phoneNumber' },
+  { field: 'age', prompt: 'register.age' },
+  { field: 'weight', prompt: 'register.weight' },
+  { field: 'height', prompt: 'register.height' },
+  { field: 'horseRidingExperience', prompt: 'register.horseRidingExperience', options: ['beginner', 'intermediate', 'advanced'] },
+  { field: 'referralSource', prompt: 'register.referralSource' }
+];
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  en: '🇬🇧 English',
+  am: '🇪🇹 አማርኛ'
+};
+
 export class TelegramController {
   private telegramService: TelegramService;
 
@@ -12,83 +44,6 @@ export class TelegramController {
     this.telegramService = new TelegramService();
   }
 
-  /**
-   * Broadcast a custom announcement to all subscribed Telegram users
-   * Admin-only route (protected at router level)
-   */
-  public broadcastAnnouncement = async (req: Request, res: Response) => {
-    try {
-      const { title, message, location, time } = req.body as {
-        title?: string;
-        message?: string;
-        location?: string;
-        time?: string;
-      };
-
-      if (!title && !message && !location && !time) {
-        return res.status(400).json({ success: false, message: 'At least one field (title, message, location, time) is required' });
-      }
-
-      // Load all users who have interacted with the bot and stayed subscribed
-      const users = await Registration.find({
-        $or: [
-          { 'telegramData.chatId': { $ne: null } },
-          { 'telegramData.id': { $ne: null } }
-        ],
-        'telegramData.is_subscribed': true,
-      });
-
-      const chatIds = users
-        .map((u) => {
-          const tData = (u as any).telegramData;
-          return tData?.chatId || tData?.id;
-        })
-        .filter((id) => id !== null && id !== undefined);
-
-      if (chatIds.length === 0) {
-        return res.status(200).json({ success: true, message: 'No subscribed Telegram users to notify', data: { success: 0, failed: 0 } });
-      }
-
-      const parts: string[] = [];
-      if (title) {
-        parts.push(`📢 <b>${title}</b>`);
-      }
-      if (message) {
-        parts.push('', message);
-      }
-      if (location) {
-        parts.push('', `📍 <b>Location:</b> ${location}`);
-      }
-      if (time) {
-        const formatted = new Date(time).toLocaleString();
-        parts.push('', `🕒 <b>Time:</b> ${formatted}`);
-      }
-
-      parts.push('', 'Tap the button below to open the web app.');
-
-      const text = parts.join('\n');
-
-      const frontendUrl = process.env.FRONTEND_URL ;
-      const replyMarkup = {
-        inline_keyboard: [
-          [
-            {
-              text: '🌐 Open Web App',
-              web_app: { url: frontendUrl },
-            },
-          ],
-        ],
-      };
-
-      const result = await this.telegramService.broadcastMessage(chatIds, text, { reply_markup: replyMarkup });
-
-      return res.status(200).json({ success: true, message: 'Broadcast sent', data: result });
-    } catch (error) {
-      console.error('Error sending broadcast announcement:', error);
-      return res.status(500).json({ success: false, message: 'Failed to send broadcast' });
-    }
-  };
-
   /**
    * Handle Telegram webhook updates
    */
@@ -98,6 +53,12 @@ export class TelegramController {
       console.log('--- Telegram Update Received ---');
       console.log(JSON.stringify(update, null, 2));
 
+      // Telegram redelivers an update until it gets a response; only process each one once
+      if (typeof update?.update_id === 'number' && !(await this.claimUpdate(update.update_id))) {
+        console.log(`Update ${update.update_id} was already processed, skipping.`);
+        return res.status(200).json({ success: true, message: 'Duplicate update' });
+      }
+
       // Separate message, callback_query, and photo
       const { message, callback_query } = update;
       const photo = message?.photo;
@@ -130,28 +91,31 @@ export class TelegramController {
 
       console.log(`Processing update from chatId: ${chatId}, userId: ${userId}, text: ${text}`);
 
-      // Handle Reply to Message (Transaction ID submission)
-      if (message && message.reply_to_message && message.text) {
-          let method = 'telebirr';
-          const replyText = message.reply_to_message.text || '';
-          const transactionId = message.text.trim();
-          
-          if (replyText.includes('Verification method: CBE')) method = 'cbe';
-          else if (replyText.includes('Verification method: BOA')) method = 'boa';
-          else if (replyText.includes('Verification method: Telebirr')) method = 'telebirr';
-
-          // Extract event name from payment instruction message (format: "Payment for [EventName]")
-          let eventName: string | undefined;
-          const paymentForMatch = replyText.match(/Payment for (.+?)(\n|$)/i);
-          if (paymentForMatch) {
-            eventName = paymentForMatch[1].trim();
-          }
+      // The staff chat only talks to the bot to answer support threads
+      if (message && supportService.isStaffChat(chatId)) {
+        await this.handleStaffSupportMessage(chatId, message);
+        return res.status(200).json({ success: true });
+      }
 
-          console.log(`Detected transaction submission via reply. Transaction ID: ${transactionId}, Method: ${method}, EventName: ${eventName}, UserId: ${userId}`);
-          this.handleTransactionSubmission(chatId, transactionId, userId, method, eventName).catch(err => 
-            console.error('Error in async transaction submission:', err)
-          );
-          return res.status(200).json({ success: true });
+      const lang = await this.getLanguage(userId, (message || callback_query)?.from?.language_code);
+
+      // Commands always take priority and end whatever the bot was waiting for
+      if (message && text && text.startsWith('/')) {
+        console.log(`Handling command: ${text}`);
+        await botSessionService.clear(chatId);
+        await this.handleCommand(chatId, text, lang, userId);
+        return res.status(200).json({ success: true });
+      }
+
+      // Handle callback queries
+      if (callback_query && callback_query.data) {
+        await this.handleCallback(chatId, callback_query.data, lang, userId, callback_query.message?.message_id);
+        return res.status(200).json({ success: true });
+      }
+
+      // Staff pasting or forwarding a ticket to check its holder in
+      if (message && await telegramAdminController.handleMessage(chatId, message, lang, userId)) {
+        return res.status(200).json({ success: true });
       }
 
       // Handle Photos (Memories)
@@ -159,31 +123,55 @@ export class TelegramController {
           console.log('Detected photo upload. Potentially a memory.');
           const fileId = photo[photo.length - 1].file_id; // Get highest resolution
           const caption = message.caption || '';
-          this.handlePhotoUpload(chatId, fileId, caption, userId).catch(err => 
+
+          // Screenshots sent during a support conversation are for the team, not the gallery
+          if ((await botSessionService.get(chatId))?.name === 'in_support') {
+            await this.handleSupportMessage(chatId, message.from, { text: caption, photo: fileId }, lang);
+            return res.status(200).json({ success: true });
+          }
+
+          this.handlePhotoUpload(chatId, fileId, caption, lang, userId).catch(err => 
             console.error('Error in async photo upload:', err)
           );
           return res.status(200).json({ success: true });
       }
 
-      // Handle standalone Transaction ID (relaxed: 8-30 chars, alphanumeric + common symbols)
-      if (text && !text.startsWith('/') && /^[A-Z0-9&]{8,30}$/i.test(text.trim())) {
-          const detectedMethod = PaymentService.detectPaymentMethod(text.trim());
-          console.log(`Detected potential standalone transaction ID: ${text.trim()}, Auto-detected method: ${detectedMethod}, UserId: ${userId}`);
-          this.handleTransactionSubmission(chatId, text.trim(), userId, detectedMethod).catch(err => 
-            console.error('Error in async transaction submission:', err)
-          );
+      if (!text) {
+        return res.status(200).json({ success: true });
+      }
+
+      // Dispatch on what the bot is waiting for from this chat
+      const state = await botSessionService.get(chatId);
+      console.log(`Chat ${chatId} state: ${state?.name || 'none'}`);
+
+      if (state?.name === 'awaiting_transaction_id') {
+          console.log(`Transaction ID submitted for invoice ${state.invoiceId}: ${text.trim()}, Method: ${state.method}, UserId: ${userId}`);
+          // Queue the verification before acknowledging so it survives a restart
+          await this.handleTransactionSubmission(chatId, text.trim(), lang, userId, state.method, state.invoiceId);
           return res.status(200).json({ success: true });
       }
 
-      // Handle commands
-      if (text && text.startsWith('/')) {
-        console.log(`Handling command: ${text}`);
-        await this.handleCommand(chatId, text, userId);
+      if (state?.name === 'registering') {
+          await this.handleRegistrationAnswer(chatId, state, text, lang, userId);
+          return res.status(200).json({ success: true });
       }
-      
-      // Handle callback queries
-      if (callback_query && callback_query.data) {
-        await this.handleCallback(chatId, callback_query.data, userId);
+
+      if (state?.name === 'in_support') {
+          await this.handleSupportMessage(chatId, message?.from, { text }, lang);
+          return res.status(200).json({ success: true });
+      }
+
+      if (state?.name === 'awaiting_memory_event') {
+          await this.telegramService.sendMessage(chatId, t(lang, 'memory.useButtons'));
+          return res.status(200).json({ success: true });
+      }
+
+      // Handle standalone Transaction ID (relaxed: 8-30 chars, alphanumeric + common symbols)
+      if (/^[A-Z0-9&]{8,30}$/i.test(text.trim())) {
+          const detectedMethod = PaymentService.detectPaymentMethod(text.trim());
+          console.log(`Detected potential standalone transaction ID: ${text.trim()}, Auto-detected method: ${detectedMethod}, UserId: ${userId}`);
+          await this.handleTransactionSubmission(chatId, text.trim(), lang, userId, detectedMethod);
+          return res.status(200).json({ success: true });
       }
 
       return res.status(200).json({ success: true });
@@ -193,150 +181,342 @@ export class TelegramController {
     }
   };
 
+  /**
+   * Record an update as processed. Returns false if it was recorded before.
+   */
+  private claimUpdate = async (updateId: number): Promise<boolean> => {
+    const { TelegramUpdate } = await import('../models/telegram-update.model');
+    try {
+      await TelegramUpdate.create({ updateId });
+      return true;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * The language to talk to a Telegram user in
+   */
+  private getLanguage = async (userId?: number, languageCode?: string): Promise<Language> => {
+    const user = userId
+      ? await Registration.findOne({ 'telegramData.id': userId }).select('language telegramData.language_code')
+      : null;
+    return resolveLanguage(user, languageCode);
+  };
+
   /**
    * Handle transaction ID submission for payment verification
    */
-  private handleTransactionSubmission = async (chatId: string | number, transactionId: string, userId?: number, method: string = 'telebirr', eventName?: string) => {
+  private handleTransactionSubmission = async (chatId: string | number, transactionId: string, lang: Language, userId?: number, method: string = 'telebirr', invoiceId?: string) => {
     try {
       if (!userId) {
-        return this.telegramService.sendMessage(chatId, '❌ Please register first using our web interface.');
+        return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
       }
 
       const user = await Registration.findOne({ 'telegramData.id': userId });
       if (!user) {
-        return this.telegramService.sendMessage(chatId, '❌ User not found. Please register first.');
+        return this.telegramService.sendMessage(chatId, t(lang, 'common.userNotFound'));
       }
 
       // 1. Send immediate feedback
-      await this.telegramService.sendMessage(chatId, `🔄 <b>Verifying ${method.toUpperCase()} transaction...</b>\n\nPlease wait while we confirm your payment.`);
+      await this.telegramService.sendMessage(chatId, t(lang, 'payment.verifying', { method: method.toUpperCase() }));
 
-      // 2. Perform verification
-      const result = await paymentService.verifyPayment(transactionId, user._id.toString(), method, eventName);
-      
-      // If invoice exists in result, the service already sent the QR code message
-      if (result.success && result.invoice) {
-        return;
-      } else if (result.success) {
-        await this.telegramService.sendMessage(
-          chatId, 
-          `✅ <b>Payment Verified!</b>\n\n${result.message}\n\nYour booking has been confirmed.`
-        );
-      } else {
-        await this.telegramService.sendMessage(
-          chatId, 
-          `❌ <b>Verification Failed</b>\n\n${result.message}\n\nPlease check your transaction ID and try again.`
-        );
-      }
+      // 2. Verify in the background; the job reports the result to the user
+      await jobQueue.enqueue(PAYMENT_VERIFICATION_JOB, {
+        chatId,
+        transactionId,
+        userId: user._id.toString(),
+        method,
+        invoiceId
+      }, { maxAttempts: 3 });
     } catch (error: any) {
       console.error('Error in handleTransactionSubmission:', error);
-      await this.telegramService.sendMessage(chatId, '❌ An error occurred while verifying your payment. Please try again later.');
+      await this.telegramService.sendMessage(chatId, t(lang, 'payment.verifyError'));
     }
   };
 
   /**
    * Handle photo uploads (memories)
    */
-  private handlePhotoUpload = async (chatId: string | number, fileId: string, caption: string, userId?: number) => {
+  private handlePhotoUpload = async (chatId: string | number, fileId: string, caption: string, lang: Language, userId?: number) => {
     try {
       if (!userId) {
-        return this.telegramService.sendMessage(chatId, '❌ Please register first to upload memories.');
+        return this.telegramService.sendMessage(chatId, t(lang, 'memory.registerFirst'));
       }
 
       const user = await Registration.findOne({ 'telegramData.id': userId });
       if (!user) {
-        return this.telegramService.sendMessage(chatId, '❌ User not found. Please register first.');
+        return this.telegramService.sendMessage(chatId, t(lang, 'common.userNotFound'));
       }
 
-      // 1. Find the most recent confirmed event the user attended
+      // 1. Find the confirmed events the user has attended, most recent first
       const { EventRegistration } = await import('../models/event-registration.model');
       
-      // Heuristic: Confirmed within the last 48 hours, or simply the most recent confirmed
-      const recentAttendance = await EventRegistration.findOne({
+      const attendances = await EventRegistration.find({
         user: user._id,
         status: { $in: ['confirmed'] }
-      }).populate('event').sort({ updatedAt: -1 });
+      }).populate('event').sort({ updatedAt: -1 }).limit(5);
 
-      if (!recentAttendance) {
-        return this.telegramService.sendMessage(
-          chatId, 
-          "📸 That's a great photo! Once you attend one of our adventures, you can share memories here to be featured on our website!"
-        );
-      }
+      const events = attendances.map(a => a.event as any).filter(Boolean);
 
-      const event = recentAttendance.event as any;
-      if (!event) return;
+      if (events.length === 0) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'memory.notAttended'));
+      }
 
-      // 2. Get file URL from Telegram
-      const { axios } = await import('axios').then(m => ({ axios: m.default }));
-      const fileResponse = await axios.get(`https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/getFile?file_id=${fileId}`);
-      const filePath = (fileResponse.data as any).result.file_path;
-      const photoUrl = `https://api.telegram.org/file/bot${process.env.TELEGRAM_BOT_TOKEN}/${filePath}`;
+      if (events.length === 1) {
+        return this.saveMemory(chatId, user, events[0], fileId, caption, lang);
+      }
 
-      // 3. Save as a Memory
-      const { Memory } = await import('../models/memory.model');
-      
-      const memory = new Memory({
-        user: user._id,
-        event: event._id,
-        photoUrl: photoUrl,
-        caption: caption,
-        telegramFileId: fileId,
-        isApproved: false
+      // 2. Several candidates: ask which adventure the photo is from
+      await botSessionService.set(chatId, { name: 'awaiting_memory_event', fileId, caption });
+      await this.telegramService.sendMessage(chatId, t(lang, 'memory.chooseEvent'), {
+        reply_markup: {
+          inline_keyboard: events.map(event => [{ text: event.name, callback_data: `MEMORY_${event._id}` }])
+        }
       });
-
-      await memory.save();
-
-      // 4. Confirm to user
-      await this.telegramService.sendMessage(
-        chatId, 
-        `🖼️ <b>Memory Captured!</b>\n\nI've sent your photo from <b>${event.name}</b> to our team for review. If approved, it will be featured in our trip gallery! ✨`
-      );
     } catch (error: any) {
       console.error('Error in handlePhotoUpload:', error);
-      await this.telegramService.sendMessage(chatId, '❌ An error occurred while processing your photo. Please try again later.');
+      await this.telegramService.sendMessage(chatId, t(lang, 'memory.failed'));
     }
   };
 
+  /**
+   * Save a photo waiting for its event once the user picked the adventure it is from
+   */
+  private handleMemoryEventChoice = async (chatId: string | number, eventId: string, lang: Language, userId?: number) => {
+    try {
+      const state = await botSessionService.get(chatId);
+      if (state?.name !== 'awaiting_memory_event') {
+        return this.telegramService.sendMessage(chatId, t(lang, 'memory.timedOut'));
+      }
+
+      if (!userId) return;
+      const user = await Registration.findOne({ 'telegramData.id': userId });
+      if (!user) return this.telegramService.sendMessage(chatId, t(lang, 'common.userNotFound'));
+
+      const { EventRegistration } = await import('../models/event-registration.model');
+      const attendance = await EventRegistration.findOne({ user: user._id, event: eventId, status: 'confirmed' }).populate('event');
+      if (!attendance?.event) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'memory.onlyAttended'));
+      }
+
+      await botSessionService.clear(chatId);
+      await this.saveMemory(chatId, user, attendance.event as any, state.fileId, state.caption, lang);
+    } catch (error) {
+      console.error('Error in handleMemoryEventChoice:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'memory.failed'));
+    }
+  };
+
+  /**
+   * Store an uploaded photo as a memory of an event, pending review
+   */
+  private saveMemory = async (chatId: string | number, user: any, event: any, fileId: string, caption: string, lang: Language) => {
+    // 1. Get file URL from Telegram
+    const { axios } = await import('axios').then(m => ({ axios: m.default }));
+    const fileResponse = await axios.get(`https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/getFile?file_id=${fileId}`);
+    const filePath = (fileResponse.data as any).result.file_path;
+    const photoUrl = `https://api.telegram.org/file/bot${process.env.TELEGRAM_BOT_TOKEN}/${filePath}`;
+
+    // 2. Save as a Memory
+    const { Memory } = await import('../models/memory.model');
+    
+    const memory = new Memory({
+      user: user._id,
+      event: event._id,
+      photoUrl: photoUrl,
+      caption: caption,
+      telegramFileId: fileId,
+      isApproved: false
+    });
+
+    await memory.save();
+
+    // 3. Confirm to user
+    await this.telegramService.sendMessage(chatId, t(lang, 'memory.captured', { event: event.name }));
+  };
+
   /**
    * Handle command routing
    */
-  private handleCommand = async (chatId: string | number, text: string, userId?: number) => {
+  private handleCommand = async (chatId: string | number, text: string, lang: Language, userId?: number) => {
     const [command, ...args] = text.split(' ');
     
     switch (command) {
       case '/start':
-        await this.handleStart(chatId, userId);
+        await this.handleStart(chatId, lang, userId, args[0]);
         break;
       case '/adventures':
-        await this.handleAdventures(chatId);
+        await this.handleAdventures(chatId, 0, lang);
         break;
       case '/mybookings':
-        await this.handleMyBookings(chatId, userId);
+        await this.handleMyBookings(chatId, lang, userId);
         break;
       case '/profile':
-        await this.handleProfile(chatId, userId);
+        await this.handleProfile(chatId, lang, userId);
         break;
       case '/gallery':
-        await this.handleGallery(chatId);
+        await this.handleGallery(chatId, lang);
         break;
       case '/support':
-        await this.sendSupportMessage(chatId);
+        await this.handleSupport(chatId, lang);
         break;
       case '/help':
-        await this.sendHelpMessage(chatId);
+        await this.sendHelpMessage(chatId, lang);
         break;
       case '/myinvoices':
-        await this.handleMyInvoices(chatId, userId);
+        await this.handleMyInvoices(chatId, lang, userId);
+        break;
+      case '/language':
+        await this.handleLanguage(chatId, lang);
+        break;
+      case '/settings':
+        await this.handleSettings(chatId, lang, userId);
+        break;
+      case '/referrals':
+        await this.handleReferrals(chatId, lang, userId);
+        break;
+      case '/stop':
+        await this.handleStop(chatId, lang, userId);
+        break;
+      case '/cancel':
+        // The webhook already cleared whatever the bot was waiting for
+        await this.telegramService.sendMessage(chatId, t(lang, 'command.cancelled'));
+        break;
+      case '/link':
+        await this.handleLink(chatId, args[0], lang, userId);
         break;
       default:
-        await this.telegramService.sendMessage(chatId, '❌ Unknown command. Type /help for available commands.');
+        // Staff commands look unknown to anyone who isn't a linked admin
+        if (!(await telegramAdminController.handleCommand(chatId, command, args, lang, userId))) {
+          await this.telegramService.sendMessage(chatId, t(lang, 'command.unknown'));
+        }
+    }
+  };
+
+  /**
+   * Handle /link: connect this Telegram account to an admin account, using a code from the admin profile
+   */
+  private handleLink = async (chatId: string | number, code: string | undefined, lang: Language, userId?: number) => {
+    if (!code || !userId) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'link.usage'));
+    }
+
+    try {
+      const admin = await AuthService.linkTelegram(code, userId, chatId);
+      console.log(`Telegram user ${userId} linked to admin ${admin.email}`);
+      await this.telegramService.sendMessage(chatId, t(lang, 'link.done', { name: `${admin.firstName} ${admin.lastName}` }));
+    } catch (error) {
+      await this.telegramService.sendMessage(chatId, t(lang, 'link.failed'));
+    }
+  };
+
+  /**
+   * Handle /language: offer the supported languages
+   */
+  private handleLanguage = async (chatId: string | number, lang: Language) => {
+    await this.telegramService.sendMessage(chatId, t(lang, 'language.prompt'), {
+      reply_markup: {
+        inline_keyboard: [
+          SUPPORTED_LANGUAGES.map(code => ({ text: LANGUAGE_NAMES[code], callback_data: `LANG_${code}` }))
+        ]
+      }
+    });
+  };
+
+  /**
+   * Save the language a user picked. Unregistered users keep following their Telegram client's language.
+   */
+  private handleLanguageChoice = async (chatId: string | number, choice: string, lang: Language, userId?: number) => {
+    if (!isLanguage(choice)) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'command.unknown'));
+    }
+
+    if (userId) {
+      await Registration.updateOne({ 'telegramData.id': userId }, { $set: { language: choice } });
+    }
+    await this.telegramService.sendMessage(chatId, t(choice, 'language.changed'));
+  };
+
+  /**
+   * The /settings text and keyboard for a user's current notification preferences
+   */
+  private settingsView = (user: IRegistration, lang: Language) => {
+    const subscribed = user.telegramData?.is_subscribed !== false;
+
+    const rows = NOTIFICATION_CATEGORIES.map(category => [{
+      text: `${user.notificationPreferences?.[category] !== false ? '✅' : '⬜️'} ${t(lang, `settings.${category}` as MessageKey)}`,
+      callback_data: `NOTIFY_${category}`
+    }]);
+    rows.push([subscribed
+      ? { text: t(lang, 'settings.pauseAll'), callback_data: 'NOTIFY_off' }
+      : { text: t(lang, 'settings.resumeAll'), callback_data: 'NOTIFY_on' }]);
+
+    return {
+      text: t(lang, subscribed ? 'settings.title' : 'settings.paused'),
+      options: { reply_markup: { inline_keyboard: rows } }
+    };
+  };
+
+  /**
+   * Handle /settings: show which kinds of notifications the user gets
+   */
+  private handleSettings = async (chatId: string | number, lang: Language, userId?: number) => {
+    const user = userId ? await Registration.findOne({ 'telegramData.id': userId }) : null;
+    if (!user) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+    }
+
+    const view = this.settingsView(user, lang);
+    await this.telegramService.sendMessage(chatId, view.text, view.options);
+  };
+
+  /**
+   * Handle a /settings button: toggle a category, or pause or resume everything,
+   * then redraw the settings message in place
+   */
+  private handleNotificationChoice = async (chatId: string | number, choice: string, lang: Language, userId?: number, messageId?: number) => {
+    if (!userId) return;
+
+    let user: IRegistration | null = null;
+    if (isNotificationCategory(choice)) {
+      user = await notificationPreferenceService.toggle(userId, choice);
+    } else if (choice === 'on' || choice === 'off') {
+      user = await notificationPreferenceService.setSubscribed(userId, choice === 'on');
+    }
+    if (!user) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+    }
+
+    const view = this.settingsView(user, lang);
+    const edited = messageId && await this.telegramService.editMessageText(chatId, messageId, view.text, view.options);
+    if (!edited) {
+      await this.telegramService.sendMessage(chatId, view.text, view.options);
     }
   };
 
   /**
-   * Handle /start command
+   * Handle /stop: unsubscribe from every notification until /start or /settings turns them back on
    */
-  private handleStart = async (chatId: string | number, userId?: number) => {
+  private handleStop = async (chatId: string | number, lang: Language, userId?: number) => {
+    if (userId) {
+      await notificationPreferenceService.setSubscribed(userId, false);
+    }
+    await this.telegramService.sendMessage(chatId, t(lang, 'stop.done'));
+  };
+
+  /**
+   * Handle /start command. `payload` is the start parameter of a deep link, e.g. ref_<code>.
+   */
+  private handleStart = async (chatId: string | number, lang: Language, userId?: number, payload?: string) => {
+    if (userId && payload) {
+      await referralService.recordContact(userId, payload)
+        .catch(err => console.error('Error recording referral on start:', err));
+    }
+
     // Update user's telegram data if they exist, but don't block the welcome message
     if (userId) {
        await Registration.findOneAndUpdate(
@@ -353,11 +533,7 @@ export class TelegramController {
     }
 
     // Send welcome message with Web App button
-    const welcomeMessage = 
-      '🌟 <b>WELCOME TO REBOOT ADVENTURES</b> 🌟\n\n' +
-      'Step into a world of excitement and nature! 🌿🏇\n\n' +
-      'We curate premium horseback riding experiences and community adventures designed to help you disconnect and reboot.\n\n' +
-      '👇 <b>Start your journey below:</b>';
+    const welcomeMessage = t(lang, 'start.welcome');
     
     const frontendUrl = process.env.FRONTEND_URL;
     const assetsPath = path.join(__dirname, '../../../Frontend/src/assets');
@@ -371,7 +547,7 @@ export class TelegramController {
             inline_keyboard: [
               [
                 {
-                  text: '🚀 Launch Experience',
+                  text: t(lang, 'start.launch'),
                   web_app: { url: frontendUrl }
                 }
               ]
@@ -385,7 +561,7 @@ export class TelegramController {
             inline_keyboard: [
               [
                 {
-                  text: '🚀 Launch Experience',
+                  text: t(lang, 'start.launch'),
                   web_app: { url: frontendUrl }
                 }
               ]
@@ -400,7 +576,7 @@ export class TelegramController {
           inline_keyboard: [
             [
               {
-                text: '🚀 Launch Experience',
+                text: t(lang, 'start.launch'),
                 web_app: { url: frontendUrl }
               }
             ]
@@ -411,65 +587,278 @@ export class TelegramController {
   };
 
   /**
-   * Handle /adventures command
+   * Handle /adventures: list upcoming events a page at a time
    */
-  private handleAdventures = async (chatId: string | number) => {
+  private handleAdventures = async (chatId: string | number, page: number, lang: Language) => {
     try {
       const { Event } = await import('../models/events.model');
-      const events = await Event.find({ isActive: true }).sort({ date: 1 }).limit(5);
+      const filter = { isActive: true, date: { $gte: new Date() } };
+
+      const [events, total] = await Promise.all([
+        Event.find(filter).sort({ date: 1 }).skip(page * EVENTS_PAGE_SIZE).limit(EVENTS_PAGE_SIZE),
+        Event.countDocuments(filter)
+      ]);
 
       if (events.length === 0) {
-        return this.telegramService.sendMessage(chatId, '📭 <b>No Upcoming Adventures</b>\n\nCheck back soon for new trips! 🔄');
+        return this.telegramService.sendMessage(chatId, t(lang, 'adventures.none'));
       }
 
-      const message = '🏔️ <b>UPCOMING ADVENTURES</b>\n' +
+      const totalPages = Math.ceil(total / EVENTS_PAGE_SIZE);
+
+      const message = `${t(lang, 'adventures.title')}${totalPages > 1 ? ` (${page + 1}/${totalPages})` : ''}\n` +
         '━━━━━━━━━━━━━━━━━━━━\n\n' + 
         events.map(e => 
           `📍 <b>${e.name.toUpperCase()}</b>\n` +
-          `📅 ${new Date(e.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}\n` +
-          `💰 ${e.price} ETB\n` +
-          `<i>${e.description ? e.description.substring(0, 50) + '...' : 'Join us for an amazing time!'}</i>`
+          `📅 ${formatDate(e.date, lang, { weekday: 'short', month: 'short', day: 'numeric' })}\n` +
+          (e.tiers?.length
+            ? `💰 ${e.tiers.map(tier => `${tier.name}: ${tier.price} ETB`).join(' · ')}\n`
+            : `💰 ${e.price} ETB\n`) +
+          `<i>${e.description ? e.description.substring(0, 50) + '...' : t(lang, 'adventures.defaultDescription')}</i>`
         ).join('\n\n━━━━━━━━━━━━━━━━━━━━\n\n') +
-        '\n\n👇 <b>Tap below to secure your spot!</b>';
+        `\n\n${t(lang, 'adventures.tapForDetails')}`;
+
+      const keyboard: any[][] = events.map(e => [{ text: `🏇 ${e.name}`, callback_data: `EVENT_${e._id}` }]);
+
+      const navigation = [];
+      if (page > 0) navigation.push({ text: t(lang, 'adventures.previous'), callback_data: `EVENTS_${page - 1}` });
+      if (page + 1 < totalPages) navigation.push({ text: t(lang, 'adventures.next'), callback_data: `EVENTS_${page + 1}` });
+      if (navigation.length > 0) keyboard.push(navigation);
+
+      keyboard.push([{ text: t(lang, 'common.openWebApp'), web_app: { url: `${process.env.FRONTEND_URL}/events` } }]);
 
       await this.telegramService.sendMessage(chatId, message, {
-        reply_markup: {
-          inline_keyboard: [
-            [{ text: '🎫 Book Adventure', web_app: { url: `${process.env.FRONTEND_URL}/events` } }]
-          ]
-        }
+        reply_markup: { inline_keyboard: keyboard }
       });
     } catch (error) {
       console.error('Error in handleAdventures:', error);
     }
   };
 
+  /**
+   * Show an event's details, remaining seats and a Book button per ticket tier
+   */
+  private handleEventDetails = async (chatId: string | number, eventId: string, lang: Language) => {
+    try {
+      const { Event } = await import('../models/events.model');
+      const event = await Event.findById(eventId);
+
+      if (!event || !event.isActive) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'event.unavailable'));
+      }
+
+      const remaining = await bookingService.getRemainingSeats(event);
+      const seatsLine = remaining > 0
+        ? t(lang, 'event.seatsLeft', { remaining, capacity: event.capacity })
+        : t(lang, 'event.full');
+
+      let priceLines = t(lang, 'event.price', { price: event.price });
+      const buttons: any[][] = [];
+
+      if (event.tiers.length > 0) {
+        const tierLines = [];
+        for (const tier of event.tiers) {
+          const tierRemaining = await bookingService.getRemainingSeats(event, tier);
+          tierLines.push(`• <b>${tier.name}</b>: ${tier.price} ETB${tier.description ? ` - ${tier.description}` : ''} (${tierRemaining > 0 ? t(lang, 'event.tierLeft', { count: tierRemaining }) : t(lang, 'event.tierWaitlist')})`);
+          buttons.push([{
+            text: t(lang, tierRemaining > 0 ? 'event.bookTier' : 'event.waitlistTier', { tier: tier.name, price: tier.price }),
+            callback_data: `BOOK_${event._id}_${tier._id}`
+          }]);
+        }
+        priceLines = `${t(lang, 'event.tickets')}\n${tierLines.join('\n')}`;
+      } else {
+        buttons.push([{ text: t(lang, remaining > 0 ? 'event.book' : 'event.joinWaitlist'), callback_data: `BOOK_${event._id}` }]);
+      }
+
+      buttons.push([{ text: t(lang, 'event.allAdventures'), callback_data: 'EVENTS_0' }]);
+
+      const message = `🏇 <b>${event.name.toUpperCase()}</b>\n` +
+        '━━━━━━━━━━━━━━━━━━━━\n\n' +
+        (event.description ? `${event.description}\n\n` : '') +
+        `${t(lang, 'event.date', { date: formatDateTime(event.date, lang) })}\n` +
+        `${t(lang, 'event.location', { location: event.location })}\n` +
+        (event.meetingPoint ? `${t(lang, 'event.meetingPoint', { meetingPoint: event.meetingPoint })}\n` : '') +
+        `${priceLines}\n` +
+        seatsLine;
+
+      await this.telegramService.sendMessage(chatId, message, {
+        reply_markup: { inline_keyboard: buttons }
+      });
+    } catch (error) {
+      console.error('Error in handleEventDetails:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'event.loadFailed'));
+    }
+  };
+
+  /**
+   * Book an event from the bot, first walking unregistered users through registration
+   */
+  private handleBook = async (chatId: string | number, eventId: string, lang: Language, tierId?: string, userId?: number) => {
+    try {
+      if (!userId) return;
+      const user = await Registration.findOne({ 'telegramData.id': userId });
+
+      if (user) {
+        return this.completeBooking(chatId, user, eventId, lang, tierId);
+      }
+
+      await botSessionService.set(chatId, { name: 'registering', eventId, tierId, step: 0, answers: {} });
+      await this.telegramService.sendMessage(chatId, t(lang, 'register.intro'));
+      await this.sendRegistrationPrompt(chatId, 0, lang);
+    } catch (error) {
+      console.error('Error in handleBook:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'booking.startFailed'));
+    }
+  };
+
+  /**
+   * Ask for the registration field at `step`, with buttons if it has fixed options
+   */
+  private sendRegistrationPrompt = async (chatId: string | number, step: number, lang: Language) => {
+    const { prompt, options } = REGISTRATION_STEPS[step];
+    const progress = `${t(lang, 'register.step', { step: step + 1, total: REGISTRATION_STEPS.length })}\n\n`;
+
+    await this.telegramService.sendMessage(chatId, progress + t(lang, prompt), options ? {
+      reply_markup: {
+        inline_keyboard: [options.map(option => ({
+          text: t(lang, `experience.${option}` as MessageKey),
+          callback_data: `REGANSWER_${option}`
+        }))]
+      }
+    } : {});
+  };
+
+  /**
+   * Validate one registration answer, then ask the next question or create the user and book
+   */
+  private handleRegistrationAnswer = async (
+    chatId: string | number,
+    state: Extract<BotState, { name: 'registering' }>,
+    answer: string,
+    lang: Language,
+    userId?: number
+  ) => {
+    try {
+      if (!userId) return;
+
+      const { field } = REGISTRATION_STEPS[state.step];
+      let value = answer.trim();
+
+      if (field === 'phoneNumber') {
+        // Accept local formats such as 0912345678 or 251912345678
+        value = value.replace(/[\s-]/g, '').replace(/^0(?=9\d{8}$)/, '+251').replace(/^251(?=\d{9}$)/, '+251');
+      } else if (field === 'horseRidingExperience') {
+        value = value.toLowerCase();
+      }
+
+      // Reuse the model's validation for this one field
+      const fieldError = new Registration({ [field]: value }).validateSync([field])?.errors[field];
+      if (fieldError) {
+        const message = fieldError.name === 'CastError' ? t(lang, 'register.numberRequired') : fieldError.message;
+        return this.telegramService.sendMessage(chatId, t(lang, 'register.invalid', { message }));
+      }
+
+      if ((field === 'email' || field === 'phoneNumber') && await Registration.exists({ [field]: field === 'email' ? value.toLowerCase() : value })) {
+        return this.telegramService.sendMessage(chatId, t(lang, field === 'email' ? 'register.emailTaken' : 'register.phoneTaken'));
+      }
+
+      const answers = { ...state.answers, [field]: value };
+      const nextStep = state.step + 1;
+
+      if (nextStep < REGISTRATION_STEPS.length) {
+        await botSessionService.set(chatId, { ...state, step: nextStep, answers });
+        return this.sendRegistrationPrompt(chatId, nextStep, lang);
+      }
+
+      const user = new Registration({
+        ...answers,
+        telegramData: { id: userId, chatId },
+        language: lang,
+        referral: await referralService.attributionFor(userId)
+      });
+      await user.save();
+      await botSessionService.clear(chatId);
+
+      await this.telegramService.sendMessage(chatId, t(lang, 'register.welcome', { name: user.fullName }));
+      await this.completeBooking(chatId, user, state.eventId, lang, state.tierId);
+    } catch (error: any) {
+      console.error('Error in handleRegistrationAnswer:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, error.code === 11000 ? 'register.duplicate' : 'register.saveFailed'));
+    }
+  };
+
+  /**
+   * Sign a registered user up for an event and send the invoice straight away
+   */
+  private completeBooking = async (chatId: string | number, user: any, eventId: string, lang: Language, tierId?: string) => {
+    try {
+      const { Event } = await import('../models/events.model');
+      const event = await Event.findById(eventId);
+      if (!event) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'event.unavailable'));
+      }
+
+      let registration;
+      try {
+        registration = await bookingService.signUp(user, event, { tierId });
+      } catch (signupError: any) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'common.error', { message: signupError.message }));
+      }
+
+      if (registration.status === 'waitlisted') {
+        return this.telegramService.sendMessage(
+          chatId,
+          t(lang, 'booking.waitlisted', { event: event.name, position: registration.waitlistPosition })
+        );
+      }
+
+      await this.telegramService.sendMessage(chatId, t(lang, 'booking.reserved', { event: event.name }));
+
+      // Sends the payment method selection to the user's chat
+      await bookingService.invoiceRegistration(user, event, registration);
+    } catch (error) {
+      console.error('Error in completeBooking:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'booking.failed'));
+    }
+  };
+
   /**
    * Handle /mybookings command
    */
-  private handleMyBookings = async (chatId: string | number, userId?: number) => {
+  private handleMyBookings = async (chatId: string | number, lang: Language, userId?: number) => {
     try {
       if (!userId) return;
       const user = await Registration.findOne({ 'telegramData.id': userId });
-      if (!user) return this.telegramService.sendMessage(chatId, '❌ Please register first.');
+      if (!user) return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
 
       const { EventRegistration } = await import('../models/event-registration.model');
       const bookings = await EventRegistration.find({ user: user._id }).populate('event').sort({ createdAt: -1 });
 
       if (bookings.length === 0) {
-        return this.telegramService.sendMessage(chatId, "📅 <b>No Bookings Yet</b>\n\nYou haven't joined any adventures yet. Type /adventures to see what's coming up!");
+        return this.telegramService.sendMessage(chatId, t(lang, 'bookings.none'));
       }
 
-      const message = '🎟️ <b>YOUR BOOKINGS</b>\n' +
+      const message = `${t(lang, 'bookings.title')}\n` +
         '━━━━━━━━━━━━━━━━━━━━\n\n' + 
         bookings.map((b: any) => {
-            const statusEmoji = b.status === 'confirmed' ? '✅' : '⏳';
+            const statusEmoji = b.status === 'confirmed' ? '✅' : b.status === 'cancelled' ? '❌' : '⏳';
+            const position = b.status === 'waitlisted' && b.waitlistPosition ? ` (#${b.waitlistPosition})` : '';
             return `🏇 <b>${b.event?.name}</b>\n` +
-                   `📅 ${new Date(b.event?.date).toLocaleDateString()}\n` +
-                   `Status: ${statusEmoji} <b>${b.status.toUpperCase()}</b>`;
+                   `📅 ${formatDate(b.event?.date, lang)}\n` +
+                   t(lang, 'bookings.status', { emoji: statusEmoji, status: t(lang, `status.${b.status}` as MessageKey), position });
         }).join('\n\n━━━━━━━━━━━━━━━━━━━━\n\n');
 
-      await this.telegramService.sendMessage(chatId, message);
+      // Offer cancellation for bookings that are still active and upcoming
+      const cancellable = bookings.filter((b: any) =>
+        b.status !== 'cancelled' && !b.checkedIn && b.event && new Date(b.event.date) > new Date()
+      );
+
+      await this.telegramService.sendMessage(chatId, message, cancellable.length > 0 ? {
+        reply_markup: {
+          inline_keyboard: cancellable.map((b: any) => [
+            { text: t(lang, 'bookings.cancelButton', { event: b.event.name }), callback_data: `CANCEL_${b._id}` }
+          ])
+        }
+      } : undefined);
     } catch (error) {
       console.error('Error in handleMyBookings:', error);
     }
@@ -478,23 +867,22 @@ export class TelegramController {
   /**
    * Handle /profile command
    */
-  private handleProfile = async (chatId: string | number, userId?: number) => {
+  private handleProfile = async (chatId: string | number, lang: Language, userId?: number) => {
     try {
       if (!userId) return;
       const user = await Registration.findOne({ 'telegramData.id': userId });
-      if (!user) return this.telegramService.sendMessage(chatId, '❌ Profile not found.');
+      if (!user) return this.telegramService.sendMessage(chatId, t(lang, 'profile.notFound'));
 
-      const message = `👤 <b>ADVENTURER PROFILE</b>\n` +
-        '━━━━━━━━━━━━━━━━━━━━\n\n' +
-        `<b>Name:</b> ${user.fullName}\n` +
-        `<b>Phone:</b> ${user.phoneNumber || 'N/A'}\n` +
-        `<b>Level:</b> ${user.horseRidingExperience || 'Beginner'}\n` +
-        `<b>Age:</b> ${user.age || 'N/A'}\n\n` +
-        '━━━━━━━━━━━━━━━━━━━━';
+      const message = t(lang, 'profile.message', {
+        name: user.fullName,
+        phone: user.phoneNumber || t(lang, 'common.notAvailable'),
+        level: t(lang, `experience.${user.horseRidingExperience || 'beginner'}` as MessageKey),
+        age: user.age || t(lang, 'common.notAvailable')
+      });
 
       await this.telegramService.sendMessage(chatId, message, {
         reply_markup: {
-          inline_keyboard: [[{ text: '✏️ Edit Profile', web_app: { url: `${process.env.FRONTEND_URL}/profile` } }]]
+          inline_keyboard: [[{ text: t(lang, 'profile.edit'), web_app: { url: `${process.env.FRONTEND_URL}/profile` } }]]
         }
       });
     } catch (error) {
@@ -505,14 +893,10 @@ export class TelegramController {
   /**
    * Handle /gallery command
    */
-  private handleGallery = async (chatId: string | number) => {
-    const message = '📸 <b>COMMUNITY GALLERY</b>\n\n' +
-    'Relive the magic! ✨ See the smiles, the trails, and the unforgettable moments from our community.\n\n' +
-    '👇 <b>View the collection:</b>';
-    
-    await this.telegramService.sendMessage(chatId, message, {
+  private handleGallery = async (chatId: string | number, lang: Language) => {
+    await this.telegramService.sendMessage(chatId, t(lang, 'gallery.message'), {
       reply_markup: {
-        inline_keyboard: [[{ text: '🌄 Open Gallery', web_app: { url: `${process.env.FRONTEND_URL}/gallery` } }]]
+        inline_keyboard: [[{ text: t(lang, 'gallery.open'), web_app: { url: `${process.env.FRONTEND_URL}/gallery` } }]]
       }
     });
   };
@@ -520,37 +904,181 @@ export class TelegramController {
   /**
    * Handle callback queries
    */
-  private handleCallback = async (chatId: string | number, data: string, userId?: number) => {
+  private handleCallback = async (chatId: string | number, data: string, lang: Language, userId?: number, messageId?: number) => {
     const [action, ...params] = data.split('_');
     
     switch (action) {
       case 'PAY':
         const invId = params[0];
-        await this.handlePayInvoice(chatId, invId, userId);
+        await this.handlePayInvoice(chatId, invId, lang, userId);
         break;
       case 'PMETHOD':
         const method = params[0];
         const invoiceId = params[1];
-        await this.handleMethodSelection(chatId, method, invoiceId, userId);
+        await this.handleMethodSelection(chatId, method, invoiceId, lang, userId);
         break;
       case 'myinvoices':
-        await this.handleMyInvoices(chatId, userId);
+        await this.handleMyInvoices(chatId, lang, userId);
+        break;
+      case 'CANCEL':
+        await this.handleCancelBooking(chatId, params[0], lang, userId);
+        break;
+      case 'CANCELOK':
+        await this.handleConfirmCancelBooking(chatId, params[0], lang, userId);
+        break;
+      case 'TICKET':
+        await this.handleShowTicket(chatId, params[0], lang, userId);
+        break;
+      case 'MEMORY':
+        await this.handleMemoryEventChoice(chatId, params[0], lang, userId);
+        break;
+      case 'EVENTS':
+        await this.handleAdventures(chatId, parseInt(params[0], 10) || 0, lang);
+        break;
+      case 'EVENT':
+        await this.handleEventDetails(chatId, params[0], lang);
+        break;
+      case 'BOOK':
+        await this.handleBook(chatId, params[0], lang, params[1], userId);
+        break;
+      case 'REGANSWER': {
+        const state = await botSessionService.get(chatId);
+        if (state?.name === 'registering') {
+          await this.handleRegistrationAnswer(chatId, state, params[0], lang, userId);
+        }
+        break;
+      }
+      case 'LANG':
+        await this.handleLanguageChoice(chatId, params[0], lang, userId);
+        break;
+      case 'NOTIFY':
+        await this.handleNotificationChoice(chatId, params[0], lang, userId, messageId);
+        break;
+      case 'ADMIN':
+        await telegramAdminController.handleCallback(chatId, params, lang, userId, messageId);
         break;
       // Add more callback handlers as needed
     }
   };
 
+  /**
+   * Show the refund a booking would get and ask the user to confirm cancelling it
+   */
+  private handleCancelBooking = async (chatId: string | number, registrationId: string, lang: Language, userId?: number) => {
+    try {
+      if (!userId) return;
+      const user = await Registration.findOne({ 'telegramData.id': userId });
+      if (!user) return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+
+      const { EventRegistration } = await import('../models/event-registration.model');
+      const registration = await EventRegistration.findOne({ _id: registrationId, user: user._id }).populate('event');
+      if (!registration || registration.status === 'cancelled') {
+        return this.telegramService.sendMessage(chatId, t(lang, 'cancel.notFound'));
+      }
+
+      const event = registration.event as any;
+      const quote = await refundService.quoteCancellation(registration);
+      const refundLine = quote.invoice
+        ? t(lang, 'cancel.refund', { amount: quote.amount, percentage: quote.percentage, paid: quote.invoice.amount })
+        : t(lang, 'cancel.refundNothing');
+
+      const message = `${t(lang, 'cancel.title')}\n` +
+        '━━━━━━━━━━━━━━━━━━━━\n\n' +
+        `🏇 <b>${event?.name}</b>\n` +
+        `📅 ${formatDate(event?.date, lang)}\n\n` +
+        `${refundLine}\n\n` +
+        t(lang, 'cancel.warning');
+
+      await this.telegramService.sendMessage(chatId, message, {
+        reply_markup: {
+          inline_keyboard: [[{ text: t(lang, 'cancel.confirm'), callback_data: `CANCELOK_${registration._id}` }]]
+        }
+      });
+    } catch (error) {
+      console.error('Error in handleCancelBooking:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'cancel.loadFailed'));
+    }
+  };
+
+  /**
+   * Cancel a booking after the user confirmed
+   */
+  private handleConfirmCancelBooking = async (chatId: string | number, registrationId: string, lang: Language, userId?: number) => {
+    try {
+      if (!userId) return;
+      const user = await Registration.findOne({ 'telegramData.id': userId });
+      if (!user) return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+
+      const { EventRegistration } = await import('../models/event-registration.model');
+      const registration = await EventRegistration.findOne({ _id: registrationId, user: user._id });
+      if (!registration) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'cancel.bookingNotFound'));
+      }
+
+      const { refund } = await refundService.cancelRegistration(registration, { requestedBy: 'user' });
+
+      const message = refund
+        ? `${t(lang, 'cancel.done')}\n\n` +
+          t(lang, refund.status === 'completed' ? 'cancel.refundCredit' : 'cancel.refundPayout', { amount: refund.amount })
+        : t(lang, 'cancel.done');
+
+      await this.telegramService.sendMessage(chatId, message);
+    } catch (error: any) {
+      console.error('Error in handleConfirmCancelBooking:', error);
+      await this.telegramService.sendMessage(
+        chatId,
+        error.message ? t(lang, 'common.error', { message: error.message }) : t(lang, 'cancel.failed')
+      );
+    }
+  };
+
+  /**
+   * Resend the ticket QR code for one of the user's paid bookings
+   */
+  private handleShowTicket = async (chatId: string | number, registrationId: string, lang: Language, userId?: number) => {
+    try {
+      if (!userId) return;
+      const user = await Registration.findOne({ 'telegramData.id': userId });
+      if (!user) return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+
+      const { EventRegistration } = await import('../models/event-registration.model');
+      const registration = await EventRegistration.findOne({ _id: registrationId, user: user._id });
+      if (!registration || registration.status === 'cancelled') {
+        return this.telegramService.sendMessage(chatId, t(lang, 'ticket.notFound'));
+      }
+
+      const { Invoice } = await import('../models/invoice.model');
+      const invoice = await Invoice.findOne({
+        $or: [{ registration: registration._id }, { user: user._id, event: registration.event }],
+        status: 'paid'
+      }).sort({ paidAt: -1 });
+      if (!invoice) {
+        return this.telegramService.sendMessage(chatId, t(lang, 'ticket.notPaid'));
+      }
+
+      const { qrService } = await import('../services/qr.service');
+      const qrBuffer = await qrService.generateTicketQR(invoice);
+
+      const caption = t(lang, 'ticket.caption', { event: invoice.metadata?.eventName || t(lang, 'ticket.defaultName') }) +
+        t(lang, 'ticket.reference', { invoiceId: invoice.invoiceId });
+      await this.telegramService.sendPhoto(chatId, qrBuffer, caption);
+    } catch (error) {
+      console.error('Error in handleShowTicket:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'ticket.loadFailed'));
+    }
+  };
+
   /**
    * Handle /myinvoices command
    */
-  private handleMyInvoices = async (chatId: string | number, userId?: number) => {
+  private handleMyInvoices = async (chatId: string | number, lang: Language, userId?: number) => {
     if (!userId) {
-      return this.telegramService.sendMessage(chatId, '❌ Please use our web interface to register first.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
     }
 
     const user = await Registration.findOne({ 'telegramData.id': userId });
     if (!user) {
-      return this.telegramService.sendMessage(chatId, '❌ User not found. Please register first.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.userNotFound'));
     }
 
     // Import Invoice model
@@ -559,26 +1087,26 @@ export class TelegramController {
     const invoices = await Invoice.find({ user: user._id }).sort({ createdAt: -1 });
     
     if (invoices.length === 0) {
-      return this.telegramService.sendMessage(chatId, '📭 <b>No Invoices Found</b>\n\nYou have no pending or past invoices.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'invoices.none'));
     }
 
     // Send each invoice as a separate message
     for (const invoice of invoices) {
-      await this.sendInvoiceMessage(chatId, invoice);
+      await this.sendInvoiceMessage(chatId, invoice, lang);
     }
   };
 
   /**
    * Handle invoice payment
    */
-  private handlePayInvoice = async (chatId: string | number, invoiceId: string, userId?: number) => {
+  private handlePayInvoice = async (chatId: string | number, invoiceId: string, lang: Language, userId?: number) => {
     if (!userId) {
-      return this.telegramService.sendMessage(chatId, '❌ Please use our web interface to register first.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
     }
 
     const user = await Registration.findOne({ 'telegramData.id': userId });
     if (!user) {
-      return this.telegramService.sendMessage(chatId, '❌ User not found.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.userNotFound'));
     }
 
     // Import Invoice model
@@ -590,68 +1118,149 @@ export class TelegramController {
     });
 
     if (!invoice) {
-      return this.telegramService.sendMessage(chatId, '❌ Invoice not found.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'invoice.notFound'));
     }
 
     if (invoice.status === 'paid') {
-      return this.telegramService.sendMessage(chatId, '✅ This invoice has already been paid.');
+      return this.telegramService.sendMessage(chatId, t(lang, 'invoice.alreadyPaid'));
     }
 
-    const eventName = invoice.metadata?.eventName || 'Event';
+    if (!['pending', 'partially_paid'].includes(invoice.status)) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'invoice.notPayable'));
+    }
+
+    const eventName = invoice.metadata?.eventName || t(lang, 'common.event');
 
     // Send the payment method selection
     await this.telegramService.sendPaymentMethodSelection(
         chatId,
-        invoice.amount,
+        invoice.balanceDue,
         eventName,
-        invoiceId
+        invoiceId,
+        lang
     );
   };
 
   /**
-   * Send support message
+   * Handle /referrals: the user's code to share, the friends who joined with it and the credit earned
    */
-  private sendSupportMessage = async (chatId: string | number) => {
-    const adminUsername = process.env['Admin_User-Name'] || '@BsreAbrham';
-    const message = `💬 <b>NEED ASSISTANCE?</b>\n\n` +
-    `Our team is ready to help you with bookings, payments, or any inquiries.\n\n` +
-    `👤 <b>Support Contact:</b> ${adminUsername}\n` +
-    `🕒 <b>Hours:</b> 9:00 AM - 6:00 PM`;
-    
-    await this.telegramService.sendMessage(chatId, message);
+  private handleReferrals = async (chatId: string | number, lang: Language, userId?: number) => {
+    if (!userId) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+    }
+
+    const user = await Registration.findOne({ 'telegramData.id': userId });
+    if (!user) {
+      return this.telegramService.sendMessage(chatId, t(lang, 'common.registerFirst'));
+    }
+
+    try {
+      const summary = await referralService.getSummary(String(user._id));
+      const { code } = summary.referralCode;
+
+      // The most recent friends are enough to keep the message within Telegram's limit
+      const friends = summary.friends.slice(0, 30).map(friend =>
+        `${friend.rewarded ? '✅' : '⏳'} ${escapeHtml(friend.name.split(' ')[0])} · ${formatDate(friend.joinedAt, lang)}`
+      );
+
+      const message =
+        t(lang, 'referrals.title', {
+          reward: referralService.rewardAmount,
+          code,
+          link: summary.link || `<code>/start ref_${code}</code>`
+        }) + '\n\n' +
+        t(lang, 'referrals.stats', {
+          joined: summary.friends.length,
+          rewarded: summary.friends.filter(friend => friend.rewarded).length,
+          earned: summary.earned,
+          balance: summary.balance
+        }) + '\n\n' +
+        t(lang, 'referrals.friends') + '\n' +
+        (friends.length > 0 ? friends.join('\n') : t(lang, 'referrals.noFriends'));
+
+      const options = summary.link
+        ? {
+            reply_markup: {
+              inline_keyboard: [[{
+                text: t(lang, 'referrals.share'),
+                url: `https://t.me/share/url?url=${encodeURIComponent(summary.link)}&text=${encodeURIComponent(t(lang, 'referrals.shareText'))}`
+              }]]
+            }
+          }
+        : {};
+
+      await this.telegramService.sendMessage(chatId, message, options);
+    } catch (error) {
+      console.error('Error in handleReferrals:', error);
+      await this.telegramService.sendMessage(chatId, t(lang, 'referrals.failed'));
+    }
   };
 
   /**
-   * Send help message
+   * Handle /support: relay what the user sends next to the support team
    */
-  private sendHelpMessage = async (chatId: string | number) => {
-    const helpText = `
-🤖 <b>REBOOT BOT COMMANDS</b>
-━━━━━━━━━━━━━━━━━━━━
-
-🚀 <b>/start</b>
-Start the bot & open the app
-
-🏔️ <b>/adventures</b>
-Browse our upcoming trips
+  private handleSupport = async (chatId: string | number, lang: Language) => {
+    await botSessionService.set(chatId, { name: 'in_support' });
+    await this.telegramService.sendMessage(chatId, t(lang, 'support.opened'));
+  };
 
-🎟️ <b>/mybookings</b>
-View your scheduled events
+  /**
+   * Add a message to the user's support thread, which starts one if needed
+   */
+  private handleSupportMessage = async (chatId: string | number, from: any, content: { text: string; photo?: string }, lang: Language) => {
+    if (!from?.id) return;
+
+    const { wasWaiting } = await supportService.addUserMessage({
+      telegramId: from.id,
+      chatId,
+      name: [from.first_name, from.last_name].filter(Boolean).join(' ') || String(from.id),
+      username: from.username,
+      language: lang
+    }, content);
+
+    // Keep the conversation open while the user keeps writing
+    await botSessionService.set(chatId, { name: 'in_support' });
+
+    if (!wasWaiting) {
+      await this.telegramService.sendMessage(chatId, t(lang, 'support.sent'));
+    }
+  };
 
-🧾 <b>/myinvoices</b>
-Track your payments
+  /**
+   * Handle a message in the staff chat: a reply to a relayed message answers its thread, or closes it with /close
+   */
+  private handleStaffSupportMessage = async (chatId: string | number, message: any) => {
+    const replyTo = message.reply_to_message?.message_id;
+    const text: string = (message.text || message.caption || '').trim();
+    if (!replyTo || !text) return; // Staff talking among themselves
 
-📸 <b>/gallery</b>
-See photos from past trips
+    const ticket = await supportService.findByRelayMessage(replyTo);
+    if (!ticket) return;
 
-👤 <b>/profile</b>
-View & edit your details
+    const admin = message.from?.id
+      ? await Admin.findOne({ telegramId: message.from.id, status: AdminStatus.ACTIVE })
+      : null;
+    const staff = admin
+      ? { adminId: String(admin._id), name: `${admin.firstName} ${admin.lastName}` }
+      : { name: message.from?.first_name || 'Staff' };
 
-💬 <b>/support</b>
-Get in touch with us
+    try {
+      if (text.split(/[\s@]/)[0] === '/close') {
+        await supportService.close(ticket, staff);
+      } else {
+        await supportService.reply(ticket, text, staff, message.message_id);
+      }
+    } catch (error: any) {
+      console.error(`Error answering support thread ${ticket._id}:`, error);
+      await this.telegramService.sendMessage(chatId, `⚠️ ${escapeHtml(error.message)}`, { reply_to_message_id: message.message_id });
+    }
+  };
 
-━━━━━━━━━━━━━━━━━━━━
-<i>Select a command to proceed</i>`;
+  /**
+   * Send help message
+   */
+  private sendHelpMessage = async (chatId: string | number, lang: Language) => {
+    const helpText = t(lang, 'help.message');
 
     await this.telegramService.sendMessage(chatId, helpText, { parse_mode: 'HTML' });
   };
@@ -659,38 +1268,44 @@ Get in touch with us
   /**
    * Send an invoice message
    */
-  private sendInvoiceMessage = async (chatId: string | number, invoice: any) => {
+  private sendInvoiceMessage = async (chatId: string | number, invoice: any, lang: Language) => {
     const statusEmoji = invoice.status === 'paid' ? '✅' : '⏳';
     const statusText = invoice.status === 'paid' 
-      ? `Paid on ${new Date(invoice.paidAt!).toLocaleDateString()}` 
-      : 'Pending Payment';
-
-    const eventName = invoice.metadata?.eventName || 'Event';
-    const place = invoice.metadata?.place || 'TBA';
-    const time = invoice.metadata?.time ? new Date(invoice.metadata.time).toLocaleString() : 'TBA';
+      ? t(lang, 'invoice.statusPaid', { date: formatDate(invoice.paidAt!, lang) })
+      : invoice.status === 'partially_paid'
+        ? t(lang, 'invoice.statusPartial', { amount: invoice.balanceDue })
+        : invoice.status === 'refunded'
+          ? t(lang, 'invoice.statusRefunded', { amount: invoice.refundedAmount })
+          : invoice.status === 'cancelled'
+            ? t(lang, invoice.expiredAt ? 'invoice.statusExpired' : 'invoice.statusCancelled')
+            : t(lang, 'invoice.statusPending');
+
+    const eventName = invoice.metadata?.eventName || t(lang, 'common.event');
+    const place = invoice.metadata?.place || t(lang, 'common.tba');
+    const time = invoice.metadata?.time ? formatDateTime(invoice.metadata.time, lang) : t(lang, 'common.tba');
 
     const message = `
-🧾 <b>INVOICE #${invoice.invoiceId}</b> ${statusEmoji}
+${t(lang, 'invoice.title', { invoiceId: invoice.invoiceId, emoji: statusEmoji })}
 ━━━━━━━━━━━━━━━━━━━━
 
-📍 <b>Event:</b> ${eventName}
-💰 <b>Amount:</b> ${invoice.amount} ETB
-🗺️ <b>Location:</b> ${place}
-📅 <b>Date:</b> ${time}
+${t(lang, 'invoice.event', { event: eventName })}
+${t(lang, 'invoice.amount', { amount: invoice.amount })}${invoice.discountAmount > 0 ? ` <i>(${invoice.promoCode}: -${invoice.discountAmount} ETB)</i>` : ''}${invoice.amountPaid > 0 ? `\n${t(lang, 'invoice.paid', { amount: invoice.amountPaid })}` : ''}
+${t(lang, 'invoice.location', { location: place })}
+${t(lang, 'invoice.date', { date: time })}
 
-<b>Status:</b> ${statusText}
+${t(lang, 'invoice.status', { status: statusText })}${['pending', 'partially_paid'].includes(invoice.status) && invoice.expiresAt ? `\n${t(lang, 'invoice.payBy', { date: formatDateTime(invoice.expiresAt, lang) })}` : ''}
 ━━━━━━━━━━━━━━━━━━━━`;
 
     const options: any = {
       parse_mode: 'HTML',
     };
 
-    if (invoice.status !== 'paid') {
+    if (['pending', 'partially_paid'].includes(invoice.status)) {
       options.reply_markup = {
         inline_keyboard: [
           [
             {
-              text: '💳 Pay Now',
+              text: t(lang, 'invoice.payNow'),
               callback_data: `PAY_${invoice.invoiceId}`
             }
           ]
@@ -704,7 +1319,7 @@ Get in touch with us
   /**
    * Handle payment method selection
    */
-  private handleMethodSelection = async (chatId: string | number, method: string, invoiceId: string, userId?: number) => {
+  private handleMethodSelection = async (chatId: string | number, method: string, invoiceId: string, lang: Language, userId?: number) => {
     try {
       // Import Invoice model
       const { Invoice } = await import('../models/invoice.model');
@@ -712,20 +1327,31 @@ Get in touch with us
       const invoice = await Invoice.findOne({ invoiceId });
       
       if (!invoice) {
-        return this.telegramService.sendMessage(chatId, '❌ Invoice not found.');
+        return this.telegramService.sendMessage(chatId, t(lang, 'invoice.notFound'));
+      }
+
+      if (invoice.status !== 'pending' && invoice.status !== 'partially_paid') {
+        return this.telegramService.sendMessage(chatId, t(lang, 'invoice.notPayable'));
       }
 
-      const eventName = invoice.metadata?.eventName || 'Event';
+      const eventName = invoice.metadata?.eventName || t(lang, 'common.event');
       
-      await this.telegramService.sendSpecificPaymentInstruction(
+      const sent = await this.telegramService.sendSpecificPaymentInstruction(
         chatId,
         method,
-        invoice.amount,
-        eventName
+        invoice.balanceDue,
+        eventName,
+        invoiceId,
+        lang
       );
+
+      // The next message from this chat is the transaction ID for this invoice
+      if (sent) {
+        await botSessionService.set(chatId, { name: 'awaiting_transaction_id', invoiceId, method });
+      }
     } catch (error) {
       console.error('Error in handleMethodSelection:', error);
-      await this.telegramService.sendMessage(chatId, '❌ Failed to process payment method selection.');
+      await this.telegramService.sendMessage(chatId, t(lang, 'payment.methodFailed'));
     }
   };
 }
@@ -1,8 +1,19 @@
 import { Request, Response } from 'express';
 import { qrService, TicketReference } from '../services/qr.service';
+import { checkInService } from '../services/check-in.service';
 import { Invoice } from '../models/invoice.model';
 import { Registration } from '../models/user.model';
 import { Event } from '../models/events.model';
+import { t, Language, MessageKey, isLanguage, resolveLanguage, DEFAULT_LANGUAGE, formatDateTime } from '../i18n';
+
+/**
+ * Helpers the ticket and error pages use to render in a language
+ */
+const viewLocals = (lang: Language) => ({
+  lang,
+  t: (key: MessageKey, params?: Record<string, string | number | undefined>) => t(lang, key, params),
+  formatDateTime
+});
 
 export class TicketController {
   /**
@@ -10,8 +21,12 @@ export class TicketController {
    * GET /ticket/:reference
    */
   public async verifyTicket(req: Request, res: Response) {
+    let lang: Language = DEFAULT_LANGUAGE;
     try {
       const { reference } = req.params;
+      // An explicit ?lang= wins; otherwise the page follows the ticket holder's language
+      const requestedLang = isLanguage(req.query.lang) ? req.query.lang : undefined;
+      lang = requestedLang || DEFAULT_LANGUAGE;
       
       if (!reference) {
         return res.status(400).json({ 
@@ -40,36 +55,27 @@ export class TicketController {
 
       // Get user details
       const user = await Registration.findById(invoice.user);
+      lang = requestedLang || resolveLanguage(user);
       
       // Get event details
-      let event = null;
-      if (invoice.metadata?.eventName) {
-        event = await Event.findOne({ name: invoice.metadata.eventName });
-      }
+      const event = invoice.event ? await Event.findById(invoice.event) : null;
 
       // Get registration details
       const { EventRegistration } = await import('../models/event-registration.model');
-      let registration = await EventRegistration.findOne({
-          user: invoice.user,
-          event: invoice.event
-      });
-
-      if (!registration && invoice.metadata?.eventName) {
-          const { Event: EventModel } = await import('../models/events.model');
-          const eventRecord = await EventModel.findOne({ name: invoice.metadata.eventName });
-          if (eventRecord) {
-              registration = await EventRegistration.findOne({
-                  user: invoice.user,
-                  event: eventRecord._id
-              });
-          }
-      }
+      const registration = invoice.registration
+        ? await EventRegistration.findById(invoice.registration)
+        : invoice.event
+          ? await EventRegistration.findOne({ user: invoice.user, event: invoice.event })
+          : null;
 
       // Log the verification
       console.log(`Ticket verified: ${ticketData.invoiceId} for user ${user?.fullName}, Status: ${ticketData.status}`);
 
+      const tierName = registration?.tierName || invoice.metadata?.tierName;
+
       // Prepare data for the template
       const ticketInfo = {
+        ...viewLocals(lang),
         success: true,
         data: {
           ticket: ticketData,
@@ -92,13 +98,15 @@ export class TicketController {
             location: event.location || invoice.metadata?.place || 'TBD',
             date: event.date ? new Date(event.date).toLocaleString() : invoice.metadata?.time || 'TBD',
             description: event.description || '',
-            amount: invoice.amount
+            amount: invoice.amount,
+            tier: tierName
           } : {
             name: invoice.metadata?.eventName || 'Event',
             location: invoice.metadata?.place || 'TBD',
             date: invoice.metadata?.time ? new Date(invoice.metadata.time).toLocaleString() : 'TBD',
             description: '',
-            amount: invoice.amount
+            amount: invoice.amount,
+            tier: tierName
           }
         }
       };
@@ -109,28 +117,33 @@ export class TicketController {
     } catch (error: any) {
       console.error('Ticket verification error:', error.message);
       
-      let errorTitle = 'Verification Failed';
-      let errorMessage = 'We couldn\'t verify this ticket at the moment.';
+      let errorTitle: MessageKey = 'page.verifyFailed';
+      let errorMessage: MessageKey = 'page.verifyFailedMessage';
       let errorCode = 'VERIFY_ERROR';
 
       if (error.message.includes('Invalid signature')) {
-        errorTitle = 'Invalid Ticket';
-        errorMessage = 'This ticket appears to be invalid or tempered with.';
+        errorTitle = 'page.invalidTicket';
+        errorMessage = 'page.invalidTicketMessage';
         errorCode = 'INVALID_SIGNATURE';
       } else if (error.message.includes('expired')) {
-        errorTitle = 'Ticket Expired';
-        errorMessage = 'This ticket has already expired and is no longer valid.';
+        errorTitle = 'page.ticketExpired';
+        errorMessage = 'page.ticketExpiredMessage';
         errorCode = 'TICKET_EXPIRED';
+      } else if (error.message.includes('cancelled')) {
+        errorTitle = 'page.ticketCancelled';
+        errorMessage = 'page.ticketCancelledMessage';
+        errorCode = 'TICKET_CANCELLED';
       } else if (error.message.includes('not found')) {
-        errorTitle = 'Ticket Not Found';
-        errorMessage = 'We couldn\'t find any active ticket matching this reference.';
+        errorTitle = 'page.ticketNotFound';
+        errorMessage = 'page.ticketNotFoundMessage';
         errorCode = 'TICKET_NOT_FOUND';
       }
       
       return res.status(400).render('error', {
+        ...viewLocals(lang),
         success: false,
-        error: errorTitle,
-        message: errorMessage,
+        error: t(lang, errorTitle),
+        message: t(lang, errorMessage),
         code: errorCode
       });
     }
@@ -153,11 +166,11 @@ export class TicketController {
 
       // 1. Verify the QR reference first
       const ticketData = await qrService.verifyTicketReference(reference);
-      
-      // 2. Fetch all necessary details for rich response
-      const invoice = await Invoice.findOne({ invoiceId: ticketData.invoiceId }).populate('user');
-      const user = invoice ? await Registration.findById(invoice.user) : null;
-      
+
+      // 2. Check in, fetching everything needed for a rich response
+      const { outcome, invoice, user, registration, event: fullEvent } =
+        await checkInService.checkInByInvoiceId(ticketData.invoiceId);
+
       const attendeeInfo = {
         fullName: user?.fullName || 'Unknown Attendee',
         email: user?.email || '',
@@ -178,90 +191,44 @@ export class TicketController {
         ticketStatus: ticketData.status,
       };
 
-      let eventId: any = invoice?.event;
-      
-      // Fallback: Find event by name if ID is missing in invoice (legacy data)
-      if (!eventId && invoice?.metadata?.eventName) {
-        const { Event: EventModel } = await import('../models/events.model');
-        const eventRecord = await EventModel.findOne({ name: invoice.metadata.eventName });
-        if (eventRecord) {
-          eventId = eventRecord._id as any;
-        }
-      }
-
-      // Fetch full event details immediately for rich response
-      let fullEvent = null;
-      if (eventId) {
-        const { Event: EventModel } = await import('../models/events.model');
-        fullEvent = await EventModel.findById(eventId);
-      }
+      const eventDetails = fullEvent ? {
+        location: fullEvent.location,
+        date: fullEvent.date,
+        capacity: fullEvent.capacity
+      } : null;
 
-      if (ticketData.status === 'used' || ticketData.status === 'expired') {
-        const { EventRegistration } = await import('../models/event-registration.model');
-        const reg = await EventRegistration.findOne({ user: invoice?.user, event: eventId });
-        
+      if (ticketData.status === 'used' || outcome === 'expired') {
         return res.status(400).json({
           success: false,
-          message: ticketData.status === 'expired' ? 'This ticket has expired' : 'Ticket has already been used',
-          data: { 
-            ...attendeeInfo, 
-            usedAt: reg?.checkedInAt,
-            eventDetails: fullEvent ? {
-              location: fullEvent.location,
-              date: fullEvent.date,
-              capacity: fullEvent.capacity
-            } : null
-          }
+          message: outcome === 'expired' ? 'This ticket has expired' : 'Ticket has already been used',
+          data: { ...attendeeInfo, usedAt: registration?.checkedInAt, eventDetails }
         });
       }
 
-      if (!invoice || !eventId) {
+      if (outcome === 'not_paid' || outcome === 'event_not_found') {
         return res.status(404).json({ success: false, message: 'Associated event not found', data: attendeeInfo });
       }
 
-      // 3. Find and update the registration
-      const { EventRegistration } = await import('../models/event-registration.model');
-      let registration = await EventRegistration.findOne({
-        user: invoice.user,
-        event: eventId as any
-      });
-
-      // Fallback for registration if not found by ID
-      if (!registration) {
-          registration = await EventRegistration.findOne({
-              user: invoice.user,
-          }).populate('event');
-      }
-
-      if (!registration) {
+      if (outcome === 'registration_not_found') {
         return res.status(404).json({ success: false, message: 'Registration not found', data: attendeeInfo });
       }
 
-      if (registration.checkedIn) {
+      // Someone else scanned the ticket after it was verified above
+      if (outcome === 'already_checked_in') {
         return res.status(400).json({ 
           success: false, 
           message: 'User already checked in',
-          data: { ...attendeeInfo, usedAt: registration.checkedInAt }
+          data: { ...attendeeInfo, usedAt: registration?.checkedInAt }
         });
       }
 
-      registration.checkedIn = true;
-      registration.checkedInAt = new Date();
-      await registration.save();
-      
-      console.log(`Ticket marked as used: ${ticketData.invoiceId} for user ${user?.fullName}`);
-
       return res.status(200).json({
         success: true,
         message: 'Checked in successfully!',
         data: {
           ...attendeeInfo,
-          usedAt: registration.checkedInAt,
-          eventDetails: fullEvent ? {
-            location: fullEvent.location,
-            date: fullEvent.date,
-            capacity: fullEvent.capacity
-          } : null
+          usedAt: registration?.checkedInAt,
+          eventDetails
         }
       });
 
@@ -331,6 +298,10 @@ export class TicketController {
         return res.status(404).json({ success: false, message: 'Registration not found' });
       }
 
+      if (registration.status === 'cancelled') {
+        return res.status(400).json({ success: false, message: 'Registration has been cancelled' });
+      }
+
       if (registration.checkedIn) {
         return res.status(400).json({ success: false, message: 'User already checked in' });
       }
@@ -3,24 +3,43 @@ import { IRegistration, IRegistrationInput } from '../interfaces/user.interface'
 import { Registration } from '../models/user.model';
 import { EventRegistration } from '../models/event-registration.model';
 import { Error as MongooseError } from 'mongoose';
+import { telegramAuthService } from '../services/telegram-auth.service';
+import { referralService } from '../services/referral.service';
+import { isAdmin } from '../middleware/auth.middleware';
 
+/**
+ * @desc Register the Telegram user verified from the Mini App's initData
+ * @route POST /api/users
+ */
 export const registerUser = async (req: Request, res: Response): Promise<void> => {
   try {
+    const telegramUser = req.telegramUser!;
+
+    // Telegram details come from the signed initData, never from the request body
     const registrationData: IRegistrationInput = {
       ...req.body,
-      telegramData: req.body.telegramData || null
+      isAdmin: false,
+      tags: [], // Tags are set by admins for broadcast targeting
+      referral: await referralService.attributionFor(telegramUser.id),
+      telegramData: {
+        id: telegramUser.id,
+        chatId: telegramUser.id, // Private chats with the bot share the user's ID
+        first_name: telegramUser.first_name,
+        last_name: telegramUser.last_name,
+        username: telegramUser.username,
+        language_code: telegramUser.language_code,
+        photo_url: telegramUser.photo_url
+      }
     };
 
     // Check if user with this Telegram ID already exists
-    if (registrationData.telegramData?.id) {
-      const existingUser = await Registration.findOne({ 'telegramData.id': registrationData.telegramData.id });
-      if (existingUser) {
-        res.status(400).json({
-          success: false,
-          error: 'You are already registered with this Telegram account'
-        });
-        return;
-      }
+    const existingUser = await Registration.findOne({ 'telegramData.id': telegramUser.id });
+    if (existingUser) {
+      res.status(400).json({
+        success: false,
+        error: 'You are already registered with this Telegram account'
+      });
+      return;
     }
     
     const registration = new Registration(registrationData);
@@ -28,7 +47,8 @@ export const registerUser = async (req: Request, res: Response): Promise<void> =
     
     res.status(201).json({
       success: true,
-      data: registration
+      data: registration,
+      ...telegramAuthService.issueUserToken(registration)
     });
   } catch (error: unknown) {
     if (error instanceof MongooseError.ValidationError) {
@@ -258,9 +278,54 @@ export const getUsers = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * @desc Exchange verified Mini App initData for a short-lived user token
+ * @route POST /api/users/telegram/session
+ */
+export const createTelegramSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await Registration.findOne({ 'telegramData.id': req.telegramUser!.id });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        registered: false
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: user,
+      ...telegramAuthService.issueUserToken(user)
+    });
+  } catch (error) {
+    console.error('Create Telegram session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error'
+    });
+  }
+};
+
+/**
+ * @desc Get a user and their event registrations by Telegram ID; users may only look up themselves
+ * @route GET /api/users/telegram/:id
+ */
 export const getUserByTelegramId = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
+
+    const requester = req.user as any;
+    if (!isAdmin(requester) && requester?.telegramData?.id !== Number(id)) {
+      res.status(403).json({
+        success: false,
+        error: 'You can only view your own profile'
+      });
+      return;
+    }
+
     const user = await Registration.findOne({ 'telegramData.id': Number(id) });
 
     if (!user) {
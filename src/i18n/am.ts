@@ -0,0 +1,362 @@
+import { MessageKey } from './en';
+
+// Amharic message catalog. Every English key must have a translation here.
+export const am: Record<MessageKey, string> = {
+  // Shared
+  'common.registerFirst': '❌ እባክዎ መጀመሪያ ይመዝገቡ። ለመያዝ እና ለመመዝገብ /adventures ይጻፉ።',
+  'common.userNotFound': '❌ ተጠቃሚው አልተገኘም። እባክዎ መጀመሪያ ይመዝገቡ።',
+  'common.openWebApp': '🌐 ድረ-መተግበሪያውን ይክፈቱ',
+  'common.tapToOpenWebApp': 'ድረ-መተግበሪያውን ለመክፈት ከታች ያለውን ቁልፍ ይጫኑ።',
+  'common.location': '📍 <b>ቦታ:</b> {location}',
+  'common.time': '🕒 <b>ሰዓት:</b> {time}',
+  'common.notAvailable': 'የለም',
+  'common.tba': 'ወደፊት ይገለጻል',
+  'common.event': 'ዝግጅት',
+  'common.error': '❌ {message}',
+
+  // Commands
+  'command.cancelled': '👍 ተሰርዟል። ምን ማድረግ እንደምችል ለማየት /help ይጻፉ።',
+  'command.unknown': '❌ ያልታወቀ ትዕዛዝ። ያሉትን ትዕዛዞች ለማየት /help ይጻፉ።',
+
+  'start.welcome': '🌟 <b>ወደ ሪቡት አድቬንቸርስ እንኳን ደህና መጡ</b> 🌟\n\n' +
+    'ወደ ደስታ እና ተፈጥሮ ዓለም ይግቡ! 🌿🏇\n\n' +
+    'እንዲያርፉ እና እንዲታደሱ የተዘጋጁ ምርጥ የፈረስ ግልቢያ እና የማህበረሰብ ጉዞዎችን እናዘጋጃለን።\n\n' +
+    '👇 <b>ጉዞዎን ከታች ይጀምሩ:</b>',
+  'start.launch': '🚀 ይጀምሩ',
+
+  'help.message': '🤖 <b>የሪቡት ቦት ትዕዛዞች</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    '🚀 <b>/start</b>\nቦቱን ይጀምሩ እና መተግበሪያውን ይክፈቱ\n\n' +
+    '🏔️ <b>/adventures</b>\nመጪ ጉዞዎቻችንን ይመልከቱ እና ይያዙ\n\n' +
+    '🎟️ <b>/mybookings</b>\nየያዟቸውን ዝግጅቶች ይመልከቱ\n\n' +
+    '🧾 <b>/myinvoices</b>\nክፍያዎችዎን ይከታተሉ\n\n' +
+    '📸 <b>/gallery</b>\nካለፉ ጉዞዎች ፎቶዎችን ይመልከቱ\n\n' +
+    '👤 <b>/profile</b>\nመረጃዎን ይመልከቱ እና ያስተካክሉ\n\n' +
+    '🌐 <b>/language</b>\nየቦቱን ቋንቋ ይቀይሩ\n\n' +
+    '🔔 <b>/settings</b>\nየሚደርስዎትን ማሳወቂያ ይምረጡ\n\n' +
+    '🔕 <b>/stop</b>\nሁሉንም ማሳወቂያዎች ያቁሙ\n\n' +
+    '🤝 <b>/referrals</b>\nጓደኞችዎን ይጋብዙ እና ክሬዲት ያግኙ\n\n' +
+    '💬 <b>/support</b>\nያግኙን\n\n' +
+    '✖️ <b>/cancel</b>\nየጀመሩትን ያቁሙ (ለምሳሌ ምዝገባ)\n\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n' +
+    '<i>ለመቀጠል ትዕዛዝ ይምረጡ</i>',
+
+  'support.opened': '💬 <b>እርዳታ ይፈልጋሉ?</b>\n\n' +
+    'ቡድናችን በቦታ ማስያዝ፣ በክፍያ ወይም በማንኛውም ጥያቄ ሊረዳዎ ዝግጁ ነው። ጥያቄዎን እዚህ ይላኩ፤ በዚሁ ውይይት እንመልስልዎታለን።\n\n' +
+    '🕒 <b>የስራ ሰዓት:</b> 3:00 - 12:00\n\n' +
+    'ሲጨርሱ /cancel ይጻፉ።',
+  'support.sent': '✅ ለቡድናችን ተልኳል። እዚሁ እንመልስልዎታለን።',
+  'support.reply': '💬 <b>የሪቡት ቡድን:</b>\n\n{message}',
+  'support.closed': '✅ ቡድናችን ጥያቄዎ እንደተፈታ ምልክት አድርጓል። እንደገና እርዳታ ሲፈልጉ በማንኛውም ጊዜ /support ይላኩ።',
+
+  'gallery.message': '📸 <b>የማህበረሰብ ፎቶዎች</b>\n\n' +
+    'ትዝታውን ይኑሩት! ✨ የማህበረሰባችንን ፈገግታዎች፣ መንገዶች እና የማይረሱ ጊዜያት ይመልከቱ።\n\n' +
+    '👇 <b>ስብስቡን ይመልከቱ:</b>',
+  'gallery.open': '🌄 ፎቶዎቹን ይክፈቱ',
+
+  'language.prompt': '🌐 <b>ቋንቋ ይምረጡ</b>',
+  'language.changed': '✅ ቋንቋው ወደ አማርኛ ተቀይሯል።',
+
+  // Notification preferences
+  'settings.title': '🔔 <b>የማሳወቂያ ቅንብሮች</b>\n\nለማብራት ወይም ለማጥፋት አንድ ምድብ ይንኩ።',
+  'settings.paused': '🔕 <b>ማሳወቂያዎች ቆመዋል</b>\n\nመልሰው እስኪያበሩዋቸው ድረስ ማስታወቂያዎች ወይም አስታዋሾች አይደርስዎትም።',
+  'settings.events': 'አዳዲስ ጉዞዎች',
+  'settings.reminders': 'የዝግጅት አስታዋሾች',
+  'settings.payments': 'የክፍያ አስታዋሾች',
+  'settings.gallery': 'የፎቶ ማዕከል ድምቀቶች',
+  'settings.pauseAll': '🔕 ሁሉንም ማሳወቂያዎች ያቁሙ',
+  'settings.resumeAll': '🔔 ማሳወቂያዎችን መልሰው ያብሩ',
+  'stop.done': '🔕 ደንበኝነትዎ ተሰርዟል፤ ከእንግዲህ ማስታወቂያዎች ወይም አስታዋሾች አይደርስዎትም።\n\n' +
+    'የሚደርስዎትን ለመምረጥ /settings፣ ሁሉንም መልሶ ለማብራት /start ይጻፉ።',
+
+  // Events and booking
+  'adventures.none': '📭 <b>መጪ ጉዞዎች የሉም</b>\n\nለአዳዲስ ጉዞዎች በቅርቡ ይመለሱ! 🔄',
+  'adventures.title': '🏔️ <b>መጪ ጉዞዎች</b>',
+  'adventures.defaultDescription': 'ለአስደሳች ጊዜ ይቀላቀሉን!',
+  'adventures.tapForDetails': '👇 <b>ዝርዝሩን ለማየት እና ለመያዝ ጉዞ ይምረጡ</b>',
+  'adventures.previous': '⬅️ ቀዳሚ',
+  'adventures.next': 'ቀጣይ ➡️',
+
+  'event.unavailable': '❌ ይህ ጉዞ ከአሁን በኋላ አይገኝም። መጪ ጉዞዎችን ለማየት /adventures ይጻፉ።',
+  'event.loadFailed': '❌ ጉዞውን መጫን አልተቻለም።',
+  'event.date': '📅 <b>ቀን:</b> {date}',
+  'event.location': '🗺️ <b>ቦታ:</b> {location}',
+  'event.meetingPoint': '📍 <b>መገናኛ ቦታ:</b> {meetingPoint}',
+  'event.price': '💰 <b>ዋጋ:</b> {price} ብር',
+  'event.tickets': '💰 <b>ትኬቶች:</b>',
+  'event.seatsLeft': '🪑 <b>የቀሩ ቦታዎች:</b> ከ{capacity} {remaining}',
+  'event.full': '🪑 <b>ሙሉ ነው</b> - የተጠባባቂ ዝርዝሩን መቀላቀል ይችላሉ',
+  'event.tierLeft': '{count} ቀርተዋል',
+  'event.tierWaitlist': 'ተጠባባቂ',
+  'event.book': '🎫 ይያዙ',
+  'event.bookTier': '🎫 {tier} ይያዙ ({price} ብር)',
+  'event.waitlistTier': '📝 {tier} ተጠባባቂ ({price} ብር)',
+  'event.joinWaitlist': '📝 ተጠባባቂ ዝርዝሩን ይቀላቀሉ',
+  'event.allAdventures': '⬅️ ሁሉም ጉዞዎች',
+
+  'register.intro': '📝 <b>እንመዝግብዎ!</b>\n\nጥቂት ፈጣን ጥያቄዎችን እጠይቅዎታለሁ። በማንኛውም ጊዜ ለማቆም /cancel ይጻፉ።',
+  'register.step': '<i>ደረጃ {step} ከ{total}</i>',
+  'register.fullName': '👤 <b>ሙሉ ስምዎ</b> ማን ነው?',
+  'register.email': '📧 <b>የኢሜይል አድራሻዎ</b> ምንድን ነው?',
+  'register.phoneNumber': '📱 <b>ስልክ ቁጥርዎ</b> ምንድን ነው? (ለምሳሌ 0912345678)',
+  'register.age': '🎂 <b>ዕድሜዎ</b> ስንት ነው?',
+  'register.weight': '⚖️ <b>ክብደትዎ</b> በኪሎግራም ስንት ነው?',
+  'register.height': '📏 <b>ቁመትዎ</b> በሴንቲሜትር ስንት ነው?',
+  'register.horseRidingExperience': '🐴 ምን ያህል <b>የፈረስ ግልቢያ ልምድ</b> አለዎት?',
+  'register.referralSource': '📣 ስለ እኛ <b>እንዴት ሰሙ</b>?',
+  'register.invalid': '⚠️ {message}\n\nእባክዎ እንደገና ይሞክሩ።',
+  'register.numberRequired': 'እባክዎ ቁጥር ያስገቡ።',
+  'register.emailTaken': '⚠️ ይህ የኢሜይል አድራሻ አስቀድሞ ተመዝግቧል። እባክዎ ሌላ ይጠቀሙ።',
+  'register.phoneTaken': '⚠️ ይህ ስልክ ቁጥር አስቀድሞ ተመዝግቧል። እባክዎ ሌላ ይጠቀሙ።',
+  'register.welcome': '✅ <b>እንኳን ደህና መጡ፣ {name}!</b>\n\nተመዝግበዋል። ቦታ ማስያዙን እንጨርስ...',
+  'register.duplicate': '❌ ይህ ኢሜይል፣ ስልክ ቁጥር ወይም የቴሌግራም መለያ አስቀድሞ ተመዝግቧል።',
+  'register.saveFailed': '❌ መልስዎን ማስቀመጥ አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+
+  'experience.beginner': 'ጀማሪ',
+  'experience.intermediate': 'መካከለኛ',
+  'experience.advanced': 'የላቀ',
+
+  'booking.startFailed': '❌ ቦታ ማስያዙን መጀመር አልተቻለም። እባክዎ እንደገና ይሞክሩ።',
+  'booking.waitlisted': '📝 <b>ለ{event} ተጠባባቂ ዝርዝር ውስጥ ገብተዋል</b>\n\nቦታዎ: <b>#{position}</b>። ቦታ እንደተገኘ ደረሰኝ እንልክልዎታለን።',
+  'booking.reserved': '🎉 <b>ለ{event} ቦታ ተይዞልዎታል!</b>\n\nቦታ ማስያዝዎን ለማረጋገጥ ከታች ክፍያዎን ያጠናቅቁ።',
+  'booking.failed': '❌ ቦታ ማስያዙን ማጠናቀቅ አልተቻለም። እባክዎ እንደገና ይሞክሩ ወይም /support ያግኙ።',
+
+  'bookings.none': '📅 <b>እስካሁን ምንም አልያዙም</b>\n\nእስካሁን ምንም ጉዞ አልተቀላቀሉም። መጪ ጉዞዎችን ለማየት /adventures ይጻፉ!',
+  'bookings.title': '🎟️ <b>የያዟቸው ቦታዎች</b>',
+  'bookings.status': 'ሁኔታ: {emoji} <b>{status}</b>{position}',
+  'bookings.cancelButton': '❌ {event} ይሰርዙ',
+
+  'status.registered': 'ተመዝግቧል',
+  'status.payment_initiated': 'ክፍያ ተጀምሯል',
+  'status.confirmed': 'ተረጋግጧል',
+  'status.cancelled': 'ተሰርዟል',
+  'status.waitlisted': 'በተጠባባቂ',
+
+  'profile.notFound': '❌ መረጃዎ አልተገኘም።',
+  'profile.message': '👤 <b>የጀብደኛ መረጃ</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    '<b>ስም:</b> {name}\n' +
+    '<b>ስልክ:</b> {phone}\n' +
+    '<b>ደረጃ:</b> {level}\n' +
+    '<b>ዕድሜ:</b> {age}\n\n' +
+    '━━━━━━━━━━━━━━━━━━━━',
+  'profile.edit': '✏️ መረጃ ያስተካክሉ',
+
+  // Cancellations
+  'cancel.notFound': '❌ የተያዘው ቦታ አልተገኘም ወይም አስቀድሞ ተሰርዟል።',
+  'cancel.refund': '💰 <b>ተመላሽ:</b> {amount} ብር (ከ{paid} ብር {percentage}%)',
+  'cancel.refundNothing': '💰 <b>ተመላሽ:</b> ለዚህ ቦታ እስካሁን ምንም አልተከፈለም',
+  'cancel.title': '⚠️ <b>ቦታውን ይሰርዙ?</b>',
+  'cancel.warning': '<i>ቦታዎ ይለቀቃል እና ትኬትዎ አይሰራም።</i>',
+  'cancel.confirm': '✅ አዎ፣ ይሰረዝ',
+  'cancel.loadFailed': '❌ የተያዘውን ቦታ መጫን አልተቻለም።',
+  'cancel.bookingNotFound': '❌ የተያዘው ቦታ አልተገኘም።',
+  'cancel.done': '✅ <b>ቦታው ተሰርዟል</b>',
+  'cancel.refundCredit': 'የ<b>{amount} ብር</b> ተመላሽዎ ወደ ቀሪ ሂሳብዎ ተጨምሯል።',
+  'cancel.refundPayout': 'የ<b>{amount} ብር</b> ተመላሽዎ በቅርቡ በቡድናችን ይላክልዎታል።',
+  'cancel.failed': '❌ ቦታውን መሰረዝ አልተቻለም።',
+
+  // Tickets and memories
+  'ticket.notFound': '❌ የተያዘው ቦታ አልተገኘም ወይም ተሰርዟል።',
+  'ticket.notPaid': '⏳ ትኬትዎ የሚሰጠው ክፍያው ሙሉ በሙሉ ሲጠናቀቅ ነው። ለመክፈል /myinvoices ይጠቀሙ።',
+  'ticket.caption': '🎟️ <b>{event}</b>\n\nይህን QR ኮድ መግቢያ ላይ ያሳዩ።',
+  'ticket.defaultName': 'ትኬትዎ',
+  'ticket.reference': '\n\n🔖 ትኬት: <code>{invoiceId}</code>',
+  'ticket.loadFailed': '❌ ትኬትዎን መጫን አልተቻለም።',
+  'ticket.showButton': '🎟️ ትኬቴን አሳይ',
+
+  'memory.registerFirst': '❌ ትዝታዎችን ለመላክ እባክዎ መጀመሪያ ይመዝገቡ።',
+  'memory.notAttended': '📸 ያማረ ፎቶ ነው! ከጉዞዎቻችን በአንዱ ከተሳተፉ በኋላ ትዝታዎችዎን እዚህ ልከው በድረ-ገጻችን ላይ ማውጣት ይችላሉ!',
+  'memory.chooseEvent': '📸 <b>ይህ ፎቶ ከየትኛው ጉዞ ነው?</b>',
+  'memory.useButtons': '👆 እባክዎ ፎቶው የተነሳበትን ጉዞ ከላይ ካሉት ቁልፎች ይምረጡ።',
+  'memory.timedOut': '⌛ የጥያቄው ጊዜ አልፏል። እባክዎ ፎቶዎን እንደገና ይላኩ።',
+  'memory.onlyAttended': '❌ ትዝታ ማጋራት የሚችሉት ከተሳተፉባቸው ጉዞዎች ብቻ ነው።',
+  'memory.failed': '❌ ፎቶዎን በማስኬድ ላይ ስህተት ተፈጥሯል። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+  'memory.captured': '🖼️ <b>ትዝታው ተቀምጧል!</b>\n\nከ<b>{event}</b> የላኩትን ፎቶ ለግምገማ ለቡድናችን ልኬዋለሁ። ከጸደቀ በጉዞ ፎቶዎቻችን ውስጥ ይካተታል! ✨',
+
+  // Invoices and payments
+  'invoices.none': '📭 <b>ምንም ደረሰኝ አልተገኘም</b>\n\nያልተከፈለም ሆነ ያለፈ ደረሰኝ የለዎትም።',
+  'invoice.notFound': '❌ ደረሰኙ አልተገኘም።',
+  'invoice.alreadyPaid': '✅ ይህ ደረሰኝ አስቀድሞ ተከፍሏል።',
+  'invoice.notPayable': '❌ ይህ ደረሰኝ ከአሁን በኋላ መክፈል አይቻልም።',
+  'invoice.title': '🧾 <b>ደረሰኝ #{invoiceId}</b> {emoji}',
+  'invoice.event': '📍 <b>ዝግጅት:</b> {event}',
+  'invoice.amount': '💰 <b>መጠን:</b> {amount} ብር',
+  'invoice.paid': '💵 <b>የተከፈለ:</b> {amount} ብር',
+  'invoice.location': '🗺️ <b>ቦታ:</b> {location}',
+  'invoice.date': '📅 <b>ቀን:</b> {date}',
+  'invoice.status': '<b>ሁኔታ:</b> {status}',
+  'invoice.payBy': '⌛ <b>የመክፈያ የመጨረሻ ቀን:</b> {date}',
+  'invoice.payNow': '💳 አሁን ይክፈሉ',
+  'invoice.statusPaid': '{date} ተከፍሏል',
+  'invoice.statusPartial': 'በከፊል ተከፍሏል ({amount} ብር ቀሪ)',
+  'invoice.statusRefunded': 'ተመላሽ ተደርጓል ({amount} ብር)',
+  'invoice.statusExpired': 'ጊዜው አልፏል',
+  'invoice.statusCancelled': 'ተሰርዟል',
+  'invoice.statusPending': 'ክፍያ በመጠባበቅ ላይ',
+
+  'payment.methodFailed': '❌ የመክፈያ ዘዴ ምርጫውን ማስኬድ አልተቻለም።',
+  'payment.verifying': '🔄 <b>የ{method} ግብይት በማረጋገጥ ላይ...</b>\n\nክፍያዎን እስክናረጋግጥ እባክዎ ይጠብቁ።',
+  'payment.verifyError': '❌ ክፍያዎን በማረጋገጥ ላይ ስህተት ተፈጥሯል። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+  'payment.verified': '✅ <b>ክፍያው ተረጋግጧል!</b>\n\n{message}\n\nቦታ ማስያዝዎ ተረጋግጧል።',
+  'payment.verificationFailed': '❌ <b>ማረጋገጥ አልተቻለም</b>\n\n{message}\n\nእባክዎ የግብይት መለያ ቁጥርዎን አረጋግጠው እንደገና ይሞክሩ።',
+  'payment.selection': '💰 <b>ለ{event} ክፍያ</b>\n\nመጠን: <b>{amount} ብር</b>\n\nእባክዎ የመክፈያ ዘዴ ይምረጡ:',
+  'payment.unsupportedMethod': '❌ የማይደገፍ የመክፈያ ዘዴ።',
+  'payment.instructions': '🏦 <b>የ{bank} የክፍያ መመሪያ</b>\n\n' +
+    '💰 ለ<b>{event}</b> ክፍያ\n\n' +
+    'መጠን: <b>{amount} ብር</b>\n\n' +
+    'እባክዎ ወደዚህ ያስተላልፉ:\n<b>{account}</b>\n\n' +
+    '⚠️ <b>አስፈላጊ:</b>\n' +
+    '- ዝውውሩ <b>መጀመር ያለበት</b> ከ<b>{bank}</b> ብቻ ነው ({provider} ➡️ {provider})።\n' +
+    '- ከከፈሉ በኋላ <b>የግብይት መለያ ቁጥርዎን</b> እዚህ ይላኩ።\n' +
+    '<i>ደረሰኝ: {invoiceId}</i>',
+  'payment.instructionsPlaceholder': 'የ{bank} የግብይት መለያ ቁጥር ያስገቡ...',
+  'payment.success': '✅ <b>ክፍያው ተረጋግጧል!</b>\n\n' +
+    'ለ<b>{event}</b> ቦታዎ ተረጋግጧል።\n' +
+    'የትኬትዎ QR ኮድ ይኸውና። እባክዎ መግቢያ ላይ ያሳዩት።\n\n' +
+    'እዚያ እንገናኝ! 🚀',
+  'payment.partial': '💳 <b>ከፊል ክፍያ ደርሷል</b>\n\n' +
+    'ለ<b>{event}</b> ከ{amount} ብር {paid} ብር ደርሶናል።\n\n' +
+    'ቦታ ማስያዝዎን ለማጠናቀቅ እባክዎ ቀሪውን <b>{outstanding} ብር</b> ከፍለው አዲሱን የግብይት መለያ ቁጥር ይላኩ።',
+  'payment.yourEvent': 'ዝግጅትዎ',
+  'payment.reminder': '💳 <b>የክፍያ ማስታወሻ: {event}</b>',
+  'payment.finalReminder': '⚠️ <b>የመጨረሻ ማስታወሻ: {event}</b>',
+  'payment.amountDue': 'የሚከፈል መጠን: <b>{amount} {currency}</b>',
+  'payment.payBy': 'ቦታዎን ለማቆየት እባክዎ እስከ <b>{deadline}</b> ይክፈሉ።',
+  'payment.finalPayBy': 'እስከ <b>{deadline}</b> ክፍያ ካልደረሰን ቦታዎ ይለቀቃል።',
+  'payment.payToKeep': 'ቦታዎን ለማቆየት እባክዎ ክፍያዎን ያጠናቅቁ።',
+  'payment.payNow': '💳 አሁን ይክፈሉ',
+
+  'expiry.notice': '⌛ <b>የደረሰኙ ጊዜ አልፏል</b>\n\nለ<b>{event}</b> ክፍያ በጊዜ ስላልደረሰን ደረሰኝ {invoiceId} ተሰርዟል።',
+  'expiry.released': 'ቦታዎ ለሌላ ሰው ተለቋል።',
+  'expiry.credited': 'የከፈሉት {amount} {currency} ወደ ቀሪ ሂሳብዎ ተጨምሯል።',
+  'expiry.bookAgain': 'እንደገና ለመያዝ /adventures ይጠቀሙ።',
+
+  'waitlist.promoted': '🎉 <b>ቦታ ተገኝቷል!</b>\n\nለ<b>{event}</b> ከተጠባባቂ ዝርዝሩ ወጥተዋል። ቦታዎን ለማረጋገጥ እባክዎ ክፍያዎን ያጠናቅቁ።',
+
+  // Referrals
+  'referrals.title': '🤝 <b>ጓደኞችዎን ይጋብዙ</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    'ኮድዎን ያጋሩ፤ የጋበዙት ጓደኛ ለመጀመሪያ ጉዞው ሲከፍል <b>{reward} ብር</b> ክሬዲት ያገኛሉ። ክሬዲቱ ከሚቀጥለው ደረሰኝዎ ላይ በራሱ ይቀነሳል።\n\n' +
+    '🔖 <b>ኮድዎ:</b> <code>{code}</code>\n' +
+    '🔗 {link}',
+  'referrals.stats': '👥 <b>የተቀላቀሉ ጓደኞች:</b> {joined}\n' +
+    '✅ <b>የያዙ ጓደኞች:</b> {rewarded}\n' +
+    '💰 <b>ያገኙት ክሬዲት:</b> {earned} ብር\n' +
+    '👛 <b>ቀሪ ሂሳብ:</b> {balance} ብር',
+  'referrals.friends': '<b>ጓደኞችዎ:</b>',
+  'referrals.noFriends': '<i>እስካሁን በኮድዎ የተቀላቀለ የለም።</i>',
+  'referrals.share': '📤 ለጓደኞች ያጋሩ',
+  'referrals.shareText': 'ለፈረስ ግልቢያ እና የማህበረሰብ ጉዞዎች ሪቡት አድቬንቸርስን ከእኔ ጋር ይቀላቀሉ! 🐴',
+  'referrals.rewarded': '🎉 <b>{amount} ብር ክሬዲት አግኝተዋል!</b>\n\n{name} በኮድዎ ተቀላቅሎ ለመጀመሪያ ጉዞው ከፍሏል። ክሬዲቱን ከሚቀጥለው ደረሰኝዎ ላይ እንቀንሳለን።',
+  'referrals.aFriend': 'የጋበዙት ጓደኛ',
+  'referrals.failed': '❌ የግብዣ መረጃዎን መጫን አልተቻለም። እባክዎ ቆይተው እንደገና ይሞክሩ።',
+
+  // Announcements and reminders
+  'announcement.newEvent': '🐴 <b>አዲስ ዝግጅት እየመጣ ነው!</b>\n\n📍 <b>{event}</b>\n{description}\nዝርዝሩን ለማየት እና ለመመዝገብ ከታች ያለውን ቁልፍ ይጫኑ።',
+  'reminder.default': '⏰ <b>ማስታወሻ: {event}</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    'ሰላም {name}፣ ጉዞዎ እየቀረበ ነው!\n\n' +
+    '📅 <b>ሰዓት:</b> {time}\n' +
+    '📍 <b>መገናኛ ቦታ:</b> {meetingPoint}\n\n' +
+    'መግቢያ ላይ ትኬትዎን ለማሳየት ከታች ይጫኑ።',
+  'reminder.defaultName': 'ወዳጃችን',
+
+  // Staff commands, for admins who linked their Telegram account
+  'link.usage': '🔗 ከአስተዳዳሪ መገለጫዎ ያገኙትን ኮድ ከ/link ቀጥሎ ይላኩ፤ ለምሳሌ <code>/link 9F3A61C2</code>',
+  'link.done': '✅ ከ<b>{name}</b> የአስተዳዳሪ መለያ ጋር ተገናኝቷል። የሰራተኛ ትዕዛዞችን ለማየት /admin ይጻፉ።',
+  'link.failed': '❌ ኮዱ ትክክል አይደለም ወይም ጊዜው አልፎበታል። ከአስተዳዳሪ መገለጫዎ አዲስ ኮድ ይፍጠሩ።',
+  'admin.help': '🛠️ <b>የሰራተኛ ትዕዛዞች</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    '📊 <b>/stats</b>\nየዛሬ ቁጥሮች እና አጠቃላይ ድምሮች\n\n' +
+    '👥 <b>/attendees</b>\nወደ ዝግጅቱ የሚመጡ እና የገቡ ተሳታፊዎች\n\n' +
+    '🎟️ <b>/checkin</b> <i>የትኬት ሊንክ ወይም የደረሰኝ መለያ</i>\nትኬት ያስገቡ። የትኬት ሊንክ መለጠፍ ወይም ቦቱ የላከውን ትኬት ማስተላለፍም ይችላሉ።',
+  'admin.helpManager': '\n\n💳 <b>/confirmpayment</b> <i>የደረሰኝ መለያ [ማጣቀሻ]</i>\nደረሰኝ እንደተከፈለ ይመዝግቡ፤ ለምሳሌ በጥሬ ገንዘብ ሲከፈል\n\n' +
+    '📸 <b>/memories</b>\nወደ ማዕከለ-ስዕላቱ የሚጠብቁ ፎቶዎችን ይፍቀዱ ወይም ይከልክሉ',
+  'admin.notAllowed': '⛔ የአስተዳዳሪ ሚናዎ ይህን ማድረግ አይፈቅድም።',
+  'admin.stats': '📊 <b>ዛሬ</b>\n' +
+    '👤 አዲስ ተጠቃሚዎች: {newUsers}\n' +
+    '🎟️ ቦታ ማስያዣዎች: {bookings}\n' +
+    '💳 ክፍያዎች: {payments} ({revenue} ብር)\n' +
+    '✅ የገቡ: {checkIns}\n\n' +
+    '📈 <b>በአጠቃላይ</b>\n' +
+    '👥 ተጠቃሚዎች: {totalUsers}\n' +
+    '🏇 ንቁ ዝግጅቶች: {activeEvents}\n' +
+    '💰 ገቢ: {totalRevenue} ብር ({totalRefunds} ብር ተመላሽ ከተደረገ በኋላ)\n' +
+    '🧾 ያልተከፈሉ ደረሰኞች: {pendingInvoices}',
+  'admin.noEvents': '📭 ንቁ ዝግጅቶች የሉም።',
+  'admin.chooseEvent': '👥 <b>የትኛው ዝግጅት?</b>',
+  'admin.attendeesTitle': '👥 <b>{event}</b>\nከ{total} {checkedIn} ገብተዋል\n',
+  'admin.noAttendees': '📭 ለ<b>{event}</b> እስካሁን የተረጋገጠ ቦታ የያዘ የለም።',
+  'admin.attendeesMore': '\n…እና ሌሎች {count}',
+  'admin.checkinUsage': '🎟️ የትኬት ሊንኩን ወይም የደረሰኝ መለያውን ከ/checkin ቀጥሎ ይላኩ፤ ወይም ቦቱ የላከውን የትኬት መልዕክት ያስተላልፉ።',
+  'admin.ticketInvalid': '❌ ይህ ትኬት መጠቀም አይቻልም: {message}',
+  'admin.checkin.checked_in': '✅ <b>ገብተዋል</b>\n\n👤 {name}\n🎟️ {event}',
+  'admin.checkin.already_checked_in': '⚠️ <b>ቀደም ብለው ገብተዋል</b> ({time})\n\n👤 {name}\n🎟️ {event}',
+  'admin.checkin.expired': '⌛ <b>የትኬቱ ጊዜ አልፏል</b>\n\n👤 {name}\n🎟️ {event}',
+  'admin.checkin.not_paid': '❌ ለዚህ ደረሰኝ የተከፈለ ትኬት የለም።',
+  'admin.checkin.event_not_found': '❌ ይህ ደረሰኝ ለዝግጅት አይደለም።',
+  'admin.checkin.registration_not_found': '❌ ከዚህ ትኬት ጀርባ ቦታ ማስያዝ የለም።',
+  'admin.unknownAttendee': 'ያልታወቀ ተሳታፊ',
+  'admin.confirmUsage': '💳 የደረሰኝ መለያውን እና ከፈለጉ የክፍያ ማጣቀሻውን (ፊደሎች፣ ቁጥሮች እና ሰረዞች) ከ/confirmpayment ቀጥሎ ይላኩ።',
+  'admin.invoiceNotFound': '❌ ደረሰኝ {invoiceId} አልተገኘም።',
+  'admin.invoiceNotPending': '⚠️ ደረሰኝ {invoiceId} አስቀድሞ {status} ነው።',
+  'admin.confirmPrompt': '💳 <b>ይህን ክፍያ ያረጋግጣሉ?</b>\n\n' +
+    '🧾 {invoiceId}\n' +
+    '👤 {name}\n' +
+    '🎟️ {event}\n' +
+    '💰 ከ{amount} ብር {balance} ብር ቀሪ\n' +
+    '🔖 ማጣቀሻ: {reference}',
+  'admin.manualReference': 'የለም፤ በራስ-ሰር ይፈጠራል',
+  'admin.confirmButton': '✅ ክፍያውን ያረጋግጡ',
+  'admin.paymentConfirmed': '✅ {amount} ብር በ{invoiceId} ላይ ተመዝግቧል። ደረሰኙ ተከፍሏል፤ ትኬቱም ለተሳታፊው ተልኳል።',
+  'admin.referenceUsed': '❌ ይህ የክፍያ ማጣቀሻ ለሌላ ክፍያ ጥቅም ላይ ውሏል።',
+  'admin.noPendingMemories': '📭 ግምገማ የሚጠብቁ ትዝታዎች የሉም።',
+  'admin.memoryCaption': '📸 <b>{event}</b>\n👤 {name}\n\n{caption}',
+  'admin.memoriesMore': '📸 ሌሎች {count} ይጠብቃሉ። እነዚህን ከገመገሙ በኋላ /memories እንደገና ይላኩ።',
+  'admin.approve': '✅ ይፍቀዱ',
+  'admin.reject': '🗑️ ይከልክሉ',
+  'admin.memoryApproved': '✅ ተፈቅዷል። አሁን በማዕከለ-ስዕላቱ ውስጥ ነው።',
+  'admin.memoryRejected': '🗑️ ተከልክሎ ተሰርዟል።',
+  'admin.memoryNotFound': '❌ ይህ ትዝታ አስቀድሞ ተገምግሟል።',
+  'admin.failed': '❌ ችግር ተፈጥሯል: {message}',
+
+  // Ticket web pages
+  'page.ticketTitle': 'ትኬት - {event}',
+  'page.verified': 'የተረጋገጠ ትኬት',
+  'page.ticketId': 'የትኬት መለያ:',
+  'page.eventDate': 'የዝግጅቱ ቀን:',
+  'page.location': 'ቦታ:',
+  'page.tier': 'የትኬት ደረጃ:',
+  'page.attendee': 'ተሳታፊ:',
+  'page.email': 'ኢሜይል:',
+  'page.amountPaid': 'የተከፈለ መጠን:',
+  'page.paidBy': 'የከፈለው:',
+  'page.paidDate': 'የተከፈለበት ቀን:',
+  'page.organizer': 'ዝግጅቱ የተዘጋጀው በሪቡት አድቬንቸርስ ነው',
+  'page.presentTicket': 'እባክዎ ይህን ዲጂታል ትኬት እና የሚሰራ መታወቂያ በዝግጅቱ መግቢያ ላይ ያሳዩ።',
+  'page.errorTitle': 'ስህተት - የትኬት ማረጋገጫ',
+  'page.code': 'ኮድ:',
+  'page.home': 'ወደ መነሻ ይመለሱ',
+  'page.verifyFailed': 'ማረጋገጥ አልተቻለም',
+  'page.verifyFailedMessage': 'ይህን ትኬት አሁን ማረጋገጥ አልቻልንም።',
+  'page.invalidTicket': 'ልክ ያልሆነ ትኬት',
+  'page.invalidTicketMessage': 'ይህ ትኬት ልክ ያልሆነ ወይም የተነካካ ይመስላል።',
+  'page.ticketExpired': 'የትኬቱ ጊዜ አልፏል',
+  'page.ticketExpiredMessage': 'የዚህ ትኬት ጊዜ አልፏል እና ከአሁን በኋላ አይሰራም።',
+  'page.ticketCancelled': 'ትኬቱ ተሰርዟል',
+  'page.ticketCancelledMessage': 'ይህ ቦታ ተሰርዟል እና ትኬቱ ከአሁን በኋላ አይሰራም።',
+  'page.ticketNotFound': 'ትኬቱ አልተገኘም',
+  'page.ticketNotFoundMessage': 'ከዚህ መለያ ጋር የሚዛመድ ንቁ ትኬት አላገኘንም።',
+
+  // Invoice PDF export
+  'pdf.invoicesTitle': 'የፋይናንስ ሪፖርት - ደረሰኞች',
+  'pdf.invoiceId': 'የደረሰኝ መለያ',
+  'pdf.user': 'ተጠቃሚ',
+  'pdf.event': 'ዝግጅት',
+  'pdf.tier': 'ደረጃ',
+  'pdf.amount': 'መጠን',
+  'pdf.status': 'ሁኔታ',
+  'pdf.date': 'ቀን',
+  'pdf.unknownUser': 'ያልታወቀ'
+};
@@ -0,0 +1,363 @@
+// English message catalog. Placeholders in {braces} are filled in by t().
+export const en = {
+  // Shared
+  'common.registerFirst': '❌ Please register first. Type /adventures to book and register.',
+  'common.userNotFound': '❌ User not found. Please register first.',
+  'common.openWebApp': '🌐 Open Web App',
+  'common.tapToOpenWebApp': 'Tap the button below to open the web app.',
+  'common.location': '📍 <b>Location:</b> {location}',
+  'common.time': '🕒 <b>Time:</b> {time}',
+  'common.notAvailable': 'N/A',
+  'common.tba': 'TBA',
+  'common.event': 'Event',
+  'common.error': '❌ {message}',
+
+  // Commands
+  'command.cancelled': '👍 Cancelled. Type /help to see what I can do.',
+  'command.unknown': '❌ Unknown command. Type /help for available commands.',
+
+  'start.welcome': '🌟 <b>WELCOME TO REBOOT ADVENTURES</b> 🌟\n\n' +
+    'Step into a world of excitement and nature! 🌿🏇\n\n' +
+    'We curate premium horseback riding experiences and community adventures designed to help you disconnect and reboot.\n\n' +
+    '👇 <b>Start your journey below:</b>',
+  'start.launch': '🚀 Launch Experience',
+
+  'help.message': '🤖 <b>REBOOT BOT COMMANDS</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    '🚀 <b>/start</b>\nStart the bot & open the app\n\n' +
+    '🏔️ <b>/adventures</b>\nBrowse and book our upcoming trips\n\n' +
+    '🎟️ <b>/mybookings</b>\nView your scheduled events\n\n' +
+    '🧾 <b>/myinvoices</b>\nTrack your payments\n\n' +
+    '📸 <b>/gallery</b>\nSee photos from past trips\n\n' +
+    '👤 <b>/profile</b>\nView & edit your details\n\n' +
+    '🌐 <b>/language</b>\nChange the bot language\n\n' +
+    '🔔 <b>/settings</b>\nChoose which notifications you get\n\n' +
+    '🔕 <b>/stop</b>\nStop all notifications\n\n' +
+    '🤝 <b>/referrals</b>\nInvite friends and earn credit\n\n' +
+    '💬 <b>/support</b>\nGet in touch with us\n\n' +
+    '✖️ <b>/cancel</b>\nStop what you\'re doing (e.g. registration)\n\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n' +
+    '<i>Select a command to proceed</i>',
+
+  'support.opened': '💬 <b>NEED ASSISTANCE?</b>\n\n' +
+    'Our team is ready to help you with bookings, payments, or any inquiries. Send your question here and we\'ll reply in this chat.\n\n' +
+    '🕒 <b>Hours:</b> 9:00 AM - 6:00 PM\n\n' +
+    'Type /cancel when you\'re done.',
+  'support.sent': '✅ Sent to our team. We\'ll reply right here.',
+  'support.reply': '💬 <b>Reboot team:</b>\n\n{message}',
+  'support.closed': '✅ Our team marked your question as resolved. Send /support any time you need help again.',
+
+  'gallery.message': '📸 <b>COMMUNITY GALLERY</b>\n\n' +
+    'Relive the magic! ✨ See the smiles, the trails, and the unforgettable moments from our community.\n\n' +
+    '👇 <b>View the collection:</b>',
+  'gallery.open': '🌄 Open Gallery',
+
+  'language.prompt': '🌐 <b>Choose your language</b>',
+  'language.changed': '✅ Language set to English.',
+
+  // Notification preferences
+  'settings.title': '🔔 <b>Notification settings</b>\n\nTap a category to turn it on or off.',
+  'settings.paused': '🔕 <b>Notifications are paused</b>\n\nYou won\'t get announcements or reminders until you turn them back on.',
+  'settings.events': 'New adventures',
+  'settings.reminders': 'Event reminders',
+  'settings.payments': 'Payment reminders',
+  'settings.gallery': 'Gallery highlights',
+  'settings.pauseAll': '🔕 Pause all notifications',
+  'settings.resumeAll': '🔔 Turn notifications back on',
+  'stop.done': '🔕 You\'ve been unsubscribed and won\'t get announcements or reminders anymore.\n\n' +
+    'Use /settings to choose what you get, or /start to turn everything back on.',
+
+  // Events and booking
+  'adventures.none': '📭 <b>No Upcoming Adventures</b>\n\nCheck back soon for new trips! 🔄',
+  'adventures.title': '🏔️ <b>UPCOMING ADVENTURES</b>',
+  'adventures.defaultDescription': 'Join us for an amazing time!',
+  'adventures.tapForDetails': '👇 <b>Tap an adventure for details and booking</b>',
+  'adventures.previous': '⬅️ Previous',
+  'adventures.next': 'Next ➡️',
+
+  'event.unavailable': '❌ This adventure is no longer available. Type /adventures to see what\'s coming up.',
+  'event.loadFailed': '❌ Failed to load this adventure.',
+  'event.date': '📅 <b>Date:</b> {date}',
+  'event.location': '🗺️ <b>Location:</b> {location}',
+  'event.meetingPoint': '📍 <b>Meeting point:</b> {meetingPoint}',
+  'event.price': '💰 <b>Price:</b> {price} ETB',
+  'event.tickets': '💰 <b>Tickets:</b>',
+  'event.seatsLeft': '🪑 <b>Seats left:</b> {remaining} of {capacity}',
+  'event.full': '🪑 <b>Fully booked</b> - you can join the waitlist',
+  'event.tierLeft': '{count} left',
+  'event.tierWaitlist': 'waitlist',
+  'event.book': '🎫 Book',
+  'event.bookTier': '🎫 Book {tier} ({price} ETB)',
+  'event.waitlistTier': '📝 Waitlist {tier} ({price} ETB)',
+  'event.joinWaitlist': '📝 Join Waitlist',
+  'event.allAdventures': '⬅️ All adventures',
+
+  'register.intro': '📝 <b>Let\'s get you registered!</b>\n\nI\'ll ask a few quick questions. Type /cancel at any time to stop.',
+  'register.step': '<i>Step {step} of {total}</i>',
+  'register.fullName': '👤 What is your <b>full name</b>?',
+  'register.email': '📧 What is your <b>email address</b>?',
+  'register.phoneNumber': '📱 What is your <b>phone number</b>? (e.g. 0912345678)',
+  'register.age': '🎂 How <b>old</b> are you?',
+  'register.weight': '⚖️ What is your <b>weight</b> in kg?',
+  'register.height': '📏 What is your <b>height</b> in cm?',
+  'register.horseRidingExperience': '🐴 How much <b>horse riding experience</b> do you have?',
+  'register.referralSource': '📣 How did you <b>hear about us</b>?',
+  'register.invalid': '⚠️ {message}\n\nPlease try again.',
+  'register.numberRequired': 'Please enter a number.',
+  'register.emailTaken': '⚠️ This email address is already registered. Please use another one.',
+  'register.phoneTaken': '⚠️ This phone number is already registered. Please use another one.',
+  'register.welcome': '✅ <b>Welcome, {name}!</b>\n\nYou\'re registered. Let\'s finish your booking...',
+  'register.duplicate': '❌ This email, phone number or Telegram account is already registered.',
+  'register.saveFailed': '❌ Failed to save your answer. Please try again.',
+
+  'experience.beginner': 'Beginner',
+  'experience.intermediate': 'Intermediate',
+  'experience.advanced': 'Advanced',
+
+  'booking.startFailed': '❌ Failed to start your booking. Please try again.',
+  'booking.waitlisted': '📝 <b>You\'re on the waitlist for {event}</b>\n\nYour position: <b>#{position}</b>. We\'ll message you with an invoice as soon as a spot opens up.',
+  'booking.reserved': '🎉 <b>Spot reserved for {event}!</b>\n\nComplete your payment below to confirm your booking.',
+  'booking.failed': '❌ Failed to complete your booking. Please try again or contact /support.',
+
+  'bookings.none': '📅 <b>No Bookings Yet</b>\n\nYou haven\'t joined any adventures yet. Type /adventures to see what\'s coming up!',
+  'bookings.title': '🎟️ <b>YOUR BOOKINGS</b>',
+  'bookings.status': 'Status: {emoji} <b>{status}</b>{position}',
+  'bookings.cancelButton': '❌ Cancel {event}',
+
+  'status.registered': 'REGISTERED',
+  'status.payment_initiated': 'PAYMENT INITIATED',
+  'status.confirmed': 'CONFIRMED',
+  'status.cancelled': 'CANCELLED',
+  'status.waitlisted': 'WAITLISTED',
+
+  'profile.notFound': '❌ Profile not found.',
+  'profile.message': '👤 <b>ADVENTURER PROFILE</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    '<b>Name:</b> {name}\n' +
+    '<b>Phone:</b> {phone}\n' +
+    '<b>Level:</b> {level}\n' +
+    '<b>Age:</b> {age}\n\n' +
+    '━━━━━━━━━━━━━━━━━━━━',
+  'profile.edit': '✏️ Edit Profile',
+
+  // Cancellations
+  'cancel.notFound': '❌ Booking not found or already cancelled.',
+  'cancel.refund': '💰 <b>Refund:</b> {amount} ETB ({percentage}% of {paid} ETB)',
+  'cancel.refundNothing': '💰 <b>Refund:</b> Nothing has been paid for this booking yet',
+  'cancel.title': '⚠️ <b>CANCEL BOOKING?</b>',
+  'cancel.warning': '<i>Your seat will be released and your ticket will stop working.</i>',
+  'cancel.confirm': '✅ Yes, cancel booking',
+  'cancel.loadFailed': '❌ Failed to load this booking.',
+  'cancel.bookingNotFound': '❌ Booking not found.',
+  'cancel.done': '✅ <b>Booking cancelled</b>',
+  'cancel.refundCredit': 'Your refund of <b>{amount} ETB</b> has been added to your credit balance.',
+  'cancel.refundPayout': 'Your refund of <b>{amount} ETB</b> will be sent to you by our team shortly.',
+  'cancel.failed': '❌ Failed to cancel booking.',
+
+  // Tickets and memories
+  'ticket.notFound': '❌ Booking not found or cancelled.',
+  'ticket.notPaid': '⏳ Your ticket will be issued once the booking is fully paid. Use /myinvoices to pay.',
+  'ticket.caption': '🎟️ <b>{event}</b>\n\nShow this QR code at the entrance.',
+  'ticket.defaultName': 'Your ticket',
+  // Staff check tickets in by forwarding them to the bot, which reads this line
+  'ticket.reference': '\n\n🔖 Ticket: <code>{invoiceId}</code>',
+  'ticket.loadFailed': '❌ Failed to load your ticket.',
+  'ticket.showButton': '🎟️ Show my ticket',
+
+  'memory.registerFirst': '❌ Please register first to upload memories.',
+  'memory.notAttended': '📸 That\'s a great photo! Once you attend one of our adventures, you can share memories here to be featured on our website!',
+  'memory.chooseEvent': '📸 <b>Which adventure is this photo from?</b>',
+  'memory.useButtons': '👆 Please choose the adventure your photo is from using the buttons above.',
+  'memory.timedOut': '⌛ This request has timed out. Please send your photo again.',
+  'memory.onlyAttended': '❌ You can only share memories from adventures you attended.',
+  'memory.failed': '❌ An error occurred while processing your photo. Please try again later.',
+  'memory.captured': '🖼️ <b>Memory Captured!</b>\n\nI\'ve sent your photo from <b>{event}</b> to our team for review. If approved, it will be featured in our trip gallery! ✨',
+
+  // Invoices and payments
+  'invoices.none': '📭 <b>No Invoices Found</b>\n\nYou have no pending or past invoices.',
+  'invoice.notFound': '❌ Invoice not found.',
+  'invoice.alreadyPaid': '✅ This invoice has already been paid.',
+  'invoice.notPayable': '❌ This invoice is no longer payable.',
+  'invoice.title': '🧾 <b>INVOICE #{invoiceId}</b> {emoji}',
+  'invoice.event': '📍 <b>Event:</b> {event}',
+  'invoice.amount': '💰 <b>Amount:</b> {amount} ETB',
+  'invoice.paid': '💵 <b>Paid:</b> {amount} ETB',
+  'invoice.location': '🗺️ <b>Location:</b> {location}',
+  'invoice.date': '📅 <b>Date:</b> {date}',
+  'invoice.status': '<b>Status:</b> {status}',
+  'invoice.payBy': '⌛ <b>Pay by:</b> {date}',
+  'invoice.payNow': '💳 Pay Now',
+  'invoice.statusPaid': 'Paid on {date}',
+  'invoice.statusPartial': 'Partially Paid ({amount} ETB remaining)',
+  'invoice.statusRefunded': 'Refunded ({amount} ETB)',
+  'invoice.statusExpired': 'Expired',
+  'invoice.statusCancelled': 'Cancelled',
+  'invoice.statusPending': 'Pending Payment',
+
+  'payment.methodFailed': '❌ Failed to process payment method selection.',
+  'payment.verifying': '🔄 <b>Verifying {method} transaction...</b>\n\nPlease wait while we confirm your payment.',
+  'payment.verifyError': '❌ An error occurred while verifying your payment. Please try again later.',
+  'payment.verified': '✅ <b>Payment Verified!</b>\n\n{message}\n\nYour booking has been confirmed.',
+  'payment.verificationFailed': '❌ <b>Verification Failed</b>\n\n{message}\n\nPlease check your transaction ID and try again.',
+  'payment.selection': '💰 <b>Payment for {event}</b>\n\nAmount: <b>{amount} ETB</b>\n\nPlease select your preferred payment method:',
+  'payment.unsupportedMethod': '❌ Unsupported payment method.',
+  'payment.instructions': '🏦 <b>{bank} Payment Instructions</b>\n\n' +
+    '💰 Payment for <b>{event}</b>\n\n' +
+    'Amount: <b>{amount} ETB</b>\n\n' +
+    'Please transfer to:\n<b>{account}</b>\n\n' +
+    '⚠️ <b>IMPORTANT:</b>\n' +
+    '- Transfer <b>MUST</b> be initiated from <b>{bank}</b> only ({provider} ➡️ {provider}).\n' +
+    '- After paying, send your <b>Transaction ID</b> here.\n' +
+    '<i>Invoice: {invoiceId}</i>',
+  'payment.instructionsPlaceholder': 'Enter {bank} Transaction ID...',
+  'payment.success': '✅ <b>Payment Verified!</b>\n\n' +
+    'You are confirmed for <b>{event}</b>.\n' +
+    'Here is your ticket QR code. Please show this at the entrance.\n\n' +
+    'See you there! 🚀',
+  'payment.partial': '💳 <b>Partial payment received</b>\n\n' +
+    'We received {paid} ETB of {amount} ETB for <b>{event}</b>.\n\n' +
+    'Please pay the remaining <b>{outstanding} ETB</b> and send the new transaction ID to complete your booking.',
+  'payment.yourEvent': 'your event',
+  'payment.reminder': '💳 <b>Payment reminder: {event}</b>',
+  'payment.finalReminder': '⚠️ <b>FINAL REMINDER: {event}</b>',
+  'payment.amountDue': 'Amount due: <b>{amount} {currency}</b>',
+  'payment.payBy': 'Please pay by <b>{deadline}</b> to keep your spot.',
+  'payment.finalPayBy': 'Your spot will be released if we don\'t receive payment by <b>{deadline}</b>.',
+  'payment.payToKeep': 'Please complete your payment to keep your spot.',
+  'payment.payNow': '💳 Pay now',
+
+  'expiry.notice': '⌛ <b>Invoice expired</b>\n\nWe didn\'t receive payment for <b>{event}</b> in time, so invoice {invoiceId} was cancelled.',
+  'expiry.released': 'Your spot was released to someone else.',
+  'expiry.credited': 'The {amount} {currency} you paid has been added to your credit balance.',
+  'expiry.bookAgain': 'Use /adventures to book again.',
+
+  'waitlist.promoted': '🎉 <b>A spot opened up!</b>\n\nYou\'ve been moved off the waitlist for <b>{event}</b>. Please complete your payment to secure your seat.',
+
+  // Referrals
+  'referrals.title': '🤝 <b>INVITE YOUR FRIENDS</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    'Share your code and earn <b>{reward} ETB</b> credit when a friend you invite pays for their first adventure. Your credit is taken off your next invoice automatically.\n\n' +
+    '🔖 <b>Your code:</b> <code>{code}</code>\n' +
+    '🔗 {link}',
+  'referrals.stats': '👥 <b>Friends joined:</b> {joined}\n' +
+    '✅ <b>Friends who booked:</b> {rewarded}\n' +
+    '💰 <b>Credit earned:</b> {earned} ETB\n' +
+    '👛 <b>Credit balance:</b> {balance} ETB',
+  'referrals.friends': '<b>Your friends:</b>',
+  'referrals.noFriends': '<i>No one has joined with your code yet.</i>',
+  'referrals.share': '📤 Share with friends',
+  'referrals.shareText': 'Join me on Reboot Adventures for horseback riding trips and community adventures! 🐴',
+  'referrals.rewarded': '🎉 <b>You earned {amount} ETB credit!</b>\n\n{name} joined with your referral code and just paid for their first adventure. We\'ll take the credit off your next invoice.',
+  'referrals.aFriend': 'A friend you invited',
+  'referrals.failed': '❌ Could not load your referrals. Please try again later.',
+
+  // Announcements and reminders
+  'announcement.newEvent': '🐴 <b>New Event Coming Up!</b>\n\n📍 <b>{event}</b>\n{description}\nTap the button below to view details and sign up.',
+  'reminder.default': '⏰ <b>REMINDER: {event}</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    'Hi {name}, your adventure is coming up!\n\n' +
+    '📅 <b>Time:</b> {time}\n' +
+    '📍 <b>Meeting point:</b> {meetingPoint}\n\n' +
+    'Tap below to show your ticket at the entrance.',
+  'reminder.defaultName': 'there',
+
+  // Staff commands, for admins who linked their Telegram account
+  'link.usage': '🔗 Send /link followed by the code from your admin profile, e.g. <code>/link 9F3A61C2</code>',
+  'link.done': '✅ Linked to the admin account of <b>{name}</b>. Type /admin to see the staff commands.',
+  'link.failed': '❌ That code is invalid or has expired. Create a new one from your admin profile.',
+  'admin.help': '🛠️ <b>STAFF COMMANDS</b>\n' +
+    '━━━━━━━━━━━━━━━━━━━━\n\n' +
+    '📊 <b>/stats</b>\nToday\'s numbers and all-time totals\n\n' +
+    '👥 <b>/attendees</b>\nWho is coming to an event, and who has checked in\n\n' +
+    '🎟️ <b>/checkin</b> <i>ticket link or invoice ID</i>\nCheck a ticket in. You can also just paste a ticket link or forward a ticket the bot sent.',
+  'admin.helpManager': '\n\n💳 <b>/confirmpayment</b> <i>invoice ID [reference]</i>\nMark an invoice paid, e.g. after a cash payment\n\n' +
+    '📸 <b>/memories</b>\nApprove or reject photos waiting for the gallery',
+  'admin.notAllowed': '⛔ Your admin role can\'t do that.',
+  'admin.stats': '📊 <b>Today</b>\n' +
+    '👤 New users: {newUsers}\n' +
+    '🎟️ Bookings: {bookings}\n' +
+    '💳 Payments: {payments} ({revenue} ETB)\n' +
+    '✅ Check-ins: {checkIns}\n\n' +
+    '📈 <b>All time</b>\n' +
+    '👥 Users: {totalUsers}\n' +
+    '🏇 Active events: {activeEvents}\n' +
+    '💰 Revenue: {totalRevenue} ETB (after {totalRefunds} ETB refunded)\n' +
+    '🧾 Unpaid invoices: {pendingInvoices}',
+  'admin.noEvents': '📭 There are no active events.',
+  'admin.chooseEvent': '👥 <b>Which event?</b>',
+  'admin.attendeesTitle': '👥 <b>{event}</b>\n{checkedIn} of {total} checked in\n',
+  'admin.noAttendees': '📭 Nobody has a confirmed booking for <b>{event}</b> yet.',
+  'admin.attendeesMore': '\n…and {count} more',
+  'admin.checkinUsage': '🎟️ Send /checkin followed by the ticket link or invoice ID, or forward the ticket message the bot sent.',
+  'admin.ticketInvalid': '❌ This ticket can\'t be used: {message}',
+  'admin.checkin.checked_in': '✅ <b>Checked in</b>\n\n👤 {name}\n🎟️ {event}',
+  'admin.checkin.already_checked_in': '⚠️ <b>Already checked in</b> at {time}\n\n👤 {name}\n🎟️ {event}',
+  'admin.checkin.expired': '⌛ <b>This ticket has expired</b>\n\n👤 {name}\n🎟️ {event}',
+  'admin.checkin.not_paid': '❌ There is no paid ticket for this invoice.',
+  'admin.checkin.event_not_found': '❌ This invoice isn\'t for an event.',
+  'admin.checkin.registration_not_found': '❌ There is no booking behind this ticket.',
+  'admin.unknownAttendee': 'Unknown attendee',
+  'admin.confirmUsage': '💳 Send /confirmpayment followed by the invoice ID and, optionally, the payment reference (letters, digits and dashes).',
+  'admin.invoiceNotFound': '❌ Invoice {invoiceId} was not found.',
+  'admin.invoiceNotPending': '⚠️ Invoice {invoiceId} is already {status}.',
+  'admin.confirmPrompt': '💳 <b>Confirm this payment?</b>\n\n' +
+    '🧾 {invoiceId}\n' +
+    '👤 {name}\n' +
+    '🎟️ {event}\n' +
+    '💰 {balance} ETB due of {amount} ETB\n' +
+    '🔖 Reference: {reference}',
+  'admin.manualReference': 'none, one will be generated',
+  'admin.confirmButton': '✅ Confirm payment',
+  'admin.paymentConfirmed': '✅ {amount} ETB recorded on {invoiceId}. It is now paid and the ticket was sent to the attendee.',
+  'admin.referenceUsed': '❌ This payment reference was already used on another payment.',
+  'admin.noPendingMemories': '📭 No memories are waiting for review.',
+  'admin.memoryCaption': '📸 <b>{event}</b>\n👤 {name}\n\n{caption}',
+  'admin.memoriesMore': '📸 {count} more are waiting. Send /memories again once you\'ve reviewed these.',
+  'admin.approve': '✅ Approve',
+  'admin.reject': '🗑️ Reject',
+  'admin.memoryApproved': '✅ Approved. It\'s now in the gallery.',
+  'admin.memoryRejected': '🗑️ Rejected and deleted.',
+  'admin.memoryNotFound': '❌ This memory was already reviewed.',
+  'admin.failed': '❌ Something went wrong: {message}',
+
+  // Ticket web pages
+  'page.ticketTitle': 'Ticket - {event}',
+  'page.verified': 'VERIFIED TICKET',
+  'page.ticketId': 'Ticket ID:',
+  'page.eventDate': 'Event Date:',
+  'page.location': 'Location:',
+  'page.tier': 'Ticket Tier:',
+  'page.attendee': 'Attendee:',
+  'page.email': 'Email:',
+  'page.amountPaid': 'Amount Paid:',
+  'page.paidBy': 'Paid By:',
+  'page.paidDate': 'Paid Date:',
+  'page.organizer': 'Event Organized by Reboot Adventures',
+  'page.presentTicket': 'Please present this digital ticket and a valid ID at the event entrance.',
+  'page.errorTitle': 'Error - Ticket Verification',
+  'page.code': 'CODE:',
+  'page.home': 'Return to Home',
+  'page.verifyFailed': 'Verification Failed',
+  'page.verifyFailedMessage': 'We couldn\'t verify this ticket at the moment.',
+  'page.invalidTicket': 'Invalid Ticket',
+  'page.invalidTicketMessage': 'This ticket appears to be invalid or tempered with.',
+  'page.ticketExpired': 'Ticket Expired',
+  'page.ticketExpiredMessage': 'This ticket has already expired and is no longer valid.',
+  'page.ticketCancelled': 'Ticket Cancelled',
+  'page.ticketCancelledMessage': 'This booking was cancelled and the ticket is no longer valid.',
+  'page.ticketNotFound': 'Ticket Not Found',
+  'page.ticketNotFoundMessage': 'We couldn\'t find any active ticket matching this reference.',
+
+  // Invoice PDF export
+  'pdf.invoicesTitle': 'Finance Report - Invoices',
+  'pdf.invoiceId': 'Invoice ID',
+  'pdf.user': 'User',
+  'pdf.event': 'Event',
+  'pdf.tier': 'Tier',
+  'pdf.amount': 'Amount',
+  'pdf.status': 'Status',
+  'pdf.date': 'Date',
+  'pdf.unknownUser': 'Unknown'
+};
+
+export type MessageKey = keyof typeof en;
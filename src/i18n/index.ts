@@ -0,0 +1,60 @@
+import { en, MessageKey } from './en';
+import { am } from './am';
+
+export type Language = 'en' | 'am';
+export type { MessageKey };
+
+export const SUPPORTED_LANGUAGES: Language[] = ['en', 'am'];
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const catalogs: Record<Language, Record<MessageKey, string>> = { en, am };
+
+const locales: Record<Language, string> = {
+  en: 'en-US',
+  am: 'am-ET'
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && (SUPPORTED_LANGUAGES as string[]).includes(value);
+
+/**
+ * Look up a message in the given language, falling back to English, and fill in {placeholders}
+ */
+export const t = (
+  lang: Language,
+  key: MessageKey,
+  params: Record<string, string | number | undefined> = {}
+): string => {
+  const template = catalogs[lang]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
+
+/**
+ * A user's language: the one they picked with /language, else their Telegram client's
+ * language, else English. `languageCode` is used when there's no user record yet.
+ */
+export const resolveLanguage = (
+  user?: { language?: string; telegramData?: { language_code?: string } } | null,
+  languageCode?: string
+): Language => {
+  if (isLanguage(user?.language)) {
+    return user!.language as Language;
+  }
+
+  const code = user?.telegramData?.language_code || languageCode;
+  return code?.toLowerCase().startsWith('am') ? 'am' : DEFAULT_LANGUAGE;
+};
+
+export const formatDate = (date: Date | string, lang: Language, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(date).toLocaleDateString(locales[lang], options);
+
+export const formatDateTime = (date: Date | string, lang: Language, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(date).toLocaleString(locales[lang], options);
+
+/**
+ * Escape text typed by users or staff before putting it into an HTML-formatted bot message
+ */
+export const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
@@ -8,11 +8,18 @@ import eventRouter from './routes/event.routes';
 import telegramRoutes from './routes/telegram.routes';
 import adminAuthRoutes from './routes/admin/auth.routes';
 import dashboardRoutes from './routes/admin/dashboard.routes';
+import promoCodeRoutes from './routes/admin/promo-code.routes';
+import jobRoutes from './routes/admin/job.routes';
+import segmentRoutes from './routes/admin/segment.routes';
+import supportRoutes from './routes/admin/support.routes';
+import referralRoutes from './routes/admin/referral.routes';
 import { errorHandler, handleProcessErrors } from  '../src/middleware/error.middleware';
 import bodyParser from 'body-parser';
 import paymentRoutes from './routes/payment.routes';
 import ticketRoutes from './routes/ticket.routes';
 import memoryRoutes from './routes/memory.routes';
+import { jobQueue } from './services/job-queue.service';
+import { registerJobHandlers } from './jobs';
 dotenv.config();
 import path from 'path';
 // Initialize express app
@@ -46,6 +53,9 @@ mongoose
   .connect(MONGODB_URI)
   .then(() => {
     console.log('Connected to MongoDB');
+
+    // Start processing background jobs
+    jobQueue.start();
     
     // Initialize Telegram Bot Commands
     import('./services/telegram.service').then(async ({ TelegramService }) => {
@@ -58,7 +68,12 @@ mongoose
         { command: 'verify', description: 'Verify payment manually' },
         { command: 'gallery', description: 'View trip photos' },
         { command: 'profile', description: 'View & edit profile' },
+        { command: 'language', description: 'Change the bot language' },
+        { command: 'settings', description: 'Choose which notifications you get' },
+        { command: 'stop', description: 'Stop all notifications' },
+        { command: 'referrals', description: 'Invite friends and earn credit' },
         { command: 'support', description: 'Contact support' },
+        { command: 'cancel', description: 'Cancel the current step' },
         { command: 'help', description: 'Show help message' }
       ]);
       console.log('Telegram commands initialized');
@@ -69,12 +84,20 @@ mongoose
     process.exit(1);
   });
 
+// Background job handlers must be known before any route can enqueue work
+registerJobHandlers();
+
 // Routes
 app.use('/api/users', usersRouter);
 app.use('/api/events', eventRouter);
 app.use('/api/telegram', telegramRoutes);
 app.use('/api/admin/auth', adminAuthRoutes);
 app.use('/api/admin/dashboard', dashboardRoutes);
+app.use('/api/admin/promo-codes', promoCodeRoutes);
+app.use('/api/admin/jobs', jobRoutes);
+app.use('/api/admin/segments', segmentRoutes);
+app.use('/api/admin/support', supportRoutes);
+app.use('/api/admin/referrals', referralRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/tickets', ticketRoutes);
 app.use('/api/admin/memories', memoryRoutes);
@@ -13,6 +13,18 @@ export interface ITelegramData {
   photo_url?: string;       // URL to user's profile photo
 }
 
+// Kinds of messages a user can turn off from /settings
+export type NotificationCategory = 'events' | 'reminders' | 'payments' | 'gallery';
+
+export type INotificationPreferences = Record<NotificationCategory, boolean>;
+
+// The referral link that brought a user to the bot, copied from their first contact when they register
+export interface IReferralAttribution {
+  code: string;
+  referralCode: Types.ObjectId;
+  firstSeenAt: Date;
+}
+
 export interface IRegistration extends Document {
   userType: 'user';
   _id: Types.ObjectId;
@@ -26,7 +38,11 @@ export interface IRegistration extends Document {
   horseRidingExperience: 'beginner' | 'intermediate' | 'advanced';
   referralSource: string;
   telegramData?: ITelegramData;
+  language?: 'en' | 'am';
+  notificationPreferences?: INotificationPreferences;
+  referral?: IReferralAttribution;
   isAdmin?: boolean;
+  tags?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,5 +62,8 @@ export interface IRegistrationInput {
   horseRidingExperience: 'beginner' | 'intermediate' | 'advanced';
   referralSource: string;
   telegramData?: ITelegramData;
+  language?: 'en' | 'am';
   isAdmin?: boolean;
+  tags?: string[];
+  referral?: IReferralAttribution;
 }
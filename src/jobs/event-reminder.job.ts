@@ -0,0 +1,41 @@
+import { IEvent } from '../models/events.model';
+import { jobQueue } from '../services/job-queue.service';
+import { reminderService } from '../services/reminder.service';
+
+export const EVENT_REMINDER_JOB = 'event.reminder';
+
+export interface EventReminderPayload {
+  eventId: string;
+  offsetMinutes: number;
+}
+
+/**
+ * Send one of an event's reminders, failing the job if any delivery failed so it is retried
+ */
+export async function runEventReminder(payload: Record<string, any>): Promise<void> {
+  const { eventId, offsetMinutes } = payload as EventReminderPayload;
+
+  const result = await reminderService.sendReminder(eventId, offsetMinutes);
+  if (result.failed > 0) {
+    throw new Error(`${result.failed} reminder(s) could not be delivered`);
+  }
+}
+
+/**
+ * Queue a job for each of an event's reminders at its send time.
+ * Jobs left over from an earlier schedule re-check the event when they run.
+ */
+export async function scheduleEventReminders(event: IEvent): Promise<number> {
+  if (!event.isActive || new Date(event.date).getTime() <= Date.now()) {
+    return 0;
+  }
+
+  for (const reminder of event.reminders || []) {
+    await jobQueue.enqueue(EVENT_REMINDER_JOB, {
+      eventId: String(event._id),
+      offsetMinutes: reminder.offsetMinutes
+    }, { runAt: reminderService.getSendTime(event, reminder) });
+  }
+
+  return event.reminders?.length || 0;
+}
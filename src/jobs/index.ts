@@ -0,0 +1,21 @@
+import { jobQueue } from '../services/job-queue.service';
+import { PAYMENT_VERIFICATION_JOB, runPaymentVerification } from './payment-verification.job';
+import { TELEGRAM_BROADCAST_JOB, runTelegramBroadcast } from './telegram-broadcast.job';
+import { EVENT_REMINDER_JOB, runEventReminder } from './event-reminder.job';
+import { PAYMENT_REMINDER_JOB, INVOICE_EXPIRY_JOB, runPaymentReminder, runInvoiceExpiry } from './invoice-payment.job';
+
+export { PAYMENT_VERIFICATION_JOB } from './payment-verification.job';
+export { TELEGRAM_BROADCAST_JOB, queueBroadcast, scheduleBroadcast } from './telegram-broadcast.job';
+export { EVENT_REMINDER_JOB, scheduleEventReminders } from './event-reminder.job';
+export { PAYMENT_REMINDER_JOB, INVOICE_EXPIRY_JOB, scheduleInvoicePaymentJobs } from './invoice-payment.job';
+
+/**
+ * Register every background job handler with the queue
+ */
+export function registerJobHandlers(): void {
+  jobQueue.register(PAYMENT_VERIFICATION_JOB, runPaymentVerification);
+  jobQueue.register(TELEGRAM_BROADCAST_JOB, runTelegramBroadcast);
+  jobQueue.register(EVENT_REMINDER_JOB, runEventReminder);
+  jobQueue.register(PAYMENT_REMINDER_JOB, runPaymentReminder);
+  jobQueue.register(INVOICE_EXPIRY_JOB, runInvoiceExpiry);
+}
@@ -0,0 +1,59 @@
+import { IInvoice } from '../models/invoice.model';
+import { jobQueue } from '../services/job-queue.service';
+import { invoiceExpiryService } from '../services/invoice-expiry.service';
+
+export const PAYMENT_REMINDER_JOB = 'invoice.reminder';
+export const INVOICE_EXPIRY_JOB = 'invoice.expire';
+
+export interface PaymentReminderPayload {
+  invoiceId: string;
+  step: number; // 0-based index of the reminder in the invoice's schedule
+  final: boolean;
+}
+
+/**
+ * Remind the user to pay an invoice that is still open
+ */
+export async function runPaymentReminder(payload: Record<string, any>): Promise<void> {
+  const { invoiceId, step, final } = payload as PaymentReminderPayload;
+  await invoiceExpiryService.sendReminder(invoiceId, step, final);
+}
+
+/**
+ * Cancel an invoice that is still unpaid at its deadline
+ */
+export async function runInvoiceExpiry(payload: Record<string, any>): Promise<void> {
+  await invoiceExpiryService.expireInvoice(payload.invoiceId);
+}
+
+/**
+ * Set an invoice's expiry from its event's payment deadline and queue its reminders and expiry.
+ * The window starts at `issuedAt`, which defaults to when the invoice was created.
+ */
+export async function scheduleInvoicePaymentJobs(invoice: IInvoice, issuedAt: Date = invoice.createdAt || new Date()): Promise<void> {
+  if (!invoice.event) {
+    return;
+  }
+
+  const { Event } = await import('../models/events.model');
+  const event = await Event.findById(invoice.event);
+  if (!event) {
+    return;
+  }
+
+  const expiresAt = invoiceExpiryService.getExpiryDate(event, issuedAt);
+  invoice.expiresAt = expiresAt;
+  invoice.remindersSent = 0;
+  await invoice.save();
+
+  const reminderTimes = invoiceExpiryService.getReminderTimes(event, issuedAt, expiresAt);
+  for (const [step, runAt] of reminderTimes.entries()) {
+    await jobQueue.enqueue(PAYMENT_REMINDER_JOB, {
+      invoiceId: invoice.invoiceId,
+      step,
+      final: step === reminderTimes.length - 1
+    }, { runAt });
+  }
+
+  await jobQueue.enqueue(INVOICE_EXPIRY_JOB, { invoiceId: invoice.invoiceId }, { runAt: expiresAt });
+}
@@ -0,0 +1,47 @@
+import { paymentService } from '../services/payment.service';
+import { TelegramService } from '../services/telegram.service';
+import { botSessionService } from '../services/bot-session.service';
+import { Registration } from '../models/user.model';
+import { IJob } from '../models/job.model';
+import { t, resolveLanguage } from '../i18n';
+
+export const PAYMENT_VERIFICATION_JOB = 'payment.verify';
+
+export interface PaymentVerificationPayload {
+  chatId: string | number;
+  transactionId: string;
+  userId: string; // Registration ID of the user who submitted the transaction
+  method: string;
+  invoiceId?: string;
+}
+
+/**
+ * Verify a transaction ID submitted through the bot and tell the user the outcome
+ */
+export async function runPaymentVerification(payload: Record<string, any>, job: IJob): Promise<void> {
+  const { chatId, transactionId, userId, method, invoiceId } = payload as PaymentVerificationPayload;
+  const telegramService = new TelegramService();
+
+  const result = await paymentService.verifyPayment(transactionId, userId, method, invoiceId);
+
+  // While the provider is unreachable the queue retries with backoff; the user hears once it gives up
+  if (result.retryable && job.attempts < job.maxAttempts) {
+    throw new Error(result.message);
+  }
+
+  // The chat is no longer waiting for a transaction ID once one is accepted
+  if (result.success) {
+    await botSessionService.clear(chatId);
+  }
+
+  // If invoice exists in result, the service already sent the QR code message
+  if (result.success && result.invoice) {
+    return;
+  }
+
+  const lang = resolveLanguage(await Registration.findById(userId).select('language telegramData.language_code'));
+  await telegramService.sendMessage(
+    chatId,
+    t(lang, result.success ? 'payment.verified' : 'payment.verificationFailed', { message: result.message })
+  );
+}
@@ -0,0 +1,39 @@
+import { IBroadcast, IBroadcastMessage } from '../models/broadcast.model';
+import { jobQueue } from '../services/job-queue.service';
+import { BroadcastOptions, broadcastService } from '../services/broadcast.service';
+
+export const TELEGRAM_BROADCAST_JOB = 'telegram.broadcast';
+
+export interface TelegramBroadcastPayload {
+  broadcastId: string;
+}
+
+/**
+ * Send the next slice of a broadcast, queueing a follow-up job until every delivery is done
+ */
+export async function runTelegramBroadcast(payload: Record<string, any>): Promise<void> {
+  const { broadcastId } = payload as TelegramBroadcastPayload;
+
+  const result = await broadcastService.sendSlice(broadcastId);
+  if (!result.done) {
+    await jobQueue.enqueue(TELEGRAM_BROADCAST_JOB, { broadcastId }, { runAt: result.resumeAt });
+  }
+}
+
+/**
+ * Record a broadcast and queue it for sending. Goes to every subscribed Telegram user
+ * unless audience filters are given.
+ */
+export async function queueBroadcast(message: IBroadcastMessage, options: BroadcastOptions = {}): Promise<IBroadcast> {
+  const broadcast = await broadcastService.create(message, options);
+  await scheduleBroadcast(broadcast);
+  return broadcast;
+}
+
+/**
+ * Queue a scheduled broadcast to start at its send time.
+ * A job left over from an earlier time re-checks the broadcast when it runs.
+ */
+export async function scheduleBroadcast(broadcast: IBroadcast): Promise<void> {
+  await jobQueue.enqueue(TELEGRAM_BROADCAST_JOB, { broadcastId: String(broadcast._id) }, { runAt: broadcast.scheduledAt });
+}
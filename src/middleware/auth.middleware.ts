@@ -53,9 +53,9 @@ export const authenticate = async (
     const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as { id: string; type?: string };
     
     // Check if it's an admin token (usually has type or we check Admin collection)
-    // First try to find in Admin collection
+    // First try to find in Admin collection; user tokens issued to the Mini App skip it
     const { Admin } = await import('../models/admin.model');
-    const admin = await Admin.findById(decoded.id).lean();
+    const admin = decoded.type === 'user' ? null : await Admin.findById(decoded.id).lean();
     
     if (admin) {
       req.user = {
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { telegramAuthService, TelegramWebAppUser } from '../services/telegram-auth.service';
+
+// Extend Express Request type with the verified Mini App user
+declare global {
+  namespace Express {
+    interface Request {
+      telegramUser?: TelegramWebAppUser;
+    }
+  }
+}
+
+/**
+ * Verify the Mini App initData sent in the X-Telegram-Init-Data header
+ */
+export const verifyTelegramInitData = (req: Request, res: Response, next: NextFunction) => {
+  const initData = req.header('X-Telegram-Init-Data');
+  if (!initData) {
+    return res.status(401).json({ success: false, message: 'Telegram initData is required' });
+  }
+
+  try {
+    req.telegramUser = telegramAuthService.validateInitData(initData).user;
+    next();
+  } catch (error: any) {
+    console.warn('Rejected Telegram initData:', error.message);
+    return res.status(401).json({ success: false, message: 'Telegram initData is not valid' });
+  }
+};
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+/**
+ * Only let through webhook calls carrying the secret token registered with Telegram via /set-webhook
+ */
+export const verifyTelegramWebhook = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('TELEGRAM_WEBHOOK_SECRET is not set; rejecting Telegram webhook call');
+    return res.status(503).json({ success: false, message: 'Webhook is not configured' });
+  }
+
+  const received = req.header('X-Telegram-Bot-Api-Secret-Token') || '';
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(received);
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    console.warn(`Rejected Telegram webhook call with invalid secret token from ${req.ip}`);
+    return res.status(401).json({ success: false, message: 'Invalid secret token' });
+  }
+
+  next();
+};
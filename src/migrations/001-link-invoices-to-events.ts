@@ -0,0 +1,73 @@
+import type { DataMigration, MigrationReport } from './index';
+import { Invoice } from '../models/invoice.model';
+import { Event } from '../models/events.model';
+import { EventRegistration } from '../models/event-registration.model';
+
+/**
+ * Backfill Invoice.event and Invoice.registration on invoices that were only
+ * linked to their event by metadata.eventName
+ */
+const linkInvoicesToEvents: DataMigration = {
+  name: '001-link-invoices-to-events',
+  description: 'Link legacy invoices to their event and registration by ID',
+
+  async up(): Promise<MigrationReport> {
+    const report: MigrationReport = { scanned: 0, updated: 0, unresolved: [] };
+
+    const cursor = Invoice.find({
+      $or: [{ event: { $exists: false } }, { event: null }, { registration: { $exists: false } }, { registration: null }]
+    }).cursor();
+
+    for await (const invoice of cursor) {
+      report.scanned++;
+      const id = invoice.invoiceId;
+
+      if (!invoice.event) {
+        const eventName = invoice.metadata?.eventName;
+        if (!eventName) {
+          report.unresolved.push({ id, reason: 'No event ID or event name on invoice' });
+          continue;
+        }
+
+        let events = await Event.find({ name: eventName });
+
+        // Several events can share a name; the invoice's event time tells them apart
+        if (events.length > 1 && invoice.metadata?.time) {
+          const time = new Date(invoice.metadata.time).getTime();
+          events = events.filter(e => new Date(e.date).getTime() === time);
+        }
+
+        if (events.length !== 1) {
+          report.unresolved.push({
+            id,
+            reason: events.length === 0
+              ? `No event named "${eventName}"`
+              : `${events.length} events named "${eventName}" match`
+          });
+          continue;
+        }
+
+        invoice.event = events[0]._id as any;
+      }
+
+      if (!invoice.registration) {
+        const registration = await EventRegistration.findOne({ user: invoice.user, event: invoice.event });
+        if (registration) {
+          invoice.registration = registration._id as any;
+        } else {
+          report.unresolved.push({ id, reason: 'No registration for this user and event' });
+        }
+      }
+
+      if (invoice.isModified()) {
+        // Only the links change; keep updatedAt as the last real change to the invoice
+        await invoice.save({ timestamps: false });
+        report.updated++;
+      }
+    }
+
+    return report;
+  }
+};
+
+export default linkInvoicesToEvents;
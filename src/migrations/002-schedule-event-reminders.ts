@@ -0,0 +1,41 @@
+import type { DataMigration, MigrationReport } from './index';
+import { Event } from '../models/events.model';
+import { jobQueue } from '../services/job-queue.service';
+import { reminderService } from '../services/reminder.service';
+import { EVENT_REMINDER_JOB } from '../jobs';
+
+/**
+ * Queue reminder jobs for upcoming events created before reminders were scheduled
+ * on save. Reminders whose send time has already passed are left out.
+ */
+const scheduleEventReminders: DataMigration = {
+  name: '002-schedule-event-reminders',
+  description: 'Queue reminders for upcoming events',
+
+  async up(): Promise<MigrationReport> {
+    const report: MigrationReport = { scanned: 0, updated: 0, unresolved: [] };
+    const now = new Date();
+
+    const events = await Event.find({ isActive: true, date: { $gt: now } });
+
+    for (const event of events) {
+      report.scanned++;
+
+      const upcoming = (event.reminders || []).filter(r => reminderService.getSendTime(event, r) > now);
+      for (const reminder of upcoming) {
+        await jobQueue.enqueue(EVENT_REMINDER_JOB, {
+          eventId: String(event._id),
+          offsetMinutes: reminder.offsetMinutes
+        }, { runAt: reminderService.getSendTime(event, reminder) });
+      }
+
+      if (upcoming.length > 0) {
+        report.updated++;
+      }
+    }
+
+    return report;
+  }
+};
+
+export default scheduleEventReminders;
@@ -0,0 +1,43 @@
+import type { DataMigration, MigrationReport } from './index';
+import { Invoice } from '../models/invoice.model';
+import { scheduleInvoicePaymentJobs } from '../jobs';
+
+/**
+ * Give open invoices issued before invoices expired a payment deadline.
+ * Their window starts now rather than at creation so long-pending invoices
+ * are reminded before they are cancelled.
+ */
+const scheduleInvoiceExpiry: DataMigration = {
+  name: '003-schedule-invoice-expiry',
+  description: 'Set deadlines and queue payment reminders for open invoices',
+
+  async up(): Promise<MigrationReport> {
+    const report: MigrationReport = { scanned: 0, updated: 0, unresolved: [] };
+    const now = new Date();
+
+    const cursor = Invoice.find({
+      status: { $in: ['pending', 'partially_paid'] },
+      expiresAt: { $exists: false }
+    }).cursor();
+
+    for await (const invoice of cursor) {
+      report.scanned++;
+
+      if (!invoice.event) {
+        report.unresolved.push({ id: invoice.invoiceId, reason: 'Invoice is not linked to an event' });
+        continue;
+      }
+
+      await scheduleInvoicePaymentJobs(invoice, now);
+      if (invoice.expiresAt) {
+        report.updated++;
+      } else {
+        report.unresolved.push({ id: invoice.invoiceId, reason: 'Linked event not found' });
+      }
+    }
+
+    return report;
+  }
+};
+
+export default scheduleInvoiceExpiry;
@@ -0,0 +1,27 @@
+import linkInvoicesToEvents from './001-link-invoices-to-events';
+import scheduleEventReminders from './002-schedule-event-reminders';
+import scheduleInvoiceExpiry from './003-schedule-invoice-expiry';
+
+export interface UnresolvedRecord {
+  id: string;
+  reason: string;
+}
+
+export interface MigrationReport {
+  scanned: number;
+  updated: number;
+  unresolved: UnresolvedRecord[];
+}
+
+export interface DataMigration {
+  name: string; // Unique and sortable, e.g. 001-link-invoices-to-events
+  description: string;
+  up(): Promise<MigrationReport>;
+}
+
+// Applied in order; never reorder or rename an entry once it has shipped
+export const migrations: DataMigration[] = [
+  linkInvoicesToEvents,
+  scheduleEventReminders,
+  scheduleInvoiceExpiry
+];
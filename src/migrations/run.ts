@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import { migrationService } from '../services/migration.service';
+import { MigrationReport } from './index';
+import { registerJobHandlers } from '../jobs';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || '';
+
+// Usage: npm run migrate            -> run pending migrations
+//        npm run migrate -- <name>  -> re-run one migration
+function printUnresolved(name: string, report: MigrationReport) {
+  if (report.unresolved.length === 0) return;
+
+  console.log(`\n${name}: ${report.unresolved.length} record(s) could not be resolved:`);
+  report.unresolved.forEach(r => console.log(`- ${r.id}: ${r.reason}`));
+}
+
+async function migrate() {
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log('Connected to MongoDB');
+
+    // Migrations may queue jobs; they are run by the server's worker
+    registerJobHandlers();
+
+    const name = process.argv[2];
+
+    if (name) {
+      printUnresolved(name, await migrationService.rerun(name));
+    } else {
+      const results = await migrationService.runPending();
+      if (results.length === 0) {
+        console.log('No pending migrations');
+      }
+      results.forEach(r => printUnresolved(r.name, r.report));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrate();
@@ -23,6 +23,10 @@ export interface IAdmin extends Document {
   invitationToken?: string;
   invitationExpires?: Date;
   lastLogin?: Date;
+  telegramId?: number; // Telegram account allowed to use admin bot commands
+  telegramChatId?: string; // Private chat with the bot, where test broadcasts are sent
+  telegramLinkCode?: string; // One-time code sent to the bot with /link
+  telegramLinkExpires?: Date;
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
   userType: 'admin';
@@ -74,6 +78,23 @@ const adminSchema = new Schema<IAdmin>({
   lastLogin: {
     type: Date
   },
+  telegramId: {
+    type: Number,
+    unique: true,
+    sparse: true
+  },
+  telegramChatId: {
+    type: String,
+    trim: true
+  },
+  telegramLinkCode: {
+    type: String,
+    select: false
+  },
+  telegramLinkExpires: {
+    type: Date,
+    select: false
+  },
   resetPasswordToken: {
     type: String,
     select: false
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type BotStateName = 'awaiting_transaction_id' | 'awaiting_memory_event' | 'registering' | 'in_support';
+
+export interface IBotSession extends Document {
+  chatId: string;
+  state: BotStateName;
+  data: Record<string, any>; // Arguments of the state, e.g. the invoice a transaction ID is expected for
+  expiresAt: Date; // The conversation falls back to its default handling after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const botSessionSchema = new Schema<IBotSession>(
+  {
+    chatId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    state: {
+      type: String,
+      enum: ['awaiting_transaction_id', 'awaiting_memory_event', 'registering', 'in_support'],
+      required: true
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Remove sessions once they time out
+botSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const BotSession: Model<IBotSession> = mongoose.model<IBotSession>('BotSession', botSessionSchema);
+
+export { BotSession };
@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type BroadcastDeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface IBroadcastDelivery extends Document {
+  broadcast: mongoose.Types.ObjectId;
+  chatId: string;
+  language: 'en' | 'am';
+  status: BroadcastDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date; // Pushed back after a transient failure
+  lockedAt?: Date; // When the current send started
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const broadcastDeliverySchema = new Schema<IBroadcastDelivery>(
+  {
+    broadcast: {
+      type: Schema.Types.ObjectId,
+      ref: 'Broadcast',
+      required: true
+    },
+    chatId: {
+      type: String,
+      required: true
+    },
+    language: {
+      type: String,
+      enum: ['en', 'am'],
+      default: 'en'
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'failed'],
+      default: 'pending'
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now
+    },
+    lockedAt: {
+      type: Date
+    },
+    lastError: {
+      type: String
+    },
+    sentAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+broadcastDeliverySchema.index({ broadcast: 1, chatId: 1 }, { unique: true }); // Each chat gets a broadcast once
+broadcastDeliverySchema.index({ broadcast: 1, status: 1, nextAttemptAt: 1 });
+
+const BroadcastDelivery: Model<IBroadcastDelivery> = mongoose.model<IBroadcastDelivery>('BroadcastDelivery', broadcastDeliverySchema);
+
+export { BroadcastDelivery };
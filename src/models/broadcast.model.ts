@@ -0,0 +1,148 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ISegmentFilters, segmentFiltersSchema } from './segment.model';
+import { NotificationCategory } from '../interfaces/user.interface';
+
+export type BroadcastStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled';
+
+export interface IBroadcastMessage {
+  text: string; // Used as the caption when there is a photo
+  photo?: string; // Image URL or Telegram file_id
+  options?: Record<string, any>; // Extra sendMessage options, e.g. reply_markup
+}
+
+// What an admin writes; `message` and `translations` are rendered from it
+export interface IAnnouncementContent {
+  title?: string;
+  message?: string;
+  location?: string;
+  time?: Date;
+  photo?: string;
+  am?: { title?: string; message?: string };
+}
+
+export interface IBroadcast extends Document {
+  content?: IAnnouncementContent; // Empty for automatic announcements, which are sent pre-rendered
+  message: IBroadcastMessage;
+  translations?: { am?: IBroadcastMessage }; // Sent instead of `message` to users of that language
+  category?: NotificationCategory; // Only users who get this kind of message; empty for general announcements
+  segment?: mongoose.Types.ObjectId; // Saved segment the audience came from
+  filters?: ISegmentFilters; // Audience filters as they were when queued; empty means every subscriber
+  status: BroadcastStatus;
+  scheduledAt?: Date; // When sending starts
+  total: number; // Recipients, known once the audience is resolved
+  sent: number;
+  failed: number;
+  createdBy?: mongoose.Types.ObjectId; // Admin who sent it; empty for automatic announcements
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const broadcastMessageSchema = new Schema<IBroadcastMessage>({
+  text: {
+    type: String,
+    required: [true, 'Broadcast text is required'],
+    maxlength: [4096, 'Broadcast text must be at most 4096 characters'],
+    validate: {
+      validator: function(this: IBroadcastMessage, text: string) {
+        return !this.photo || text.length <= 1024;
+      },
+      message: 'Broadcast text must be at most 1024 characters when it has a photo'
+    }
+  },
+  photo: {
+    type: String,
+    trim: true
+  },
+  options: {
+    type: Schema.Types.Mixed,
+    default: {}
+  }
+}, { _id: false });
+
+const announcementContentSchema = new Schema<IAnnouncementContent>({
+  title: { type: String, trim: true },
+  message: { type: String, trim: true },
+  location: { type: String, trim: true },
+  time: { type: Date },
+  photo: { type: String, trim: true },
+  am: {
+    title: { type: String, trim: true },
+    message: { type: String, trim: true }
+  }
+}, { _id: false });
+
+const broadcastSchema = new Schema<IBroadcast>(
+  {
+    content: {
+      type: announcementContentSchema
+    },
+    message: {
+      type: broadcastMessageSchema,
+      required: true
+    },
+    translations: {
+      am: {
+        type: broadcastMessageSchema
+      }
+    },
+    category: {
+      type: String,
+      enum: ['events', 'reminders', 'payments', 'gallery']
+    },
+    segment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Segment'
+    },
+    filters: {
+      type: segmentFiltersSchema
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'scheduled', 'sending', 'sent', 'cancelled'],
+      default: 'scheduled'
+    },
+    scheduledAt: {
+      type: Date,
+      default: Date.now
+    },
+    total: {
+      type: Number,
+      default: 0
+    },
+    sent: {
+      type: Number,
+      default: 0
+    },
+    failed: {
+      type: Number,
+      default: 0
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    startedAt: {
+      type: Date
+    },
+    completedAt: {
+      type: Date
+    },
+    cancelledAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+broadcastSchema.index({ createdAt: -1 });
+broadcastSchema.index({ status: 1, scheduledAt: 1 });
+
+const Broadcast: Model<IBroadcast> = mongoose.model<IBroadcast>('Broadcast', broadcastSchema);
+
+export { Broadcast };
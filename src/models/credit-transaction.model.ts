@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type CreditTransactionType = 'overpayment' | 'applied' | 'refund' | 'adjustment' | 'referral';
+
+export interface ICreditTransaction extends Document {
+  user: mongoose.Types.ObjectId;
+  amount: number; // Positive adds to the user's credit, negative uses it up
+  type: CreditTransactionType;
+  invoice?: mongoose.Types.ObjectId;
+  reference?: string; // Payout reference for refunds
+  referredUser?: mongoose.Types.ObjectId; // The friend whose paid booking earned a referral reward; cleared if it is reversed
+  note?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const creditTransactionSchema = new Schema<ICreditTransaction>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration',
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true
+    },
+    type: {
+      type: String,
+      enum: ['overpayment', 'applied', 'refund', 'adjustment', 'referral'],
+      required: true
+    },
+    invoice: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+    reference: {
+      type: String,
+      trim: true
+    },
+    referredUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration'
+    },
+    note: {
+      type: String,
+      trim: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+creditTransactionSchema.index({ user: 1, createdAt: -1 });
+// A referred friend earns their referrer a reward only once, unless it was reversed
+creditTransactionSchema.index(
+  { referredUser: 1 },
+  { unique: true, partialFilterExpression: { type: 'referral', referredUser: { $exists: true } } }
+);
+
+const CreditTransaction: Model<ICreditTransaction> = mongoose.model<ICreditTransaction>('CreditTransaction', creditTransactionSchema);
+
+export { CreditTransaction };
@@ -4,8 +4,12 @@ export interface IEventRegistration extends Document {
   user: mongoose.Types.ObjectId;
   event: mongoose.Types.ObjectId;
   registrationDate: Date;
-  status: 'registered' | 'payment_initiated' | 'confirmed' | 'cancelled';
+  status: 'registered' | 'payment_initiated' | 'confirmed' | 'cancelled' | 'waitlisted';
   priceAtRegistration?: number;
+  tier?: mongoose.Types.ObjectId; // _id of the chosen entry in Event.tiers
+  tierName?: string;
+  promoCode?: string; // Code entered at signup, applied when the invoice is created
+  waitlistPosition?: number; // 1-based position while status is 'waitlisted'
   checkedIn: boolean;
   checkedInAt?: Date;
   createdAt: Date;
@@ -30,12 +34,28 @@ const eventRegistrationSchema = new Schema<IEventRegistration>(
     },
     status: {
       type: String,
-      enum: ['registered', 'payment_initiated', 'confirmed', 'cancelled'],
+      enum: ['registered', 'payment_initiated', 'confirmed', 'cancelled', 'waitlisted'],
       default: 'registered'
     },
     priceAtRegistration: {
       type: Number
     },
+    tier: {
+      type: Schema.Types.ObjectId
+    },
+    tierName: {
+      type: String,
+      trim: true
+    },
+    promoCode: {
+      type: String,
+      uppercase: true,
+      trim: true
+    },
+    waitlistPosition: {
+      type: Number,
+      min: [1, 'Waitlist position must be at least 1']
+    },
     checkedIn: {
       type: Boolean,
       default: false
@@ -52,8 +72,13 @@ const eventRegistrationSchema = new Schema<IEventRegistration>(
 // Indexes
 eventRegistrationSchema.index({ event: 1, status: 1 });
 eventRegistrationSchema.index({ user: 1 });
+eventRegistrationSchema.index({ event: 1, status: 1, waitlistPosition: 1 });
+eventRegistrationSchema.index({ event: 1, tier: 1, status: 1 });
 eventRegistrationSchema.index({ user: 1, event: 1 }, { unique: true }); // Prevent double registration
 
+// Statuses that occupy a seat against the event capacity
+const SEAT_HOLDING_STATUSES: IEventRegistration['status'][] = ['registered', 'payment_initiated', 'confirmed'];
+
 const EventRegistration: Model<IEventRegistration> = mongoose.model<IEventRegistration>('EventRegistration', eventRegistrationSchema);
 
-export { EventRegistration };
+export { EventRegistration, SEAT_HOLDING_STATUSES };
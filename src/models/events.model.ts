@@ -1,17 +1,116 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export interface ITicketTier {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  price: number;
+  quota: number;
+}
+
+export interface IRefundRule {
+  hoursBefore: number; // Applies when cancelling at least this many hours before the event
+  percentage: number;
+}
+
+export interface IEventReminder {
+  offsetMinutes: number; // How long before the event the reminder goes out
+  template?: string; // Supports {name}, {event}, {time}, {meetingPoint}; a default message is used when empty
+  translations?: { am?: string }; // The template for users who use the bot in Amharic
+}
+
 export interface IEvent extends Document {
   name: string;
   description?: string;
   price: number;
+  tiers: ITicketTier[];
+  refundPolicy: IRefundRule[];
+  paymentDeadlineHours: number; // Unpaid invoices expire this long after they are issued
+  paymentReminderHours: number[]; // Hours after an invoice is issued to remind the user to pay
   location: string;
+  meetingPoint?: string;
   date: Date;
+  reminders: IEventReminder[];
   capacity: number;
   isActive: boolean;
+  seatLockToken?: string; // Held while a seat is being claimed, see WaitlistService.withSeatLock
+  seatLockExpiresAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// Ticket tiers (e.g. Standard, VIP with lunch, Student), each with its own price and quota
+const ticketTierSchema = new Schema<ITicketTier>({
+  name: {
+    type: String,
+    required: [true, 'Tier name is required'],
+    trim: true,
+    maxlength: [50, 'Tier name must be less than 50 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [255, 'Tier description must be less than 255 characters']
+  },
+  price: {
+    type: Number,
+    required: [true, 'Tier price is required'],
+    min: [0, 'Tier price must be a positive number']
+  },
+  quota: {
+    type: Number,
+    required: [true, 'Tier quota is required'],
+    min: [1, 'Tier quota must be at least 1']
+  }
+});
+
+// Refund share by notice given, e.g. 100% until 7 days before, 50% until 48 hours before
+const refundRuleSchema = new Schema<IRefundRule>({
+  hoursBefore: {
+    type: Number,
+    required: [true, 'Refund rule hours are required'],
+    min: [0, 'Refund rule hours must be a positive number']
+  },
+  percentage: {
+    type: Number,
+    required: [true, 'Refund percentage is required'],
+    min: [0, 'Refund percentage must be between 0 and 100'],
+    max: [100, 'Refund percentage must be between 0 and 100']
+  }
+}, { _id: false });
+
+const DEFAULT_REFUND_POLICY: IRefundRule[] = [
+  { hoursBefore: 7 * 24, percentage: 100 },
+  { hoursBefore: 48, percentage: 50 }
+];
+
+const eventReminderSchema = new Schema<IEventReminder>({
+  offsetMinutes: {
+    type: Number,
+    required: [true, 'Reminder offset is required'],
+    min: [1, 'Reminder offset must be at least 1 minute']
+  },
+  template: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Reminder template must be less than 1000 characters']
+  },
+  translations: {
+    am: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Reminder template must be less than 1000 characters']
+    }
+  }
+}, { _id: false });
+
+// 3 days, 1 day and 2 hours before the event
+const DEFAULT_REMINDERS: IEventReminder[] = [
+  { offsetMinutes: 3 * 24 * 60 },
+  { offsetMinutes: 24 * 60 },
+  { offsetMinutes: 2 * 60 }
+];
+
 const eventSchema = new Schema<IEvent>(
   {
     name: {
@@ -37,18 +136,52 @@ const eventSchema = new Schema<IEvent>(
       trim: true,
       maxlength: [255, 'Location must be less than 255 characters']
     },
+    meetingPoint: {
+      type: String,
+      trim: true,
+      maxlength: [255, 'Meeting point must be less than 255 characters']
+    },
     date: {
       type: Date,
       required: [true, 'Event date is required']
     },
+    reminders: {
+      type: [eventReminderSchema],
+      default: () => DEFAULT_REMINDERS.map(reminder => ({ ...reminder }))
+    },
     capacity: {
       type: Number,
       required: [true, 'Capacity is required'],
       min: [1, 'Capacity must be at least 1']
     },
+    tiers: {
+      type: [ticketTierSchema],
+      default: []
+    },
+    refundPolicy: {
+      type: [refundRuleSchema],
+      default: () => DEFAULT_REFUND_POLICY.map(rule => ({ ...rule }))
+    },
+    paymentDeadlineHours: {
+      type: Number,
+      default: 72,
+      min: [1, 'Payment deadline must be at least 1 hour']
+    },
+    paymentReminderHours: {
+      type: [{ type: Number, min: [1, 'Payment reminder must be at least 1 hour after the invoice'] }],
+      default: () => [24, 48]
+    },
     isActive: {
       type: Boolean,
       default: true
+    },
+    seatLockToken: {
+      type: String,
+      select: false
+    },
+    seatLockExpiresAt: {
+      type: Date,
+      select: false
     }
   },
   {
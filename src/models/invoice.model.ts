@@ -1,13 +1,35 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export interface IInvoicePayment {
+  transactionId: string;
+  method: string; // Payment verifier key, or 'credit' when paid from the user's credit balance
+  amount: number;
+  paidAt: Date;
+  receiptData?: {
+    senderName?: string;
+    confirmedAmount?: number;
+    date?: string;
+    receiver?: string;
+    receiverAccount?: string;
+  };
+}
+
 export interface IInvoice extends Document {
   invoiceId: string;
   user: mongoose.Types.ObjectId;
   event?: mongoose.Types.ObjectId;
   registration?: mongoose.Types.ObjectId;
-  amount: number;
+  amount: number; // Final amount due after any discount
+  originalAmount?: number;
+  discountAmount?: number;
+  promoCode?: string;
+  referralCode?: string; // The user's referral attribution, for the referral report
   currency: string;
-  status: 'pending' | 'paid' | 'failed' | 'cancelled';
+  status: 'pending' | 'partially_paid' | 'paid' | 'failed' | 'cancelled' | 'refunded';
+  payments: IInvoicePayment[];
+  amountPaid: number;
+  overpaidAmount?: number; // Paid beyond `amount`, moved to the user's credit
+  refundedAmount?: number; // Returned to the user after the registration was cancelled
   transactionId?: string; // Telebirr Transaction ID (e.g., CL69OU8FEN)
   paidAt?: Date;
   receiptData?: {
@@ -15,12 +37,31 @@ export interface IInvoice extends Document {
     confirmedAmount?: number;
     date?: string;
     receiver?: string;
+    receiverAccount?: string;
   };
   metadata?: Record<string, any>;
+  expiresAt?: Date; // Unpaid invoices are cancelled and their seat released after this
+  expiredAt?: Date;
+  remindersSent: number;
+  balanceDue: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const invoicePaymentSchema = new Schema<IInvoicePayment>({
+  transactionId: { type: String, required: true },
+  method: { type: String, required: true },
+  amount: { type: Number, required: true },
+  paidAt: { type: Date, default: Date.now },
+  receiptData: {
+    senderName: String,
+    confirmedAmount: Number,
+    date: String,
+    receiver: String,
+    receiverAccount: String
+  }
+}, { _id: false });
+
 const invoiceSchema = new Schema<IInvoice>(
   {
     invoiceId: {
@@ -45,15 +86,44 @@ const invoiceSchema = new Schema<IInvoice>(
       type: Number,
       required: true
     },
+    originalAmount: {
+      type: Number
+    },
+    discountAmount: {
+      type: Number,
+      default: 0
+    },
+    promoCode: {
+      type: String,
+      uppercase: true,
+      trim: true
+    },
+    referralCode: {
+      type: String
+    },
     currency: {
       type: String,
       default: 'ETB'
     },
     status: {
       type: String,
-      enum: ['pending', 'paid', 'failed', 'cancelled'],
+      enum: ['pending', 'partially_paid', 'paid', 'failed', 'cancelled', 'refunded'],
       default: 'pending'
     },
+    payments: {
+      type: [invoicePaymentSchema],
+      default: []
+    },
+    amountPaid: {
+      type: Number,
+      default: 0
+    },
+    overpaidAmount: {
+      type: Number
+    },
+    refundedAmount: {
+      type: Number
+    },
     transactionId: {
       type: String,
       unique: true,
@@ -66,20 +136,46 @@ const invoiceSchema = new Schema<IInvoice>(
       senderName: String,
       confirmedAmount: Number,
       date: String,
-      receiver: String
+      receiver: String,
+      receiverAccount: String
     },
     metadata: {
       type: Schema.Types.Mixed
+    },
+    expiresAt: {
+      type: Date
+    },
+    expiredAt: {
+      type: Date
+    },
+    remindersSent: {
+      type: Number,
+      default: 0
     }
   },
   {
-    timestamps: true
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
   }
 );
 
 // Indexes
 invoiceSchema.index({ user: 1 });
 invoiceSchema.index({ event: 1 });
+invoiceSchema.index({ status: 1, expiresAt: 1 });
+invoiceSchema.index({ referralCode: 1 }, { sparse: true });
+// A transaction can only ever be counted once, across all invoices
+invoiceSchema.index(
+  { 'payments.transactionId': 1 },
+  { unique: true, partialFilterExpression: { 'payments.transactionId': { $exists: true } } }
+);
+
+// Amount still owed on an invoice
+invoiceSchema.virtual('balanceDue').get(function (this: IInvoice) {
+  if (['paid', 'cancelled', 'refunded'].includes(this.status)) return 0;
+  return Math.max(0, Math.round(((this.amount || 0) - (this.amountPaid || 0)) * 100) / 100);
+});
 
 const Invoice: Model<IInvoice> = mongoose.model<IInvoice>('Invoice', invoiceSchema);
 
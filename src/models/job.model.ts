@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IJob extends Document {
+  type: string; // Name of a registered job handler, e.g. payment.verify
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Earliest time the job may run; pushed back after each failed attempt
+  lockedAt?: Date;
+  lockedBy?: string; // Worker that claimed the job
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'failed'],
+      default: 'pending'
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    maxAttempts: {
+      type: Number,
+      default: 5,
+      min: [1, 'Max attempts must be at least 1']
+    },
+    runAt: {
+      type: Date,
+      default: Date.now
+    },
+    lockedAt: {
+      type: Date
+    },
+    lockedBy: {
+      type: String
+    },
+    lastError: {
+      type: String
+    },
+    completedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ type: 1, status: 1 });
+// Keep finished jobs for a week for inspection
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const Job: Model<IJob> = mongoose.model<IJob>('Job', jobSchema);
+
+export { Job };
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IMigrationRecord extends Document {
+  name: string;
+  description?: string;
+  status: 'completed' | 'failed';
+  report?: Record<string, any>; // What the migration changed and anything it could not resolve
+  error?: string;
+  appliedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const migrationSchema = new Schema<IMigrationRecord>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    description: {
+      type: String
+    },
+    status: {
+      type: String,
+      enum: ['completed', 'failed'],
+      required: true
+    },
+    report: {
+      type: Schema.Types.Mixed
+    },
+    error: {
+      type: String
+    },
+    appliedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+const MigrationRecord: Model<IMigrationRecord> = mongoose.model<IMigrationRecord>('Migration', migrationSchema);
+
+export { MigrationRecord };
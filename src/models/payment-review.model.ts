@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IPaymentReview extends Document {
+  transactionId: string;
+  method: string;
+  user: mongoose.Types.ObjectId;
+  invoice?: mongoose.Types.ObjectId; // Most likely invoice the user meant to pay
+  reason: string;
+  receiptData: {
+    senderName?: string;
+    receiverName?: string;
+    receiverAccount?: string;
+    confirmedAmount?: number;
+    date?: string;
+  };
+  status: 'open' | 'approved' | 'rejected';
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentReviewSchema = new Schema<IPaymentReview>(
+  {
+    transactionId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    method: {
+      type: String,
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration',
+      required: true
+    },
+    invoice: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+    reason: {
+      type: String,
+      required: true
+    },
+    receiptData: {
+      senderName: String,
+      receiverName: String,
+      receiverAccount: String,
+      confirmedAmount: Number,
+      date: String
+    },
+    status: {
+      type: String,
+      enum: ['open', 'approved', 'rejected'],
+      default: 'open'
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    reviewedAt: {
+      type: Date
+    },
+    notes: {
+      type: String,
+      trim: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+paymentReviewSchema.index({ status: 1, createdAt: -1 });
+
+const PaymentReview: Model<IPaymentReview> = mongoose.model<IPaymentReview>('PaymentReview', paymentReviewSchema);
+
+export { PaymentReview };
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IPromoCode extends Document {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  value: number;
+  maxUses?: number; // Total redemptions allowed across all users (unlimited when unset)
+  usedCount: number;
+  perUserLimit: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  events: mongoose.Types.ObjectId[]; // Empty means valid for every event
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const promoCodeSchema = new Schema<IPromoCode>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Promo code is required'],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      minlength: [3, 'Promo code must be at least 3 characters'],
+      maxlength: [30, 'Promo code must be less than 30 characters']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [255, 'Description must be less than 255 characters']
+    },
+    discountType: {
+      type: String,
+      enum: ['percentage', 'fixed'],
+      required: [true, 'Discount type is required']
+    },
+    value: {
+      type: Number,
+      required: [true, 'Discount value is required'],
+      min: [0, 'Discount value must be a positive number'],
+      validate: {
+        validator: function (this: IPromoCode, value: number) {
+          return this.discountType !== 'percentage' || value <= 100;
+        },
+        message: 'Percentage discount cannot exceed 100'
+      }
+    },
+    maxUses: {
+      type: Number,
+      min: [1, 'Max uses must be at least 1']
+    },
+    usedCount: {
+      type: Number,
+      default: 0
+    },
+    perUserLimit: {
+      type: Number,
+      default: 1,
+      min: [1, 'Per-user limit must be at least 1']
+    },
+    validFrom: {
+      type: Date
+    },
+    validUntil: {
+      type: Date
+    },
+    events: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Event'
+    }],
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+promoCodeSchema.index({ isActive: 1, validUntil: 1 });
+
+const PromoCode: Model<IPromoCode> = mongoose.model<IPromoCode>('PromoCode', promoCodeSchema);
+
+export { PromoCode };
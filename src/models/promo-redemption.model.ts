@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IPromoRedemption extends Document {
+  promoCode: mongoose.Types.ObjectId;
+  code: string;
+  user: mongoose.Types.ObjectId;
+  event?: mongoose.Types.ObjectId;
+  invoice: mongoose.Types.ObjectId;
+  originalAmount: number;
+  discountAmount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const promoRedemptionSchema = new Schema<IPromoRedemption>(
+  {
+    promoCode: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromoCode',
+      required: true
+    },
+    code: {
+      type: String,
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration',
+      required: true
+    },
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event'
+    },
+    invoice: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: true
+    },
+    originalAmount: {
+      type: Number,
+      required: true
+    },
+    discountAmount: {
+      type: Number,
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+promoRedemptionSchema.index({ promoCode: 1, user: 1 });
+promoRedemptionSchema.index({ invoice: 1 }, { unique: true });
+
+const PromoRedemption: Model<IPromoRedemption> = mongoose.model<IPromoRedemption>('PromoRedemption', promoRedemptionSchema);
+
+export { PromoRedemption };
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type ReferralCodeType = 'campaign' | 'user';
+
+export interface IReferralCode extends Document {
+  code: string; // Deep links carry it as /start ref_<code>
+  type: ReferralCodeType;
+  name?: string; // What the code is for, e.g. "Instagram spring ads"
+  owner?: mongoose.Types.ObjectId; // The user sharing a 'user' code with friends
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const referralCodeSchema = new Schema<IReferralCode>(
+  {
+    code: {
+      type: String,
+      required: [true, 'Referral code is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      // Telegram only allows letters, digits, _ and - in start parameters, and _ separates the prefix
+      match: [/^[a-z0-9-]{3,32}$/, 'Referral code must be 3-32 letters, digits or dashes']
+    },
+    type: {
+      type: String,
+      enum: ['campaign', 'user'],
+      default: 'campaign'
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Name must be less than 100 characters']
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration',
+      validate: {
+        validator: function (this: IReferralCode, value?: mongoose.Types.ObjectId) {
+          return this.type !== 'user' || !!value;
+        },
+        message: 'User referral codes need an owner'
+      }
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+// Each user has a single code of their own
+referralCodeSchema.index({ owner: 1 }, { unique: true, sparse: true });
+
+const ReferralCode: Model<IReferralCode> = mongoose.model<IReferralCode>('ReferralCode', referralCodeSchema);
+
+export { ReferralCode };
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * The referral link a Telegram user first opened the bot with, kept until they register
+ */
+export interface IReferralContact extends Document {
+  telegramId: number;
+  code: string;
+  referralCode: mongoose.Types.ObjectId;
+  createdAt: Date; // First contact
+  updatedAt: Date;
+}
+
+const referralContactSchema = new Schema<IReferralContact>(
+  {
+    telegramId: {
+      type: Number,
+      required: true,
+      unique: true // Only the first referral link counts
+    },
+    code: {
+      type: String,
+      required: true
+    },
+    referralCode: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReferralCode',
+      required: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+referralContactSchema.index({ code: 1, createdAt: 1 });
+
+const ReferralContact: Model<IReferralContact> = mongoose.model<IReferralContact>('ReferralContact', referralContactSchema);
+
+export { ReferralContact };
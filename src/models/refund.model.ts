@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IRefund extends Document {
+  refundId: string;
+  invoice: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  event?: mongoose.Types.ObjectId;
+  registration: mongoose.Types.ObjectId;
+  amount: number;
+  percentage: number; // Share of the paid amount returned under the event's refund policy
+  reason?: string;
+  requestedBy: 'user' | 'admin';
+  payoutMethod?: string; // Payment verifier key (telebirr, cbe, ...) or 'credit'
+  payoutReference?: string; // Transaction ID of the payout
+  status: 'pending' | 'completed';
+  processedBy?: mongoose.Types.ObjectId;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refundSchema = new Schema<IRefund>(
+  {
+    refundId: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    invoice: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration',
+      required: true
+    },
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event'
+    },
+    registration: {
+      type: Schema.Types.ObjectId,
+      ref: 'EventRegistration',
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Refund amount must be a positive number']
+    },
+    percentage: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100
+    },
+    reason: {
+      type: String,
+      trim: true
+    },
+    requestedBy: {
+      type: String,
+      enum: ['user', 'admin'],
+      required: true
+    },
+    payoutMethod: {
+      type: String,
+      trim: true
+    },
+    payoutReference: {
+      type: String,
+      trim: true
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'completed'],
+      default: 'pending'
+    },
+    processedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    processedAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+refundSchema.index({ status: 1, createdAt: -1 });
+refundSchema.index({ user: 1 });
+refundSchema.index({ invoice: 1 });
+
+const Refund: Model<IRefund> = mongoose.model<IRefund>('Refund', refundSchema);
+
+export { Refund };
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IReminderDelivery extends Document {
+  event: mongoose.Types.ObjectId;
+  registration: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  offsetMinutes: number; // Which of the event's reminders this delivery was for
+  status: 'sending' | 'sent';
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reminderDeliverySchema = new Schema<IReminderDelivery>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true
+    },
+    registration: {
+      type: Schema.Types.ObjectId,
+      ref: 'EventRegistration',
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration',
+      required: true
+    },
+    offsetMinutes: {
+      type: Number,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['sending', 'sent'],
+      default: 'sending'
+    },
+    sentAt: {
+      type: Date
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+reminderDeliverySchema.index({ event: 1, offsetMinutes: 1 });
+reminderDeliverySchema.index({ registration: 1, offsetMinutes: 1 }, { unique: true }); // Each reminder goes out once per registration
+
+const ReminderDelivery: Model<IReminderDelivery> = mongoose.model<IReminderDelivery>('ReminderDelivery', reminderDeliverySchema);
+
+export { ReminderDelivery };
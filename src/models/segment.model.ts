@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ISegmentFilters {
+  event?: mongoose.Types.ObjectId; // Users registered for this event
+  registrationStatus?: 'confirmed' | 'unpaid'; // Narrows `event` (or any event) to paid or unpaid registrations
+  experience?: ('beginner' | 'intermediate' | 'advanced')[];
+  inactiveMonths?: number; // No booking in this many months
+  referralSources?: string[];
+  tags?: string[]; // Users carrying any of these tags
+}
+
+export interface ISegment extends Document {
+  name: string;
+  description?: string;
+  filters: ISegmentFilters;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const segmentFiltersSchema = new Schema<ISegmentFilters>({
+  event: {
+    type: Schema.Types.ObjectId,
+    ref: 'Event'
+  },
+  registrationStatus: {
+    type: String,
+    enum: {
+      values: ['confirmed', 'unpaid'],
+      message: 'Registration status must be confirmed or unpaid'
+    }
+  },
+  experience: {
+    type: [String],
+    enum: {
+      values: ['beginner', 'intermediate', 'advanced'],
+      message: 'Experience must be one of: beginner, intermediate, advanced'
+    },
+    default: undefined
+  },
+  inactiveMonths: {
+    type: Number,
+    min: [1, 'Inactive months must be at least 1']
+  },
+  referralSources: {
+    type: [String],
+    default: undefined
+  },
+  tags: {
+    type: [String],
+    lowercase: true,
+    trim: true,
+    default: undefined
+  }
+}, { _id: false });
+
+const segmentSchema = new Schema<ISegment>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Segment name is required'],
+      unique: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    filters: {
+      type: segmentFiltersSchema,
+      default: {}
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+const Segment: Model<ISegment> = mongoose.model<ISegment>('Segment', segmentSchema);
+
+export { Segment };
@@ -0,0 +1,152 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type SupportTicketStatus =
+  | 'open' // Waiting for a reply from staff
+  | 'answered' // Waiting for the user
+  | 'closed';
+
+export interface ISupportMessage {
+  sender: 'user' | 'staff';
+  text: string;
+  photo?: string; // Telegram file ID
+  admin?: mongoose.Types.ObjectId; // Staff member who replied, if their Telegram account is linked
+  staffName?: string;
+  relayMessageId?: number; // The copy in the staff chat; replying to it answers this thread
+  createdAt: Date;
+}
+
+export interface ISupportTicket extends Document {
+  user?: mongoose.Types.ObjectId; // Set once the Telegram user has registered
+  telegramId: number;
+  chatId: string;
+  name: string;
+  username?: string;
+  language?: string;
+  status: SupportTicketStatus;
+  assignedTo?: mongoose.Types.ObjectId;
+  messages: ISupportMessage[];
+  // SLA timestamps
+  lastUserMessageAt: Date;
+  firstResponseAt?: Date;
+  lastStaffMessageAt?: Date;
+  closedAt?: Date;
+  closedBy?: mongoose.Types.ObjectId;
+  firstResponseMinutes?: number;
+  waitingMinutes?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const supportMessageSchema = new Schema<ISupportMessage>(
+  {
+    sender: {
+      type: String,
+      enum: ['user', 'staff'],
+      required: true
+    },
+    text: {
+      type: String,
+      default: ''
+    },
+    photo: {
+      type: String
+    },
+    admin: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    staffName: {
+      type: String
+    },
+    relayMessageId: {
+      type: Number
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }
+);
+
+const supportTicketSchema = new Schema<ISupportTicket>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'Registration'
+    },
+    telegramId: {
+      type: Number,
+      required: true
+    },
+    chatId: {
+      type: String,
+      required: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    username: {
+      type: String
+    },
+    language: {
+      type: String
+    },
+    status: {
+      type: String,
+      enum: ['open', 'answered', 'closed'],
+      default: 'open'
+    },
+    assignedTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    },
+    messages: {
+      type: [supportMessageSchema],
+      default: []
+    },
+    lastUserMessageAt: {
+      type: Date,
+      default: Date.now
+    },
+    firstResponseAt: {
+      type: Date
+    },
+    lastStaffMessageAt: {
+      type: Date
+    },
+    closedAt: {
+      type: Date
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Admin'
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  }
+);
+
+supportTicketSchema.index({ status: 1, lastUserMessageAt: 1 });
+supportTicketSchema.index({ telegramId: 1, status: 1 });
+supportTicketSchema.index({ 'messages.relayMessageId': 1 });
+
+// How long the user waited for the first reply
+supportTicketSchema.virtual('firstResponseMinutes').get(function (this: ISupportTicket) {
+  if (!this.firstResponseAt) return undefined;
+  return Math.round((this.firstResponseAt.getTime() - this.createdAt.getTime()) / 60000);
+});
+
+// How long the user has been waiting for a reply, while the thread is open
+supportTicketSchema.virtual('waitingMinutes').get(function (this: ISupportTicket) {
+  if (this.status !== 'open' || !this.lastUserMessageAt) return undefined;
+  return Math.round((Date.now() - this.lastUserMessageAt.getTime()) / 60000);
+});
+
+const SupportTicket: Model<ISupportTicket> = mongoose.model<ISupportTicket>('SupportTicket', supportTicketSchema);
+
+export { SupportTicket };
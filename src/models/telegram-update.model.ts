@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ITelegramUpdate extends Document {
+  updateId: number; // Telegram's update_id
+  receivedAt: Date;
+}
+
+const telegramUpdateSchema = new Schema<ITelegramUpdate>({
+  updateId: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Telegram stops redelivering an update after 24 hours; keep a margin beyond that
+telegramUpdateSchema.index({ receivedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const TelegramUpdate: Model<ITelegramUpdate> = mongoose.model<ITelegramUpdate>('TelegramUpdate', telegramUpdateSchema);
+
+export { TelegramUpdate };
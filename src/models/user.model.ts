@@ -1,5 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import { IRegistration, IRegistrationModel, ITelegramData } from '../interfaces/user.interface';
+import { INotificationPreferences, IReferralAttribution, IRegistration, IRegistrationModel, ITelegramData } from '../interfaces/user.interface';
 
 // Define the schema for the Telegram data
 const telegramDataSchema = new Schema<ITelegramData>({
@@ -15,7 +15,19 @@ const telegramDataSchema = new Schema<ITelegramData>({
   photo_url: { type: String }
 }, { _id: false });
 
+// Every category is on until the user turns it off from /settings
+const notificationPreferencesSchema = new Schema<INotificationPreferences>({
+  events: { type: Boolean, default: true },
+  reminders: { type: Boolean, default: true },
+  payments: { type: Boolean, default: true },
+  gallery: { type: Boolean, default: true }
+}, { _id: false });
 
+const referralAttributionSchema = new Schema<IReferralAttribution>({
+  code: { type: String, required: true },
+  referralCode: { type: Schema.Types.ObjectId, ref: 'ReferralCode', required: true },
+  firstSeenAt: { type: Date, required: true }
+}, { _id: false });
 
 // Main registration schema
 const registrationSchema = new Schema<IRegistration>(
@@ -80,10 +92,31 @@ const registrationSchema = new Schema<IRegistration>(
       type: telegramDataSchema,
       default: null
     },
+    // Chosen with /language; otherwise taken from the Telegram client
+    language: {
+      type: String,
+      enum: ['en', 'am']
+    },
+    notificationPreferences: {
+      type: notificationPreferencesSchema,
+      default: () => ({})
+    },
+    // Set at registration from the referral link the user first opened the bot with
+    referral: {
+      type: referralAttributionSchema,
+      default: undefined
+    },
     isAdmin: {
       type: Boolean,
       default: false
     },
+    // Free-form labels admins use to target broadcasts, e.g. "vip" or "trail-riders"
+    tags: {
+      type: [String],
+      lowercase: true,
+      trim: true,
+      default: []
+    },
     // Removed event and paymentStatus as they are now handled by invoices
   },
   {
@@ -105,6 +138,8 @@ const registrationSchema = new Schema<IRegistration>(
 
 // Indexes
 registrationSchema.index({ 'telegramData.id': 1 }, { unique: true, sparse: true });
+registrationSchema.index({ tags: 1 });
+registrationSchema.index({ 'referral.code': 1 }, { sparse: true });
 
 // Add instance methods
 // Add static methods
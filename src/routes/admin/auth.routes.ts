@@ -85,6 +85,9 @@ router.use(authenticateAdmin);
 router.get('/profile', AdminAuthController.getProfile);
 router.get('/list', requireRole(AdminRole.SUPER_ADMIN), AdminAuthController.getAllAdmins);
 
+router.post('/telegram/link', AdminAuthController.createTelegramLinkCode);
+router.delete('/telegram/link', AdminAuthController.unlinkTelegram);
+
 router.post(
   '/profile/update',
   [
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { JobController } from '../../controllers/admin/job.controller';
+import { authenticateAdmin, requireRole } from '../../middleware/admin.auth.middleware';
+import { AdminRole } from '../../models/admin.model';
+
+const router = Router();
+
+// All job routes are protected
+router.use(authenticateAdmin);
+
+router.get('/', JobController.getJobs);
+router.get('/stats', JobController.getJobStats);
+router.get('/:id', JobController.getJob);
+router.post('/:id/retry', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), JobController.retryJob);
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { PromoCodeController } from '../../controllers/admin/promo-code.controller';
+import { authenticateAdmin, requireRole } from '../../middleware/admin.auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { AdminRole } from '../../models/admin.model';
+
+const router = Router();
+
+// All promo code routes are protected
+router.use(authenticateAdmin);
+
+router.get('/', PromoCodeController.getPromoCodes);
+router.get('/report', PromoCodeController.getRedemptionReport);
+router.get('/:id', PromoCodeController.getPromoCode);
+router.get('/:id/redemptions', PromoCodeController.getPromoCodeRedemptions);
+
+router.post(
+  '/',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    body('code').trim().notEmpty().withMessage('Code is required'),
+    body('discountType').isIn(['percentage', 'fixed']).withMessage('Discount type must be percentage or fixed'),
+    body('value').isFloat({ min: 0 }).withMessage('Valid discount value is required'),
+    body('validFrom').optional().isISO8601().withMessage('Valid start date is required'),
+    body('validUntil').optional().isISO8601().withMessage('Valid end date is required'),
+    body('events').optional().isArray().withMessage('Events must be an array of event IDs'),
+    body('events.*').optional().isMongoId().withMessage('Valid event ID is required')
+  ]),
+  PromoCodeController.createPromoCode
+);
+
+router.put('/:id', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), PromoCodeController.updatePromoCode);
+router.delete('/:id', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), PromoCodeController.deletePromoCode);
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { ReferralController } from '../../controllers/admin/referral.controller';
+import { authenticateAdmin, requireRole } from '../../middleware/admin.auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { AdminRole } from '../../models/admin.model';
+
+const router = Router();
+
+// All referral routes are protected
+router.use(authenticateAdmin);
+
+router.get('/', ReferralController.getReferralCodes);
+router.get(
+  '/report',
+  validate([
+    query('from').optional().isISO8601().withMessage('Valid start date is required'),
+    query('to').optional().isISO8601().withMessage('Valid end date is required'),
+    query('type').optional().isIn(['campaign', 'user']).withMessage('Type must be campaign or user')
+  ]),
+  ReferralController.getReport
+);
+
+router.post(
+  '/',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    body('type').optional().isIn(['campaign', 'user']).withMessage('Type must be campaign or user'),
+    body('code').if(body('type').not().equals('user')).trim().notEmpty().withMessage('Code is required'),
+    body('owner').if(body('type').equals('user')).isMongoId().withMessage('Valid user ID is required')
+  ]),
+  ReferralController.createReferralCode
+);
+
+router.put(
+  '/:id',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    body('isActive').optional().isBoolean().withMessage('isActive must be true or false')
+  ]),
+  ReferralController.updateReferralCode
+);
+
+export default router;
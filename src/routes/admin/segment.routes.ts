@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { SegmentController } from '../../controllers/admin/segment.controller';
+import { authenticateAdmin, requireRole } from '../../middleware/admin.auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+import { AdminRole } from '../../models/admin.model';
+
+const router = Router();
+
+const filterRules = [
+  body('filters').optional().isObject().withMessage('Filters must be an object'),
+  body('filters.event').optional().isMongoId().withMessage('Valid event ID is required'),
+  body('filters.registrationStatus').optional().isIn(['confirmed', 'unpaid']).withMessage('Registration status must be confirmed or unpaid'),
+  body('filters.experience').optional().isArray().withMessage('Experience must be an array'),
+  body('filters.experience.*').isIn(['beginner', 'intermediate', 'advanced']).withMessage('Experience must be beginner, intermediate or advanced'),
+  body('filters.inactiveMonths').optional().isInt({ min: 1 }).withMessage('Inactive months must be a whole number of at least 1'),
+  body('filters.referralSources').optional().isArray().withMessage('Referral sources must be an array'),
+  body('filters.tags').optional().isArray().withMessage('Tags must be an array')
+];
+
+// All segment routes are protected
+router.use(authenticateAdmin);
+
+router.get('/', SegmentController.getSegments);
+router.post('/preview', validate(filterRules), SegmentController.previewFilters);
+router.get('/:id', SegmentController.getSegment);
+router.get('/:id/preview', SegmentController.previewSegment);
+
+router.post(
+  '/',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    body('name').trim().notEmpty().withMessage('Segment name is required'),
+    ...filterRules
+  ]),
+  SegmentController.createSegment
+);
+
+router.put(
+  '/:id',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    body('name').optional().trim().notEmpty().withMessage('Segment name cannot be empty'),
+    ...filterRules
+  ]),
+  SegmentController.updateSegment
+);
+
+router.delete('/:id', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), SegmentController.deleteSegment);
+
+export default router;
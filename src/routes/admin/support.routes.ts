@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { SupportController } from '../../controllers/admin/support.controller';
+import { authenticateAdmin } from '../../middleware/admin.auth.middleware';
+import { validate } from '../../middleware/validation.middleware';
+
+const router = Router();
+
+// All support routes are protected; every admin role answers support
+router.use(authenticateAdmin);
+
+router.get(
+  '/',
+  validate([
+    query('status').optional().isIn(['open', 'answered', 'closed']).withMessage('Status must be open, answered or closed'),
+    query('assignedTo').optional().custom(value => value === 'me' || value === 'unassigned' || /^[a-f\d]{24}$/i.test(value))
+      .withMessage('Assigned to must be me, unassigned or an admin ID')
+  ]),
+  SupportController.getTickets
+);
+router.get('/:id', SupportController.getTicket);
+
+router.post(
+  '/:id/assign',
+  validate([
+    body('adminId').optional({ nullable: true }).isMongoId().withMessage('Valid admin ID is required')
+  ]),
+  SupportController.assignTicket
+);
+
+router.post(
+  '/:id/reply',
+  validate([
+    body('message').isString().trim().notEmpty().withMessage('Reply message is required')
+      .isLength({ max: 3500 }).withMessage('Reply must be at most 3500 characters')
+  ]),
+  SupportController.replyToTicket
+);
+
+router.post('/:id/close', SupportController.closeTicket);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticateAdmin, requireRole } from '../middleware/admin.auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
 import { AdminRole } from '../models/admin.model';
 import {
   createEvent,
@@ -9,11 +10,17 @@ import {
   signupForEvent,
   updateEvent,
   deleteEvent,
-  getEventRegistrations
+  getEventRegistrations,
+  cancelRegistration,
+  getCancellationQuote,
+  cancelMyRegistration,
+  getEventReminders
 } from '../controllers/events.controler';
 
 const router = Router();
-router.post('/:id/signup', signupForEvent);
+router.post('/:id/signup', authenticate, signupForEvent); // Signs up the authenticated user
+router.get('/:id/cancel', authenticate, getCancellationQuote); // Refund the user would get for cancelling now
+router.post('/:id/cancel', authenticate, cancelMyRegistration); // User cancels their own registration
 router.get('/', getEvents); // Get all events
 router.get('/:id', getEventById); // Get single event
 // Protect all admin routes
@@ -24,5 +31,7 @@ router.patch('/:id/status', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
 router.put('/:id', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), updateEvent); // Full update of event
 router.delete('/:id', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), deleteEvent); // Delete event
 router.get('/:id/attendees', getEventRegistrations); // Get event attendees
+router.get('/:id/reminders', getEventReminders); // Reminder schedule and delivery counts
+router.patch('/:id/registrations/:registrationId/cancel', requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN), cancelRegistration); // Cancel, refund and promote from waitlist
 
 export default router;
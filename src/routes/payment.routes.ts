@@ -5,23 +5,22 @@ import { validate } from '../middleware/validation.middleware';
 import { authenticate } from '../middleware/auth.middleware';
 import { authenticateAdmin, requireRole } from '../middleware/admin.auth.middleware';
 import { AdminRole } from '../models/admin.model';
+import { paymentVerifierRegistry } from '../services/payment-verifiers';
 
 const router = Router();
 
 /**
  * @route POST /api/payments/initialize
- * @desc Initialize a new payment
+ * @desc Invoice the caller's registration for an event (admins may pass userId)
  * @access Private
  */
 router.post(
   '/initialize',
   authenticate,
   validate([
-    body('userId').isMongoId().withMessage('Valid user ID is required'),
-    body('eventName').trim().notEmpty().withMessage('Event name is required'),
-    body('amount').isNumeric().withMessage('Valid amount is required'),
-    body('place').trim().notEmpty().withMessage('Place is required'),
-    body('time').isISO8601().withMessage('Valid time is required'),
+    body('userId').optional().isMongoId().withMessage('Valid user ID is required'),
+    body('eventId').isMongoId().withMessage('Valid event ID is required'),
+    body('promoCode').optional().trim().notEmpty().withMessage('Promo code cannot be empty')
   ]),
   paymentController.initializePayment
 );
@@ -99,11 +98,93 @@ router.post(
   requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
   validate([
     body('transactionId').trim().notEmpty().withMessage('Transaction ID is required'),
-    body('userId').isMongoId().withMessage('Valid user ID is required')
+    body('userId').isMongoId().withMessage('Valid user ID is required'),
+    body('invoiceId').optional().trim().notEmpty().withMessage('Invoice ID cannot be empty'),
+    body('method')
+      .optional()
+      .isIn(paymentVerifierRegistry.getAll().map(v => v.key))
+      .withMessage('Unsupported payment method')
   ]),
   paymentController.verifyPayment
 );
 
+/**
+ * @route GET /api/payments/reviews
+ * @desc List payments flagged for review (e.g. receiver mismatch)
+ */
+router.get(
+  '/reviews',
+  paymentController.getPaymentReviews
+);
+
+/**
+ * @route PATCH /api/payments/reviews/:id
+ * @desc Approve or reject a flagged payment
+ */
+router.patch(
+  '/reviews/:id',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    param('id').isMongoId().withMessage('Valid review ID is required'),
+    body('status').isIn(['approved', 'rejected']).withMessage('Status must be approved or rejected')
+  ]),
+  paymentController.resolvePaymentReview
+);
+
+/**
+ * @route GET /api/payments/refunds
+ * @desc List refunds from cancelled registrations
+ */
+router.get(
+  '/refunds',
+  paymentController.getRefunds
+);
+
+/**
+ * @route PATCH /api/payments/refunds/:id
+ * @desc Record the payout of a pending refund
+ */
+router.patch(
+  '/refunds/:id',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    param('id').isMongoId().withMessage('Valid refund ID is required'),
+    body('payoutMethod')
+      .optional()
+      .isIn([...paymentVerifierRegistry.getAll().map(v => v.key), 'credit'])
+      .withMessage('Unsupported payout method'),
+    body('payoutReference').optional().trim().notEmpty().withMessage('Payout reference cannot be empty')
+  ]),
+  paymentController.completeRefund
+);
+
+/**
+ * @route GET /api/payments/credits/:userId
+ * @desc Get a user's credit balance and history
+ */
+router.get(
+  '/credits/:userId',
+  validate([
+    param('userId').isMongoId().withMessage('Valid user ID is required')
+  ]),
+  paymentController.getUserCredit
+);
+
+/**
+ * @route POST /api/payments/credits/:userId/refund
+ * @desc Pay out a user's credit balance
+ */
+router.post(
+  '/credits/:userId/refund',
+  requireRole(AdminRole.SUPER_ADMIN, AdminRole.ADMIN),
+  validate([
+    param('userId').isMongoId().withMessage('Valid user ID is required'),
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Valid amount is required'),
+    body('reference').trim().notEmpty().withMessage('Payout reference is required')
+  ]),
+  paymentController.refundUserCredit
+);
+
 /**
  * @route POST /api/payments/bulk-initialize
  * @desc Bulk initialize payments
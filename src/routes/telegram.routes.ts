@@ -1,34 +1,42 @@
 import { Router } from 'express';
 import { telegramController } from '../controllers/telegram.controller';
+import { broadcastController } from '../controllers/broadcast.controller';
 import { authenticateAdmin } from '../middleware/admin.auth.middleware';
+import { verifyTelegramWebhook } from '../middleware/telegram-webhook.middleware';
 
 const router = Router();
 
 /**
  * @route POST /api/telegram/webhook
  * @desc Handle Telegram bot webhook updates
- * @access Public (Telegram servers)
+ * @access Telegram servers (X-Telegram-Bot-Api-Secret-Token must match TELEGRAM_WEBHOOK_SECRET)
  */
-router.post('/webhook', telegramController.handleWebhook);
+router.post('/webhook', verifyTelegramWebhook, telegramController.handleWebhook);
 
 /**
  * @route GET /api/telegram/set-webhook
  * @desc Set Telegram webhook URL (run once)
  * @access Private (Admin)
  */
-router.get('/set-webhook', async (req, res) => {
+router.get('/set-webhook', authenticateAdmin, async (req, res) => {
   try {
     const webhookUrl = `${process.env.APP_URL}/api/telegram/webhook`;
     const token = process.env.TELEGRAM_BOT_TOKEN;
+    const secretToken = process.env.TELEGRAM_WEBHOOK_SECRET;
     
     if (!token) {
       return res.status(500).json({ success: false, message: 'TELEGRAM_BOT_TOKEN is not set' });
     }
 
+    // Telegram only accepts 1-256 characters from A-Z, a-z, 0-9, _ and -
+    if (!secretToken || !/^[A-Za-z0-9_-]{1,256}$/.test(secretToken)) {
+      return res.status(500).json({ success: false, message: 'TELEGRAM_WEBHOOK_SECRET is missing or invalid' });
+    }
+
     const response = await fetch(`https://api.telegram.org/bot${token}/setWebhook`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url: webhookUrl })
+      body: JSON.stringify({ url: webhookUrl, secret_token: secretToken })
     });
 
     const data = await response.json();
@@ -46,9 +54,65 @@ router.get('/set-webhook', async (req, res) => {
 
 /**
  * @route POST /api/telegram/broadcast
- * @desc Send a custom broadcast message to all subscribed Telegram users
+ * @desc Send, schedule or save as a draft a broadcast to subscribed Telegram users, optionally only a segment
+ * @access Private (Admin)
+ */
+router.post('/broadcast', authenticateAdmin, broadcastController.createBroadcast);
+
+/**
+ * @route GET /api/telegram/broadcast
+ * @desc Broadcast history with delivery counts
+ * @access Private (Admin)
+ */
+router.get('/broadcast', authenticateAdmin, broadcastController.getBroadcasts);
+
+/**
+ * @route GET /api/telegram/broadcast/:id
+ * @desc Sent, failed and remaining counts for a broadcast
+ * @access Private (Admin)
+ */
+router.get('/broadcast/:id', authenticateAdmin, broadcastController.getBroadcastProgress);
+
+/**
+ * @route GET /api/telegram/broadcast/:id/deliveries
+ * @desc Per-recipient delivery results for a broadcast
+ * @access Private (Admin)
+ */
+router.get('/broadcast/:id/deliveries', authenticateAdmin, broadcastController.getBroadcastDeliveries);
+
+/**
+ * @route PUT /api/telegram/broadcast/:id
+ * @desc Edit a draft or scheduled broadcast
+ * @access Private (Admin)
+ */
+router.put('/broadcast/:id', authenticateAdmin, broadcastController.updateBroadcast);
+
+/**
+ * @route POST /api/telegram/broadcast/:id/schedule
+ * @desc Schedule a draft broadcast
+ * @access Private (Admin)
+ */
+router.post('/broadcast/:id/schedule', authenticateAdmin, broadcastController.scheduleBroadcast);
+
+/**
+ * @route POST /api/telegram/broadcast/:id/cancel
+ * @desc Cancel a scheduled broadcast or stop one that is sending
+ * @access Private (Admin)
+ */
+router.post('/broadcast/:id/cancel', authenticateAdmin, broadcastController.cancelBroadcast);
+
+/**
+ * @route POST /api/telegram/broadcast/:id/test
+ * @desc Send a broadcast to the admin's own Telegram chat
+ * @access Private (Admin)
+ */
+router.post('/broadcast/:id/test', authenticateAdmin, broadcastController.sendTestBroadcast);
+
+/**
+ * @route DELETE /api/telegram/broadcast/:id
+ * @desc Delete a draft broadcast
  * @access Private (Admin)
  */
-router.post('/broadcast', authenticateAdmin, telegramController.broadcastAnnouncement);
+router.delete('/broadcast/:id', authenticateAdmin, broadcastController.deleteBroadcast);
 
 export default router;
@@ -1,8 +1,11 @@
 import { Router } from 'express';
 import { authenticateAdmin, requireRole } from '../middleware/admin.auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { verifyTelegramInitData } from '../middleware/telegram-auth.middleware';
 import { AdminRole } from '../models/admin.model';
 import {
   registerUser,
+  createTelegramSession,
   getUsers,
   getUserByTelegramId,
   updateUser,
@@ -12,9 +15,10 @@ import {
 
 const router = Router();
 
-// Public routes (registration only)
-router.post('/', registerUser);
-router.get('/telegram/:id', getUserByTelegramId);
+// Mini App routes, authenticated by Telegram initData or the user token it is exchanged for
+router.post('/', verifyTelegramInitData, registerUser);
+router.post('/telegram/session', verifyTelegramInitData, createTelegramSession);
+router.get('/telegram/:id', authenticate, getUserByTelegramId);
 
 // Admin-protected routes
 router.use(authenticateAdmin);
@@ -6,6 +6,7 @@ import { sendEmail } from './email.service';
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 const JWT_EXPIRES_IN = '1d';
 const INVITATION_EXPIRES_IN = 24 * 60 * 60 * 1000; // 24 hours
+const TELEGRAM_LINK_EXPIRES_IN = 15 * 60 * 1000; // 15 minutes
 
 export class AuthService {
   static async inviteAdmin(
@@ -190,11 +191,70 @@ export class AuthService {
         email: admin.email,
         firstName: admin.firstName,
         lastName: admin.lastName,
-        role: admin.role
+        role: admin.role,
+        telegramId: admin.telegramId
       }
     };
   }
 
+  static async createTelegramLinkCode(adminId: string) {
+    const admin = await Admin.findById(adminId);
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    // Short enough to type into the bot
+    const code = crypto.randomBytes(4).toString('hex').toUpperCase();
+    admin.telegramLinkCode = code;
+    admin.telegramLinkExpires = new Date(Date.now() + TELEGRAM_LINK_EXPIRES_IN);
+    await admin.save();
+
+    return {
+      success: true,
+      message: 'Send the command to the bot from your Telegram account',
+      data: { code, command: `/link ${code}`, expiresAt: admin.telegramLinkExpires }
+    };
+  }
+
+  static async linkTelegram(code: string, telegramId: number, chatId: string | number) {
+    const admin = await Admin.findOne({
+      telegramLinkCode: code.trim().toUpperCase(),
+      telegramLinkExpires: { $gt: new Date() },
+      status: AdminStatus.ACTIVE
+    });
+
+    if (!admin) {
+      throw new Error('Invalid or expired link code');
+    }
+
+    // A Telegram account can only act for one admin
+    await Admin.updateMany(
+      { telegramId, _id: { $ne: admin._id } },
+      { $unset: { telegramId: 1, telegramChatId: 1 } }
+    );
+
+    admin.telegramId = telegramId;
+    admin.telegramChatId = String(chatId);
+    admin.telegramLinkCode = undefined;
+    admin.telegramLinkExpires = undefined;
+    await admin.save();
+
+    return admin;
+  }
+
+  static async unlinkTelegram(adminId: string) {
+    const admin = await Admin.findByIdAndUpdate(
+      adminId,
+      { $unset: { telegramId: 1, telegramChatId: 1, telegramLinkCode: 1, telegramLinkExpires: 1 } },
+      { new: true }
+    );
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    return { success: true, message: 'Telegram account unlinked' };
+  }
+
   static async getAllAdmins(page = 1, limit = 10) {
     const skip = (page - 1) * limit;
     
@@ -3,13 +3,18 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs';
 import path from 'path';
+import { ProviderUnavailableError, isTransientHttpError } from './payment-verifiers/payment-verifier.registry';
 
 const execPromise = promisify(exec);
 
+// curl exit codes for DNS, connection, TLS and timeout failures, as opposed to a bad receipt
+const CURL_NETWORK_EXIT_CODES = [6, 7, 28, 35, 52, 56];
+
 export interface BankReceipt {
   transactionId: string;
   senderName: string;
   receiverName?: string;
+  receiverAccount?: string;
   amount: number;
   date: string;
   status: 'valid' | 'invalid';
@@ -40,9 +45,10 @@ export class BankVerifierService {
       return {
         transactionId: slip['Transaction Reference'] || transactionId,
         senderName: slip['Source Account Name'] || 'Unknown',
-        receiverName: slip['Destination Account Name'] || 'Reboot Adventures',
+        receiverName: slip['Destination Account Name'] || undefined,
+        receiverAccount: slip['Destination Account'] || slip['Destination Account Number'] || undefined,
         amount: amount,
-        date: slip['Transaction Date'] || new Date().toISOString(),
+        date: slip['Transaction Date'] || '',
         status: 'valid'
       };
     } catch (error: any) {
@@ -50,6 +56,9 @@ export class BankVerifierService {
       if (error.response?.status === 404) {
         throw new Error('BOA transaction not found');
       }
+      if (isTransientHttpError(error)) {
+        throw new ProviderUnavailableError('Bank of Abyssinia is not responding right now. Please try again shortly.');
+      }
       throw new Error(error.message || 'Failed to verify BOA transaction');
     }
   }
@@ -86,7 +95,9 @@ export class BankVerifierService {
 
           // 3. Parse text using regex
           const payerMatch = text.match(/Payer\s+(.+)/);
-          const beneficiaryMatch = text.match(/Transfer to\s+(.+)/) || text.match(/Beneficiary\s+(.+)/);
+          const beneficiaryMatch = text.match(/Receiver\s+(.+)/) || text.match(/Transfer to\s+(.+)/) || text.match(/Beneficiary\s+(.+)/);
+          // The receiver's (masked) account is the "Account" line following the receiver name
+          const receiverAccountMatch = text.match(/(?:Receiver|Transfer to|Beneficiary)\s+.+\n\s*Account\s+([0-9*]+)/);
           const amountMatch = text.match(/Transferred Amount\s+([\d,.]+)\s+ETB/);
           const dateMatch = text.match(/Payment Date & Time\s+(.+)/);
 
@@ -99,9 +110,10 @@ export class BankVerifierService {
           return {
             transactionId,
             senderName: payerMatch ? payerMatch[1].trim() : 'Unknown',
-            receiverName: beneficiaryMatch ? beneficiaryMatch[1].trim() : 'Reboot Adventures',
+            receiverName: beneficiaryMatch ? beneficiaryMatch[1].trim() : undefined,
+            receiverAccount: receiverAccountMatch ? receiverAccountMatch[1].trim() : undefined,
             amount: amount,
-            date: dateMatch ? dateMatch[1].trim() : new Date().toISOString(),
+            date: dateMatch ? dateMatch[1].trim() : '',
             status: 'valid'
           };
         } catch (error: any) {
@@ -110,6 +122,8 @@ export class BankVerifierService {
           if (attempt < maxAttempts) {
               console.log('Retrying CBE verification in 3s...');
               await new Promise(resolve => setTimeout(resolve, 3000));
+          } else if (CURL_NETWORK_EXIT_CODES.includes(error.code)) {
+              throw new ProviderUnavailableError('CBE is not responding right now. Please try again shortly.');
           } else {
               throw new Error(`Failed to verify CBE transaction after ${maxAttempts} attempts: ${error.message}`);
           }
@@ -0,0 +1,131 @@
+import { IEvent, ITicketTier } from '../models/events.model';
+import { EventRegistration, IEventRegistration } from '../models/event-registration.model';
+import { IRegistration } from '../interfaces/user.interface';
+import { waitlistService } from './waitlist.service';
+import { promoService } from './promo.service';
+import { paymentService } from './payment.service';
+
+export class BookingService {
+  /**
+   * Resolve the ticket tier for a booking; events with a single tier don't need one chosen
+   */
+  resolveTier(event: IEvent, tierId?: string): ITicketTier | undefined {
+    if (event.tiers.length === 0) {
+      return undefined;
+    }
+
+    const tier = tierId
+      ? event.tiers.find(t => t._id.toString() === String(tierId))
+      : event.tiers.length === 1 ? event.tiers[0] : undefined;
+
+    if (!tier) {
+      throw new Error(tierId ? 'Ticket tier not found for this event' : 'Please choose a ticket tier');
+    }
+    return tier;
+  }
+
+  /**
+   * Seats still free for an event, and for a tier's quota if given
+   */
+  async getRemainingSeats(event: IEvent, tier?: ITicketTier): Promise<number> {
+    const eventId = String(event._id);
+    const remaining = event.capacity - await waitlistService.countHeldSeats(eventId);
+
+    if (tier) {
+      const tierRemaining = tier.quota - await waitlistService.countHeldTierSeats(eventId, tier._id.toString());
+      return Math.max(0, Math.min(remaining, tierRemaining));
+    }
+    return Math.max(0, remaining);
+  }
+
+  /**
+   * Sign a user up for an event. Past capacity (or the tier's quota) they join the waitlist instead.
+   * A registration that was cancelled (or expired unpaid) is reopened as a fresh signup.
+   */
+  async signUp(
+    user: IRegistration,
+    event: IEvent,
+    options: { tierId?: string; promoCode?: string } = {}
+  ): Promise<IEventRegistration> {
+    if (!event.isActive) {
+      throw new Error('Event is not active');
+    }
+
+    const eventId = String(event._id);
+
+    const existingRegistration = await EventRegistration.findOne({ user: user._id, event: eventId });
+    if (existingRegistration && existingRegistration.status !== 'cancelled') {
+      throw new Error('User already registered for this event');
+    }
+
+    const tier = this.resolveTier(event, options.tierId);
+
+    // Check the promo code now so the user gets immediate feedback; it is applied when invoiced
+    if (options.promoCode) {
+      await promoService.validateCode(options.promoCode, String(user._id), eventId);
+    }
+
+    // Count and take the seat under the event's lock so the last seat is never sold twice
+    return waitlistService.withSeatLock(eventId, async () => {
+      const isFull = !(await waitlistService.hasRoom(event, tier?._id.toString()));
+
+      const signup = {
+        status: isFull ? 'waitlisted' : 'registered',
+        priceAtRegistration: tier ? tier.price : event.price,
+        tier: tier?._id,
+        tierName: tier?.name,
+        promoCode: options.promoCode || undefined,
+        waitlistPosition: isFull ? await waitlistService.getNextPosition(eventId) : undefined
+      } as const;
+
+      // The unique (user, event) index keeps one registration per user, so a cancelled one is reused
+      if (existingRegistration) {
+        const reopened = await EventRegistration.findOne({ _id: existingRegistration._id, status: 'cancelled' });
+        if (!reopened) {
+          throw new Error('User already registered for this event');
+        }
+
+        reopened.set({
+          ...signup,
+          registrationDate: new Date(),
+          checkedIn: false,
+          checkedInAt: undefined
+        });
+        await reopened.save();
+        return reopened;
+      }
+
+      const registration = new EventRegistration({
+        user: user._id,
+        event: eventId,
+        ...signup
+      });
+
+      await registration.save();
+      return registration;
+    });
+  }
+
+  /**
+   * Issue the invoice for a registration that holds a seat. The user is sent the
+   * payment method selection on Telegram if they have it linked.
+   */
+  async invoiceRegistration(
+    user: IRegistration,
+    event: IEvent,
+    registration: IEventRegistration
+  ): Promise<{ invoiceId: string; amount: number; message: string }> {
+    return paymentService.initializePayment(user, {
+      eventName: event.name,
+      amount: paymentService.getRegistrationAmount(event, registration),
+      place: event.location,
+      time: event.date,
+      eventId: String(event._id),
+      registrationId: String(registration._id),
+      tierName: registration.tierName,
+      promoCode: registration.promoCode
+    });
+  }
+}
+
+export const bookingService = new BookingService();
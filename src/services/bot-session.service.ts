@@ -0,0 +1,58 @@
+import { BotSession, BotStateName } from '../models/bot-session.model';
+
+/**
+ * What the bot is waiting for from a chat, with the arguments each state needs
+ */
+export type BotState =
+  | { name: 'awaiting_transaction_id'; invoiceId: string; method: string }
+  | { name: 'awaiting_memory_event'; fileId: string; caption: string }
+  // Collecting registration fields one at a time before booking `eventId`
+  | { name: 'registering'; eventId: string; tierId?: string; step: number; answers: Record<string, any> }
+  // Relaying messages to the support team after /support or a staff reply
+  | { name: 'in_support' };
+
+// How long each state waits for the user before timing out
+const STATE_TIMEOUT_MINUTES: Record<BotStateName, number> = {
+  awaiting_transaction_id: 30,
+  awaiting_memory_event: 15,
+  registering: 60,
+  in_support: 24 * 60
+};
+
+export class BotSessionService {
+  /**
+   * Current state of a chat, or null if it has none or it timed out
+   */
+  async get(chatId: string | number): Promise<BotState | null> {
+    // The TTL index only sweeps periodically, so check the expiry here too
+    const session = await BotSession.findOne({ chatId: String(chatId), expiresAt: { $gt: new Date() } });
+    if (!session) {
+      return null;
+    }
+
+    return { name: session.state, ...session.data } as BotState;
+  }
+
+  /**
+   * Move a chat into a state, replacing any previous one and restarting its timeout
+   */
+  async set(chatId: string | number, state: BotState): Promise<void> {
+    const { name, ...data } = state;
+    const expiresAt = new Date(Date.now() + STATE_TIMEOUT_MINUTES[name] * 60 * 1000);
+
+    await BotSession.findOneAndUpdate(
+      { chatId: String(chatId) },
+      { $set: { state: name, data, expiresAt } },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Return a chat to its default handling
+   */
+  async clear(chatId: string | number): Promise<void> {
+    await BotSession.deleteOne({ chatId: String(chatId) });
+  }
+}
+
+export const botSessionService = new BotSessionService();
@@ -0,0 +1,384 @@
+import mongoose from 'mongoose';
+import { Broadcast, BroadcastStatus, IAnnouncementContent, IBroadcast, IBroadcastMessage } from '../models/broadcast.model';
+import { BroadcastDelivery, BroadcastDeliveryStatus, IBroadcastDelivery } from '../models/broadcast-delivery.model';
+import { Registration } from '../models/user.model';
+import { ISegmentFilters } from '../models/segment.model';
+import { NotificationCategory } from '../interfaces/user.interface';
+import { segmentService } from './segment.service';
+import { TelegramService } from './telegram.service';
+import { DEFAULT_LANGUAGE, Language, SUPPORTED_LANGUAGES, formatDateTime, resolveLanguage, t } from '../i18n';
+
+// Telegram allows about 30 messages a second per bot; stay under it
+const MESSAGES_PER_SECOND = parseInt(process.env.TELEGRAM_BROADCAST_RATE || '25', 10);
+// How long one job keeps sending before handing over, so other jobs get a turn
+// and a long broadcast never outlives the job queue's lock timeout
+const SLICE_MS = parseInt(process.env.TELEGRAM_BROADCAST_SLICE_SECONDS || '60', 10) * 1000;
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BACKOFF_MS = 30 * 1000;
+// A delivery still marked sending after this long was interrupted by a restart
+const SENDING_TIMEOUT_MS = 2 * 60 * 1000;
+// How often a sending broadcast checks whether it was cancelled
+const CANCEL_CHECK_MS = 5 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const translationFor = (broadcast: IBroadcast, language: string): IBroadcastMessage | undefined =>
+  language === 'am' ? broadcast.translations?.am : undefined;
+
+export interface BroadcastProgress {
+  id: string;
+  status: IBroadcast['status'];
+  total: number;
+  sent: number;
+  failed: number;
+  remaining: number;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface BroadcastListOptions {
+  status?: BroadcastStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface BroadcastOptions {
+  translations?: IBroadcast['translations'];
+  category?: NotificationCategory;
+  segment?: mongoose.Types.ObjectId | string;
+  filters?: ISegmentFilters;
+  createdBy?: mongoose.Types.ObjectId | string;
+}
+
+export class BroadcastService {
+  /**
+   * Record a broadcast to send; the audience is resolved when sending starts
+   */
+  async create(message: IBroadcastMessage, options: BroadcastOptions = {}): Promise<IBroadcast> {
+    const { translations = {}, category, segment, filters, createdBy } = options;
+    return Broadcast.create({ message, translations, category, segment, filters, createdBy });
+  }
+
+  /**
+   * Render an admin's announcement as the message sent to users of a language
+   */
+  renderAnnouncement(content: IAnnouncementContent, lang: Language): IBroadcastMessage {
+    const title = (lang === 'am' && content.am?.title) || content.title;
+    const message = (lang === 'am' && content.am?.message) || content.message;
+
+    const parts: string[] = [];
+    if (title) {
+      parts.push(`📢 <b>${title}</b>`);
+    }
+    if (message) {
+      parts.push('', message);
+    }
+    if (content.location) {
+      parts.push('', t(lang, 'common.location', { location: content.location }));
+    }
+    if (content.time) {
+      parts.push('', t(lang, 'common.time', { time: formatDateTime(content.time, lang) }));
+    }
+    parts.push('', t(lang, 'common.tapToOpenWebApp'));
+
+    return {
+      text: parts.join('\n').trim(),
+      photo: content.photo || undefined,
+      options: {
+        reply_markup: {
+          inline_keyboard: [[{ text: t(lang, 'common.openWebApp'), web_app: { url: process.env.FRONTEND_URL } }]]
+        }
+      }
+    };
+  }
+
+  /**
+   * Set a broadcast's announcement content and re-render the messages sent from it
+   */
+  applyContent(broadcast: IBroadcast, content: IAnnouncementContent): void {
+    broadcast.content = content;
+    broadcast.message = this.renderAnnouncement(content, 'en');
+    broadcast.translations = { am: this.renderAnnouncement(content, 'am') };
+  }
+
+  /**
+   * Past and upcoming broadcasts, newest first, with their delivery counts
+   */
+  async list(options: BroadcastListOptions = {}) {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const query = options.status ? { status: options.status } : {};
+
+    const [broadcasts, total] = await Promise.all([
+      Broadcast.find(query)
+        .select('-translations')
+        .populate('createdBy', 'firstName lastName email')
+        .populate('segment', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Broadcast.countDocuments(query)
+    ]);
+
+    return {
+      broadcasts,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  /**
+   * Per-recipient results of a broadcast, optionally only those with one status
+   */
+  async getDeliveries(broadcastId: string, options: { status?: BroadcastDeliveryStatus; page?: number; limit?: number } = {}) {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const query: Record<string, any> = { broadcast: broadcastId };
+    if (options.status) {
+      query.status = options.status;
+    }
+
+    const [deliveries, total, counts] = await Promise.all([
+      BroadcastDelivery.find(query)
+        .select('chatId language status attempts lastError sentAt updatedAt')
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      BroadcastDelivery.countDocuments(query),
+      BroadcastDelivery.aggregate([
+        { $match: { broadcast: new mongoose.Types.ObjectId(broadcastId) } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    return {
+      summary: Object.fromEntries(counts.map(({ _id, count }) => [_id, count])),
+      deliveries,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  /**
+   * Send a broadcast to a single chat, once per language it has, so an admin can check how it looks
+   */
+  async sendTest(broadcast: IBroadcast, chatId: string | number) {
+    const telegramService = new TelegramService();
+    const results = [];
+
+    for (const language of SUPPORTED_LANGUAGES) {
+      const message = language === DEFAULT_LANGUAGE ? broadcast.message : translationFor(broadcast, language);
+      if (!message) continue;
+
+      const result = await telegramService.deliverMessage(chatId, message.text, message.options, message.photo);
+      results.push(result.ok ? { language, ok: true } : { language, ok: false, error: result.error });
+    }
+
+    return results;
+  }
+
+  /**
+   * Sent, failed and remaining counts for a broadcast
+   */
+  async getProgress(broadcastId: string): Promise<BroadcastProgress | null> {
+    const broadcast = await Broadcast.findById(broadcastId);
+    if (!broadcast) {
+      return null;
+    }
+
+    return {
+      id: String(broadcast._id),
+      status: broadcast.status,
+      total: broadcast.total,
+      sent: broadcast.sent,
+      failed: broadcast.failed,
+      remaining: Math.max(0, broadcast.total - broadcast.sent - broadcast.failed),
+      createdAt: broadcast.createdAt,
+      startedAt: broadcast.startedAt,
+      completedAt: broadcast.completedAt
+    };
+  }
+
+  /**
+   * Create a delivery for every subscribed user in the audience and start sending. Safe to repeat
+   * if interrupted part way. Returns false if the broadcast was cancelled or rescheduled meanwhile.
+   */
+  private async prepareDeliveries(broadcast: IBroadcast): Promise<boolean> {
+    const query = await segmentService.buildUserQuery(broadcast.filters, broadcast.category);
+    const users = await Registration.find(query).select('language telegramData');
+
+    const deliveries = [];
+    for (const user of users) {
+      const chatId = user.telegramData?.chatId || user.telegramData?.id;
+      if (chatId === null || chatId === undefined) continue;
+
+      const preferred = resolveLanguage(user);
+      deliveries.push({
+        broadcast: broadcast._id,
+        chatId: String(chatId),
+        language: translationFor(broadcast, preferred) ? preferred : DEFAULT_LANGUAGE
+      });
+    }
+
+    if (deliveries.length > 0) {
+      try {
+        await BroadcastDelivery.insertMany(deliveries, { ordered: false });
+      } catch (error: any) {
+        // Deliveries created before an interruption are already there
+        if (error.code !== 11000 && !error.writeErrors?.every((e: any) => e.code === 11000)) {
+          throw error;
+        }
+      }
+    }
+
+    const total = await BroadcastDelivery.countDocuments({ broadcast: broadcast._id });
+    const now = new Date();
+
+    // Conditional so a cancel or reschedule that landed while preparing is never overwritten
+    const started = await Broadcast.findOneAndUpdate(
+      { _id: broadcast._id, status: 'scheduled', scheduledAt: { $not: { $gt: now } } },
+      { $set: { status: 'sending', startedAt: now, total } },
+      { new: true }
+    );
+    return !!started;
+  }
+
+  /**
+   * Lock the next delivery that is due, or one left mid-send by a crashed worker
+   */
+  private async claimNext(broadcastId: string): Promise<IBroadcastDelivery | null> {
+    const now = new Date();
+
+    return BroadcastDelivery.findOneAndUpdate(
+      {
+        broadcast: broadcastId,
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: now } },
+          { status: 'sending', lockedAt: { $lt: new Date(now.getTime() - SENDING_TIMEOUT_MS) } }
+        ]
+      },
+      { $set: { status: 'sending', lockedAt: now }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Send a broadcast at Telegram's rate limit for up to one slice.
+   * Returns done, or when to continue (after a 429 pause or a retry backoff).
+   */
+  async sendSlice(broadcastId: string): Promise<{ done: boolean; resumeAt?: Date }> {
+    const broadcast = await Broadcast.findById(broadcastId);
+    if (!broadcast || (broadcast.status !== 'scheduled' && broadcast.status !== 'sending')) {
+      return { done: true };
+    }
+
+    if (broadcast.status === 'scheduled') {
+      // Rescheduled for later; the job queued for the new time sends it
+      if (broadcast.scheduledAt && broadcast.scheduledAt.getTime() > Date.now()) {
+        return { done: true };
+      }
+      if (!(await this.prepareDeliveries(broadcast))) {
+        console.log(`Broadcast ${broadcastId} was cancelled or rescheduled before sending`);
+        return { done: true };
+      }
+    }
+
+    const telegramService = new TelegramService();
+    const deadline = Date.now() + SLICE_MS;
+    const interval = 1000 / MESSAGES_PER_SECOND;
+    let nextSendAt = Date.now();
+    let nextCancelCheck = Date.now() + CANCEL_CHECK_MS;
+
+    while (Date.now() < deadline) {
+      if (Date.now() >= nextCancelCheck) {
+        if (await Broadcast.exists({ _id: broadcast._id, status: 'cancelled' })) {
+          console.log(`Broadcast ${broadcastId} cancelled while sending`);
+          return { done: true };
+        }
+        nextCancelCheck = Date.now() + CANCEL_CHECK_MS;
+      }
+
+      const delivery = await this.claimNext(broadcastId);
+
+      if (!delivery) {
+        const waiting = await BroadcastDelivery.findOne({ broadcast: broadcast._id, status: { $in: ['pending', 'sending'] } })
+          .sort({ nextAttemptAt: 1 });
+
+        if (!waiting) {
+          const finished = await Broadcast.findOneAndUpdate(
+            { _id: broadcast._id, status: 'sending' },
+            { $set: { status: 'sent', completedAt: new Date() } },
+            { new: true }
+          );
+          if (finished) {
+            console.log(`Broadcast ${broadcastId} finished: ${finished.sent} sent, ${finished.failed} failed`);
+          }
+          return { done: true };
+        }
+
+        // Only retries remain and none is due yet
+        return {
+          done: false,
+          resumeAt: waiting.status === 'pending' ? waiting.nextAttemptAt : new Date(Date.now() + SENDING_TIMEOUT_MS)
+        };
+      }
+
+      await sleep(Math.max(0, nextSendAt - Date.now()));
+
+      const message = translationFor(broadcast, delivery.language) || broadcast.message;
+      const result = await telegramService.deliverMessage(delivery.chatId, message.text, message.options, message.photo);
+      nextSendAt = Date.now() + interval;
+
+      if (result.ok) {
+        await BroadcastDelivery.updateOne(
+          { _id: delivery._id },
+          { $set: { status: 'sent', sentAt: new Date() }, $unset: { lockedAt: 1, lastError: 1 } }
+        );
+        await Broadcast.updateOne({ _id: broadcast._id }, { $inc: { sent: 1 } });
+        continue;
+      }
+
+      if (result.retryAfter) {
+        // Rate limited: the limit is per bot, so pause the whole broadcast. This attempt doesn't count.
+        nextSendAt = Date.now() + result.retryAfter * 1000;
+        await BroadcastDelivery.updateOne(
+          { _id: delivery._id },
+          {
+            $set: { status: 'pending', nextAttemptAt: new Date(nextSendAt), lastError: result.error },
+            $unset: { lockedAt: 1 },
+            $inc: { attempts: -1 }
+          }
+        );
+        console.warn(`Broadcast ${broadcastId} rate limited, pausing for ${result.retryAfter}s`);
+
+        if (nextSendAt >= deadline) {
+          return { done: false, resumeAt: new Date(nextSendAt) };
+        }
+        continue;
+      }
+
+      if (result.permanent || delivery.attempts >= MAX_DELIVERY_ATTEMPTS) {
+        await BroadcastDelivery.updateOne(
+          { _id: delivery._id },
+          { $set: { status: 'failed', lastError: result.error }, $unset: { lockedAt: 1 } }
+        );
+        await Broadcast.updateOne({ _id: broadcast._id }, { $inc: { failed: 1 } });
+      } else {
+        await BroadcastDelivery.updateOne(
+          { _id: delivery._id },
+          {
+            $set: {
+              status: 'pending',
+              nextAttemptAt: new Date(Date.now() + RETRY_BACKOFF_MS * 2 ** (delivery.attempts - 1)),
+              lastError: result.error
+            },
+            $unset: { lockedAt: 1 }
+          }
+        );
+      }
+    }
+
+    return { done: false, resumeAt: new Date() };
+  }
+}
+
+export const broadcastService = new BroadcastService();
@@ -0,0 +1,84 @@
+import { Invoice, IInvoice } from '../models/invoice.model';
+import { EventRegistration, IEventRegistration } from '../models/event-registration.model';
+import { Event, IEvent } from '../models/events.model';
+import { Registration } from '../models/user.model';
+import { IRegistration } from '../interfaces/user.interface';
+import { qrService } from './qr.service';
+
+export type CheckInOutcome =
+  | 'checked_in'
+  | 'already_checked_in'
+  | 'expired' // The event is over
+  | 'not_paid' // No paid invoice behind the ticket
+  | 'event_not_found'
+  | 'registration_not_found';
+
+export interface CheckInResult {
+  outcome: CheckInOutcome;
+  invoice: IInvoice | null;
+  user: IRegistration | null;
+  registration: IEventRegistration | null;
+  event: IEvent | null;
+}
+
+export class CheckInService {
+  /**
+   * Check in the holder of a signed ticket reference, as scanned from the ticket QR code.
+   * Throws if the reference is forged or the ticket was cancelled.
+   */
+  async checkInByReference(reference: string): Promise<CheckInResult> {
+    const ticket = await qrService.verifyTicketReference(reference);
+    return this.checkInByInvoiceId(ticket.invoiceId);
+  }
+
+  /**
+   * Check in the holder of the ticket issued for an invoice
+   */
+  async checkInByInvoiceId(invoiceId: string): Promise<CheckInResult> {
+    const invoice = await Invoice.findOne({ invoiceId });
+
+    const [user, registration, event] = await Promise.all([
+      invoice ? Registration.findById(invoice.user) : null,
+      invoice?.registration
+        ? EventRegistration.findById(invoice.registration)
+        : invoice?.event
+          ? EventRegistration.findOne({ user: invoice.user, event: invoice.event })
+          : null,
+      invoice?.event ? Event.findById(invoice.event) : null
+    ]);
+    const details = { invoice, user, registration, event };
+
+    if (!invoice || invoice.status !== 'paid') {
+      return { outcome: 'not_paid', ...details };
+    }
+
+    const status = qrService.determineTicketStatus(invoice, registration);
+    if (status === 'used') {
+      return { outcome: 'already_checked_in', ...details };
+    }
+    if (status === 'expired') {
+      return { outcome: 'expired', ...details };
+    }
+    if (!invoice.event) {
+      return { outcome: 'event_not_found', ...details };
+    }
+    if (!registration) {
+      return { outcome: 'registration_not_found', ...details };
+    }
+
+    // Claim the check-in so a ticket scanned at two gates at once only gets in once
+    const checkedIn = await EventRegistration.findOneAndUpdate(
+      { _id: registration._id, checkedIn: { $ne: true } },
+      { $set: { checkedIn: true, checkedInAt: new Date() } },
+      { new: true }
+    );
+    if (!checkedIn) {
+      return { outcome: 'already_checked_in', ...details, registration: await EventRegistration.findById(registration._id) };
+    }
+
+    console.log(`Ticket marked as used: ${invoice.invoiceId} for user ${user?.fullName}`);
+    return { outcome: 'checked_in', ...details, registration: checkedIn };
+  }
+}
+
+export const checkInService = new CheckInService();
@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+import { CreditTransaction, CreditTransactionType, ICreditTransaction } from '../models/credit-transaction.model';
+import { IInvoice } from '../models/invoice.model';
+
+// Tries before giving up when concurrent invoices keep spending the same credit
+const MAX_APPLY_ATTEMPTS = 3;
+
+export class CreditService {
+  /**
+   * Current credit balance for a user
+   */
+  async getBalance(userId: string | mongoose.Types.ObjectId): Promise<number> {
+    const result = await CreditTransaction.aggregate([
+      { $match: { user: new mongoose.Types.ObjectId(String(userId)) } },
+      { $group: { _id: null, balance: { $sum: '$amount' } } }
+    ]);
+
+    const balance = result.length > 0 ? result[0].balance : 0;
+    return Math.round(balance * 100) / 100;
+  }
+
+  /**
+   * Record a change to a user's credit balance
+   */
+  async addEntry(entry: {
+    user: string | mongoose.Types.ObjectId;
+    amount: number;
+    type: CreditTransactionType;
+    invoice?: mongoose.Types.ObjectId | unknown;
+    reference?: string;
+    referredUser?: string | mongoose.Types.ObjectId;
+    note?: string;
+    createdBy?: string;
+  }): Promise<ICreditTransaction> {
+    return CreditTransaction.create(entry);
+  }
+
+  /**
+   * Use as much of the user's credit as the invoice needs, recording it as a payment.
+   * Returns the amount applied; the caller saves the invoice.
+   */
+  async applyToInvoice(invoice: IInvoice): Promise<number> {
+    for (let attempt = 0; attempt < MAX_APPLY_ATTEMPTS; attempt++) {
+      const balance = await this.getBalance(invoice.user);
+      const applied = Math.round(Math.min(balance, invoice.balanceDue) * 100) / 100;
+
+      if (applied <= 0) {
+        return 0;
+      }
+
+      const entry = await this.addEntry({
+        user: invoice.user,
+        amount: -applied,
+        type: 'applied',
+        invoice: invoice._id,
+        note: `Applied to invoice ${invoice.invoiceId}`
+      });
+
+      // Another invoice may have spent the same credit meanwhile; undo ours and look again
+      if (await this.getBalance(invoice.user) < 0) {
+        await CreditTransaction.deleteOne({ _id: entry._id });
+        continue;
+      }
+
+      invoice.payments.push({
+        transactionId: `CREDIT-${invoice.invoiceId}-${Date.now()}`,
+        method: 'credit',
+        amount: applied,
+        paidAt: new Date()
+      });
+      invoice.amountPaid = (invoice.amountPaid || 0) + applied;
+
+      return applied;
+    }
+
+    console.warn(`Credit not applied to invoice ${invoice.invoiceId}: balance kept changing`);
+    return 0;
+  }
+
+  /**
+   * Credit history for a user, newest first
+   */
+  async getHistory(userId: string): Promise<ICreditTransaction[]> {
+    return CreditTransaction.find({ user: userId })
+      .populate('invoice', 'invoiceId amount status metadata')
+      .sort({ createdAt: -1 });
+  }
+}
+
+export const creditService = new CreditService();
@@ -0,0 +1,76 @@
+import { Registration } from '../models/user.model';
+import { Event } from '../models/events.model';
+import { Invoice } from '../models/invoice.model';
+import { EventRegistration } from '../models/event-registration.model';
+import { Refund } from '../models/refund.model';
+
+export interface DashboardStats {
+  totalUsers: number;
+  activeEvents: number;
+  totalRevenue: number;
+  totalRefunds: number;
+  pendingInvoices: number;
+}
+
+export interface DailyStats {
+  newUsers: number;
+  bookings: number;
+  payments: number;
+  revenue: number;
+  checkIns: number;
+}
+
+export class DashboardService {
+  /**
+   * All-time totals shown on the admin dashboard
+   */
+  async getStats(): Promise<DashboardStats> {
+    const [totalUsers, activeEvents, revenueData, refundData, pendingInvoices] = await Promise.all([
+      Registration.countDocuments(),
+      Event.countDocuments({ isActive: true }),
+      // Every invoice that was ever settled counts, including ones later cancelled or refunded
+      Invoice.aggregate([
+        { $match: { status: { $in: ['paid', 'cancelled', 'refunded'] }, paidAt: { $exists: true } } },
+        { $group: { _id: null, total: { $sum: '$amount' } } }
+      ]),
+      Refund.aggregate([
+        { $group: { _id: null, total: { $sum: '$amount' } } }
+      ]),
+      Invoice.countDocuments({ status: { $in: ['pending', 'partially_paid'] } })
+    ]);
+
+    // Refunds are negative entries against revenue
+    const totalRefunds = refundData.length > 0 ? refundData[0].total : 0;
+    const totalRevenue = (revenueData.length > 0 ? revenueData[0].total : 0) - totalRefunds;
+
+    return { totalUsers, activeEvents, totalRevenue, totalRefunds, pendingInvoices };
+  }
+
+  /**
+   * What happened since midnight (server time)
+   */
+  async getTodayStats(): Promise<DailyStats> {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+
+    const [newUsers, bookings, paymentData, checkIns] = await Promise.all([
+      Registration.countDocuments({ createdAt: { $gte: since } }),
+      EventRegistration.countDocuments({ createdAt: { $gte: since }, status: { $ne: 'cancelled' } }),
+      Invoice.aggregate([
+        { $match: { paidAt: { $gte: since }, status: { $in: ['paid', 'cancelled', 'refunded'] } } },
+        { $group: { _id: null, count: { $sum: 1 }, total: { $sum: '$amount' } } }
+      ]),
+      EventRegistration.countDocuments({ checkedInAt: { $gte: since } })
+    ]);
+
+    return {
+      newUsers,
+      bookings,
+      payments: paymentData[0]?.count || 0,
+      revenue: paymentData[0]?.total || 0,
+      checkIns
+    };
+  }
+}
+
+export const dashboardService = new DashboardService();
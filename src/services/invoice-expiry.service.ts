@@ -0,0 +1,126 @@
+import { Invoice, IInvoice } from '../models/invoice.model';
+import { IEvent } from '../models/events.model';
+import { EventRegistration } from '../models/event-registration.model';
+import { TelegramService } from './telegram.service';
+import { promoService } from './promo.service';
+import { creditService } from './credit.service';
+import { waitlistService } from './waitlist.service';
+import { t, resolveLanguage } from '../i18n';
+
+const OPEN_STATUSES: IInvoice['status'][] = ['pending', 'partially_paid'];
+
+export class InvoiceExpiryService {
+  /**
+   * When an invoice issued at `issuedAt` expires: after the event's payment deadline,
+   * but never later than the event itself
+   */
+  getExpiryDate(event: IEvent, issuedAt: Date): Date {
+    const deadline = issuedAt.getTime() + event.paymentDeadlineHours * 60 * 60 * 1000;
+    return new Date(Math.min(deadline, new Date(event.date).getTime()));
+  }
+
+  /**
+   * Times to remind the user to pay, earliest first, leaving out any at or after the expiry
+   */
+  getReminderTimes(event: IEvent, issuedAt: Date, expiresAt: Date): Date[] {
+    return [...new Set(event.paymentReminderHours || [])]
+      .sort((a, b) => a - b)
+      .map(hours => new Date(issuedAt.getTime() + hours * 60 * 60 * 1000))
+      .filter(time => time < expiresAt);
+  }
+
+  /**
+   * Send the `step`th payment reminder (0-based) for an invoice that is still open.
+   * Returns false if the invoice was settled or that reminder already went out.
+   */
+  async sendReminder(invoiceId: string, step: number, final: boolean): Promise<boolean> {
+    // Claim the reminder so a retried job never sends it twice
+    const invoice = await Invoice.findOneAndUpdate(
+      { invoiceId, status: { $in: OPEN_STATUSES }, remindersSent: step },
+      { $inc: { remindersSent: 1 } },
+      { new: true }
+    );
+
+    if (!invoice) {
+      return false;
+    }
+
+    const telegramService = new TelegramService();
+    return telegramService.sendPaymentReminder(invoiceId, final);
+  }
+
+  /**
+   * Cancel an open invoice whose deadline has passed, release its seat and promo code use,
+   * return any partial payment to credit and tell the user
+   */
+  async expireInvoice(invoiceId: string): Promise<IInvoice | null> {
+    const now = new Date();
+
+    const invoice = await Invoice.findOneAndUpdate(
+      { invoiceId, status: { $in: OPEN_STATUSES }, expiresAt: { $lte: now } },
+      { $set: { status: 'cancelled', expiredAt: now } },
+      { new: true }
+    );
+
+    if (!invoice) {
+      return null;
+    }
+
+    await promoService.releaseForInvoice(invoice._id);
+
+    if (invoice.amountPaid > 0) {
+      await creditService.addEntry({
+        user: invoice.user,
+        amount: invoice.amountPaid,
+        type: 'adjustment',
+        invoice: invoice._id,
+        note: `Returned from expired invoice ${invoice.invoiceId}`
+      });
+    }
+
+    const registration = invoice.registration
+      ? await EventRegistration.findById(invoice.registration)
+      : invoice.event
+        ? await EventRegistration.findOne({ user: invoice.user, event: invoice.event })
+        : null;
+
+    // An unpaid registration gives up its seat; one paid through another invoice keeps it
+    let released = false;
+    if (registration) {
+      const result = await EventRegistration.updateOne(
+        { _id: registration._id, status: { $in: ['registered', 'payment_initiated'] } },
+        { $set: { status: 'cancelled' } }
+      );
+      released = result.modifiedCount > 0;
+    }
+
+    const { Registration } = await import('../models/user.model');
+    const user = await Registration.findById(invoice.user);
+    const chatId = user?.telegramData?.chatId || user?.telegramData?.id;
+
+    if (chatId) {
+      const lang = resolveLanguage(user);
+      const message = [
+        t(lang, 'expiry.notice', { event: invoice.metadata?.eventName || t(lang, 'payment.yourEvent'), invoiceId: invoice.invoiceId }),
+        released ? t(lang, 'expiry.released') : '',
+        invoice.amountPaid > 0 ? t(lang, 'expiry.credited', { amount: invoice.amountPaid, currency: invoice.currency }) : '',
+        t(lang, 'expiry.bookAgain')
+      ].filter(Boolean).join('\n\n');
+
+      try {
+        await new TelegramService().sendMessage(chatId, message);
+      } catch (notifyError) {
+        console.error('Failed to send invoice expiry notice:', notifyError);
+      }
+    }
+
+    if (released && invoice.event) {
+      await waitlistService.promoteNext(String(invoice.event));
+    }
+
+    console.log(`Invoice ${invoice.invoiceId} expired${released ? ', seat released' : ''}`);
+    return invoice;
+  }
+}
+
+export const invoiceExpiryService = new InvoiceExpiryService();
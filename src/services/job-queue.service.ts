@@ -0,0 +1,165 @@
+import os from 'os';
+import { IJob, Job } from '../models/job.model';
+
+export type JobHandler = (payload: Record<string, any>, job: IJob) => Promise<void>;
+
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  // Identifies this process when several instances share the queue
+  private readonly workerId = `${os.hostname()}-${process.pid}`;
+  private readonly pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000', 10);
+  // A job locked for longer than this is assumed to belong to a crashed worker
+  private readonly lockTimeoutMs = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || String(10 * 60 * 1000), 10);
+  private readonly baseBackoffMs = 30 * 1000;
+  private readonly maxBackoffMs = 60 * 60 * 1000;
+
+  /**
+   * Register the handler that runs jobs of a type
+   */
+  register(type: string, handler: JobHandler): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`Job handler already registered: ${type}`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue, to run as soon as possible or at `runAt`
+   */
+  async enqueue(
+    type: string,
+    payload: Record<string, any> = {},
+    options: { runAt?: Date; maxAttempts?: number } = {}
+  ): Promise<IJob> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No job handler registered for ${type}`);
+    }
+
+    const job = await Job.create({
+      type,
+      payload,
+      runAt: options.runAt || new Date(),
+      maxAttempts: options.maxAttempts
+    });
+
+    // Pick up immediate jobs without waiting for the next poll
+    if (job.runAt <= new Date()) {
+      setImmediate(() => this.processDue());
+    }
+
+    return job;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.processDue(), this.pollIntervalMs);
+    console.log(`Job queue worker ${this.workerId} started`);
+  }
+
+  /**
+   * Stop polling; a job already running is allowed to finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run due jobs one at a time until none are left
+   */
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let job = await this.claimNext();
+      while (job) {
+        await this.runJob(job);
+        job = await this.claimNext();
+      }
+    } catch (error) {
+      console.error('Job queue processing error:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Atomically lock the next due job so no other instance runs it
+   */
+  private async claimNext(): Promise<IJob | null> {
+    const now = new Date();
+
+    return Job.findOneAndUpdate(
+      {
+        type: { $in: Array.from(this.handlers.keys()) },
+        $or: [
+          { status: 'pending', runAt: { $lte: now } },
+          { status: 'running', lockedAt: { $lt: new Date(now.getTime() - this.lockTimeoutMs) } }
+        ]
+      },
+      {
+        $set: { status: 'running', lockedAt: now, lockedBy: this.workerId },
+        $inc: { attempts: 1 }
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Run a claimed job, scheduling a retry with exponential backoff if it fails
+   */
+  private async runJob(job: IJob): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+
+    try {
+      await handler(job.payload, job);
+
+      job.status = 'completed';
+      job.completedAt = new Date();
+      job.lastError = undefined;
+    } catch (error: any) {
+      console.error(`Job ${job._id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+      job.lastError = error?.message || String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        job.status = 'failed';
+      } else {
+        const backoff = Math.min(this.baseBackoffMs * 2 ** (job.attempts - 1), this.maxBackoffMs);
+        job.status = 'pending';
+        job.runAt = new Date(Date.now() + backoff);
+      }
+    }
+
+    job.lockedAt = undefined;
+    job.lockedBy = undefined;
+    await job.save();
+  }
+
+  /**
+   * Put a failed job back on the queue with a fresh set of attempts
+   */
+  async retry(jobId: string): Promise<IJob | null> {
+    const job = await Job.findOneAndUpdate(
+      { _id: jobId, status: 'failed' },
+      { $set: { status: 'pending', attempts: 0, runAt: new Date() }, $unset: { lastError: 1 } },
+      { new: true }
+    );
+
+    if (job) {
+      setImmediate(() => this.processDue());
+    }
+
+    return job;
+  }
+}
+
+export const jobQueue = new JobQueueService();
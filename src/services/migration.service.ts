@@ -0,0 +1,63 @@
+import { migrations, DataMigration, MigrationReport } from '../migrations';
+import { MigrationRecord } from '../models/migration.model';
+
+export class MigrationService {
+  /**
+   * Migrations that have not completed yet, in order
+   */
+  async getPending(): Promise<DataMigration[]> {
+    const completed = await MigrationRecord.find({ status: 'completed' }).distinct('name');
+    return migrations.filter(m => !completed.includes(m.name));
+  }
+
+  /**
+   * Run one migration and record its report, whether it succeeds or fails
+   */
+  async run(migration: DataMigration): Promise<MigrationReport> {
+    console.log(`Running migration ${migration.name}: ${migration.description}`);
+
+    try {
+      const report = await migration.up();
+
+      await MigrationRecord.findOneAndUpdate(
+        { name: migration.name },
+        { description: migration.description, status: 'completed', report, error: undefined, appliedAt: new Date() },
+        { upsert: true }
+      );
+
+      console.log(`Migration ${migration.name}: scanned ${report.scanned}, updated ${report.updated}, unresolved ${report.unresolved.length}`);
+      return report;
+    } catch (error: any) {
+      await MigrationRecord.findOneAndUpdate(
+        { name: migration.name },
+        { description: migration.description, status: 'failed', error: error.message, appliedAt: new Date() },
+        { upsert: true }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Run every pending migration in order, stopping at the first failure
+   */
+  async runPending(): Promise<{ name: string; report: MigrationReport }[]> {
+    const results = [];
+    for (const migration of await this.getPending()) {
+      results.push({ name: migration.name, report: await this.run(migration) });
+    }
+    return results;
+  }
+
+  /**
+   * Re-run a migration by name, e.g. after fixing data it reported as unresolved
+   */
+  async rerun(name: string): Promise<MigrationReport> {
+    const migration = migrations.find(m => m.name === name);
+    if (!migration) {
+      throw new Error(`Unknown migration: ${name}`);
+    }
+    return this.run(migration);
+  }
+}
+
+export const migrationService = new MigrationService();
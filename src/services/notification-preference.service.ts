@@ -0,0 +1,82 @@
+import { FilterQuery } from 'mongoose';
+import { Registration } from '../models/user.model';
+import { IRegistration, NotificationCategory } from '../interfaces/user.interface';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['events', 'reminders', 'payments', 'gallery'];
+
+export const isNotificationCategory = (value: unknown): value is NotificationCategory =>
+  typeof value === 'string' && (NOTIFICATION_CATEGORIES as string[]).includes(value);
+
+// Chat IDs are stored as numbers or strings depending on where they came from
+const chatIdQuery = (chatId: string | number): FilterQuery<IRegistration> => {
+  const ids = [String(chatId), Number(chatId)].filter(id => id === id); // Drops NaN
+  return { $or: [{ 'telegramData.chatId': { $in: ids } }, { 'telegramData.id': { $in: ids } }] };
+};
+
+export class NotificationPreferenceService {
+  /**
+   * Whether a user should get a message of a category. Without a category only the overall
+   * subscription counts, as for general announcements.
+   */
+  wants(user: Pick<IRegistration, 'telegramData' | 'notificationPreferences'> | null | undefined, category?: NotificationCategory): boolean {
+    if (!user || user.telegramData?.is_subscribed === false) {
+      return false;
+    }
+    return !category || user.notificationPreferences?.[category] !== false;
+  }
+
+  /**
+   * Mongo conditions matching users who want messages of a category
+   */
+  audienceQuery(category?: NotificationCategory): FilterQuery<IRegistration> {
+    const query: FilterQuery<IRegistration> = { 'telegramData.is_subscribed': true };
+    if (category) {
+      // Users from before preferences existed have none stored and get everything
+      query[`notificationPreferences.${category}`] = { $ne: false };
+    }
+    return query;
+  }
+
+  /**
+   * Turn one category on or off, returning the user's updated preferences
+   */
+  async toggle(telegramId: number, category: NotificationCategory): Promise<IRegistration | null> {
+    const user = await Registration.findOne({ 'telegramData.id': telegramId }).select('notificationPreferences');
+    if (!user) {
+      return null;
+    }
+
+    const enabled = user.notificationPreferences?.[category] !== false;
+    return Registration.findByIdAndUpdate(
+      user._id,
+      { $set: { [`notificationPreferences.${category}`]: !enabled } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Pause or resume every notification for a Telegram user
+   */
+  async setSubscribed(telegramId: number, subscribed: boolean): Promise<IRegistration | null> {
+    return Registration.findOneAndUpdate(
+      { 'telegramData.id': telegramId },
+      { $set: { 'telegramData.is_subscribed': subscribed } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Unsubscribe the user behind a chat Telegram refuses to deliver to, e.g. after they blocked the bot
+   */
+  async markUnreachable(chatId: string | number): Promise<void> {
+    const result = await Registration.updateMany(
+      { ...chatIdQuery(chatId), 'telegramData.is_subscribed': { $ne: false } },
+      { $set: { 'telegramData.is_subscribed': false } }
+    );
+    if (result.modifiedCount > 0) {
+      console.log(`Unsubscribed Telegram chat ${chatId}: bot was blocked or the account is gone`);
+    }
+  }
+}
+
+export const notificationPreferenceService = new NotificationPreferenceService();
@@ -0,0 +1,29 @@
+import { PaymentVerifier, VerifiedReceipt } from './payment-verifier.registry';
+import { parseEnvList } from './receiver-check';
+import { parseReceiptDate } from './receipt-date';
+import { bankVerifierService } from '../bank-verifier.service';
+
+export const boaVerifier: PaymentVerifier = {
+  key: 'boa',
+  displayName: 'BOA',
+  accountLabel: 'BOA Account',
+
+  getReceivingAccount() {
+    return process.env.BOA_ACCOUNT_NUMBER;
+  },
+
+  getReceiverNames() {
+    return parseEnvList(process.env.BOA_ACCOUNT_NAME);
+  },
+
+  matchesTransactionId(transactionId: string) {
+    const tid = transactionId.trim().toUpperCase();
+    return tid.startsWith('CFT') || tid.startsWith('DFT');
+  },
+
+  async verify(transactionId: string): Promise<VerifiedReceipt> {
+    const receipt = await bankVerifierService.verifyBOA(transactionId);
+    // BOA "Transaction Date", e.g. "05/01/25 14:23"
+    return { ...receipt, paidAt: parseReceiptDate(receipt.date, 'dmy') || undefined };
+  }
+};
@@ -0,0 +1,28 @@
+import { PaymentVerifier, VerifiedReceipt } from './payment-verifier.registry';
+import { parseEnvList } from './receiver-check';
+import { parseReceiptDate } from './receipt-date';
+import { bankVerifierService } from '../bank-verifier.service';
+
+export const cbeVerifier: PaymentVerifier = {
+  key: 'cbe',
+  displayName: 'CBE',
+  accountLabel: 'CBE Account',
+
+  getReceivingAccount() {
+    return process.env.CBE_ACCOUNT_NUMBER;
+  },
+
+  getReceiverNames() {
+    return parseEnvList(process.env.CBE_ACCOUNT_NAME);
+  },
+
+  matchesTransactionId(transactionId: string) {
+    return transactionId.trim().toUpperCase().startsWith('FT');
+  },
+
+  async verify(transactionId: string): Promise<VerifiedReceipt> {
+    const receipt = await bankVerifierService.verifyCBE(transactionId);
+    // CBE "Payment Date & Time", e.g. "1/5/2025, 2:23:11 PM"
+    return { ...receipt, paidAt: parseReceiptDate(receipt.date, 'mdy') || undefined };
+  }
+};
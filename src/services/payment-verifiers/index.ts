@@ -0,0 +1,17 @@
+import { PaymentVerifierRegistry } from './payment-verifier.registry';
+import { telebirrVerifier } from './telebirr.verifier';
+import { cbeVerifier } from './cbe.verifier';
+import { boaVerifier } from './boa.verifier';
+
+export { PaymentVerifierRegistry, ProviderUnavailableError } from './payment-verifier.registry';
+export type { PaymentVerifier, VerifiedReceipt } from './payment-verifier.registry';
+export { checkReceiver } from './receiver-check';
+export { parseReceiptDate, getReceiptGraceMs } from './receipt-date';
+
+export const paymentVerifierRegistry = new PaymentVerifierRegistry();
+
+// Order matters: keyboard buttons follow it and IDs are matched against it.
+// Telebirr is the fallback for IDs no bank claims.
+paymentVerifierRegistry.register(telebirrVerifier, { isDefault: true });
+paymentVerifierRegistry.register(cbeVerifier);
+paymentVerifierRegistry.register(boaVerifier);
@@ -0,0 +1,90 @@
+export interface VerifiedReceipt {
+  transactionId: string;
+  senderName: string;
+  receiverName?: string;
+  receiverAccount?: string; // Account or phone number credited, possibly masked
+  amount: number;
+  date: string; // Date text exactly as printed on the receipt
+  paidAt?: Date; // `date` parsed into a real timestamp, when it could be read
+  status: 'valid' | 'invalid';
+}
+
+/**
+ * The provider could not be reached or failed on its side (timeout, network or server error).
+ * Unlike an invalid receipt, checking the same transaction again later may succeed.
+ */
+export class ProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * Whether an HTTP request failed for a reason worth retrying: no response at all, or a 5xx
+ */
+export const isTransientHttpError = (error: any): boolean =>
+  error?.code === 'ECONNABORTED' || (!!error?.isAxiosError && !error.response) || error?.response?.status >= 500;
+
+/**
+ * A payment provider whose receipts we can verify from a transaction ID.
+ * Adding a bank means implementing this interface and registering it in ./index.ts
+ */
+export interface PaymentVerifier {
+  /** Short key used in callbacks and API payloads, e.g. 'cbe'. Must not contain '_' */
+  readonly key: string;
+  /** Label on the payment method keyboard, e.g. 'CBE' */
+  readonly displayName: string;
+  /** Name used in payment instructions, e.g. 'CBE Account' */
+  readonly accountLabel: string;
+
+  /** Account or phone number users should transfer to */
+  getReceivingAccount(): string | undefined;
+
+  /** Account holder names a valid receipt may be credited to */
+  getReceiverNames(): string[];
+
+  /** Whether a transaction ID looks like it was issued by this provider */
+  matchesTransactionId(transactionId: string): boolean;
+
+  /** Fetch and parse the provider's receipt for a transaction */
+  verify(transactionId: string): Promise<VerifiedReceipt>;
+}
+
+export class PaymentVerifierRegistry {
+  private readonly verifiers = new Map<string, PaymentVerifier>();
+  private defaultKey?: string;
+
+  /**
+   * Register a verifier. Verifiers are matched against transaction IDs in registration order
+   */
+  register(verifier: PaymentVerifier, options: { isDefault?: boolean } = {}): void {
+    if (verifier.key.includes('_')) {
+      throw new Error(`Payment verifier key "${verifier.key}" must not contain '_'`);
+    }
+    this.verifiers.set(verifier.key, verifier);
+    if (options.isDefault) {
+      this.defaultKey = verifier.key;
+    }
+  }
+
+  get(key?: string): PaymentVerifier | undefined {
+    return key ? this.verifiers.get(key.toLowerCase()) : undefined;
+  }
+
+  getAll(): PaymentVerifier[] {
+    return Array.from(this.verifiers.values());
+  }
+
+  getDefault(): PaymentVerifier | undefined {
+    return this.get(this.defaultKey);
+  }
+
+  /**
+   * Detect which provider issued a transaction ID, falling back to the default verifier
+   */
+  detect(transactionId: string): PaymentVerifier | undefined {
+    const tid = transactionId.trim().toUpperCase();
+    return this.getAll().find(v => v.key !== this.defaultKey && v.matchesTransactionId(tid)) || this.getDefault();
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Receipt timestamps come back as free text in each provider's own format and
+ * in Ethiopian local time (EAT, UTC+3). This turns them into real Dates.
+ */
+
+const EAT_OFFSET_HOURS = 3;
+
+// e.g. "05-01-2025 14:23:11", "1/5/2025, 2:23:11 PM", "2025-01-05 14:23", "05/01/25 14:23"
+const DATE_TIME_PATTERN =
+  /(\d{1,4})[/.-](\d{1,2})[/.-](\d{2,4})(?:[,\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?/i;
+
+/**
+ * Parse a provider date string.
+ * @param raw Date text as it appears on the receipt
+ * @param order Day/month order used by the provider when the year is not first
+ */
+export const parseReceiptDate = (raw: string | undefined, order: 'dmy' | 'mdy'): Date | null => {
+  if (!raw) return null;
+  const text = raw.trim();
+
+  // Already a full ISO timestamp with a zone
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = text.match(DATE_TIME_PATTERN);
+  if (!match) return null;
+
+  const [, a, b, c, hh = '0', mm = '0', ss = '0', meridiem] = match;
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (a.length === 4) {
+    [year, month, day] = [Number(a), Number(b), Number(c)];
+  } else if (order === 'mdy') {
+    [month, day, year] = [Number(a), Number(b), Number(c)];
+  } else {
+    [day, month, year] = [Number(a), Number(b), Number(c)];
+  }
+
+  if (year < 100) year += 2000;
+
+  let hours = Number(hh);
+  if (meridiem) {
+    const isPm = meridiem.toUpperCase() === 'PM';
+    if (hours === 12) hours = isPm ? 12 : 0;
+    else if (isPm) hours += 12;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || Number(mm) > 59 || Number(ss) > 59) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day, hours - EAT_OFFSET_HOURS, Number(mm), Number(ss)));
+
+  // Reject roll-overs such as 31/02
+  const local = new Date(date.getTime() + EAT_OFFSET_HOURS * 60 * 60 * 1000);
+  if (local.getUTCDate() !== day || local.getUTCMonth() !== month - 1) {
+    return null;
+  }
+
+  return date;
+};
+
+/**
+ * How long before an invoice was created a receipt may still be dated (clock drift,
+ * users paying while the invoice is being sent). Configurable via RECEIPT_GRACE_MINUTES.
+ */
+export const getReceiptGraceMs = (): number => {
+  const minutes = parseInt(process.env.RECEIPT_GRACE_MINUTES || '', 10);
+  return (isNaN(minutes) || minutes < 0 ? 30 : minutes) * 60 * 1000;
+};
@@ -0,0 +1,109 @@
+import { PaymentVerifier, VerifiedReceipt } from './payment-verifier.registry';
+
+/**
+ * Split a comma-separated env value into trimmed, non-empty entries
+ */
+export const parseEnvList = (value?: string): string[] =>
+  (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9ሀ-፿]+/g, ' ').trim();
+
+// A truncated name must still show this much of ours to count as a match
+const MIN_PARTIAL_NAME_LENGTH = 8;
+
+/**
+ * Compare a (possibly masked) account or phone number from a receipt with ours.
+ * Receipts often hide the middle digits, e.g. "1000****5678" or "2519****1234",
+ * so only the visible leading and trailing digits have to agree.
+ */
+export const accountsMatch = (receiptAccount: string, expected: string): boolean => {
+  const toDigits = (value: string) => value.replace(/[^0-9*]/g, '');
+  // Phone numbers may be written as +2519..., 2519... or 09...
+  const toLocal = (value: string) => value.replace(/^251(?=[79])/, '0');
+
+  const actual = toLocal(toDigits(receiptAccount));
+  const ours = toLocal(toDigits(expected));
+
+  if (!actual || !ours) return false;
+  if (!actual.includes('*')) return actual === ours;
+
+  const [prefix] = actual.split('*');
+  const suffix = actual.split('*').pop() || '';
+  if (!prefix && !suffix) return false;
+
+  return ours.startsWith(prefix) && ours.endsWith(suffix) && prefix.length + suffix.length <= ours.length;
+};
+
+/**
+ * Receipt names are sometimes cut off at the end, e.g. "Reboot Adven", so a shorter name
+ * matches if it agrees word by word from the start and only its last word is truncated
+ */
+export const namesMatch = (receiptName: string, expected: string): boolean => {
+  const actual = normalizeName(receiptName);
+  const ours = normalizeName(expected);
+  if (!actual || !ours) return false;
+  if (actual === ours) return true;
+
+  const [shorter, longer] = actual.length < ours.length ? [actual, ours] : [ours, actual];
+  if (shorter.length < MIN_PARTIAL_NAME_LENGTH) return false;
+
+  const shortWords = shorter.split(' ');
+  const longWords = longer.split(' ');
+  return shortWords.every((word, i) =>
+    i === shortWords.length - 1 ? !!longWords[i]?.startsWith(word) : word === longWords[i]
+  );
+};
+
+/**
+ * Check that a receipt was paid into one of our configured accounts
+ */
+export const checkReceiver = (
+  verifier: PaymentVerifier,
+  receipt: VerifiedReceipt
+): { valid: boolean; reason?: string } => {
+  const expectedAccount = verifier.getReceivingAccount();
+  const expectedNames = verifier.getReceiverNames();
+
+  // Without an account to compare against, no receipt can be trusted automatically
+  if (!expectedAccount && expectedNames.length === 0) {
+    console.error(`No receiving account configured for ${verifier.displayName}; payments need manual review`);
+    return {
+      valid: false,
+      reason: `We could not confirm the receiving account for ${verifier.displayName} payments.`
+    };
+  }
+
+  const receiptAccount = receipt.receiverAccount?.trim();
+  const receiptName = receipt.receiverName && receipt.receiverName !== 'Unknown' ? receipt.receiverName.trim() : undefined;
+  let checked = false;
+
+  if (expectedAccount && receiptAccount) {
+    checked = true;
+    if (!accountsMatch(receiptAccount, expectedAccount)) {
+      return {
+        valid: false,
+        reason: `This payment was sent to ${verifier.accountLabel} ${receiptAccount}, not to our account ${expectedAccount}.`
+      };
+    }
+  }
+
+  if (expectedNames.length > 0 && receiptName) {
+    checked = true;
+    if (!expectedNames.some(name => namesMatch(receiptName, name))) {
+      return {
+        valid: false,
+        reason: `This payment was sent to "${receiptName}", not to ${expectedNames[0]}.`
+      };
+    }
+  }
+
+  if (!checked) {
+    return {
+      valid: false,
+      reason: 'We could not read the receiving account from this receipt.'
+    };
+  }
+
+  return { valid: true };
+};
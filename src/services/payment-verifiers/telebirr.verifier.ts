@@ -0,0 +1,28 @@
+import { PaymentVerifier, VerifiedReceipt } from './payment-verifier.registry';
+import { parseEnvList } from './receiver-check';
+import { parseReceiptDate } from './receipt-date';
+import { telebirrService } from '../telebirr.service';
+
+export const telebirrVerifier: PaymentVerifier = {
+  key: 'telebirr',
+  displayName: 'Telebirr',
+  accountLabel: 'Telebirr',
+
+  getReceivingAccount() {
+    return process.env.TELEBIRR_PHONE_NUMBER;
+  },
+
+  getReceiverNames() {
+    return parseEnvList(process.env.TELEBIRR_RECEIVER_NAME);
+  },
+
+  matchesTransactionId(transactionId: string) {
+    return /^[A-Z0-9]{10}$/i.test(transactionId.trim());
+  },
+
+  async verify(transactionId: string): Promise<VerifiedReceipt> {
+    const receipt = await telebirrService.verifyTransaction(transactionId);
+    // Telebirr receipt table, e.g. "05-01-2025 14:23:11"
+    return { ...receipt, paidAt: parseReceiptDate(receipt.date, 'dmy') || undefined };
+  }
+};
@@ -1,8 +1,15 @@
 import { IRegistration } from '../interfaces/user.interface';
 import { Registration } from '../models/user.model';
 import { TelegramService } from './telegram.service';
-import { telebirrService } from './telebirr.service';
+import { paymentVerifierRegistry, checkReceiver, getReceiptGraceMs, VerifiedReceipt, ProviderUnavailableError } from './payment-verifiers';
+import { IInvoice, IInvoicePayment } from '../models/invoice.model';
 import { qrService } from './qr.service';
+import { promoService } from './promo.service';
+import { creditService } from './credit.service';
+import { referralService } from './referral.service';
+import { IEvent } from '../models/events.model';
+import { IEventRegistration } from '../models/event-registration.model';
+import { t, resolveLanguage } from '../i18n';
 
 export class PaymentService {
   
@@ -19,13 +26,21 @@ export class PaymentService {
    * Detect payment method based on transaction ID prefix
    */
   public static detectPaymentMethod(transactionId: string): string {
-    const tid = transactionId.trim().toUpperCase();
-    if (tid.startsWith('FT')) {
-      return 'cbe';
-    } else if (tid.startsWith('CFT') || tid.startsWith('DFT')) {
-      return 'boa';
+    return paymentVerifierRegistry.detect(transactionId)?.key || 'telebirr';
+  }
+
+  /**
+   * Resolve the amount to invoice for a registration: its tier's price,
+   * falling back to the price captured at signup, then the event price
+   */
+  public getRegistrationAmount(event: IEvent, registration: IEventRegistration): number {
+    if (registration.tier) {
+      const tier = event.tiers?.find(t => t._id.toString() === registration.tier!.toString());
+      if (tier) {
+        return tier.price;
+      }
     }
-    return 'telebirr';
+    return registration.priceAtRegistration ?? event.price;
   }
 
   /**
@@ -39,8 +54,11 @@ export class PaymentService {
       place: string;
       time: Date;
       eventId?: string;
+      registrationId?: string;
+      tierName?: string;
+      promoCode?: string;
     }
-  ): Promise<{ invoiceId: string; message: string }> {
+  ): Promise<{ invoiceId: string; amount: number; message: string }> {
     try {
       const invoiceId = this.generateInvoiceId();
       
@@ -52,19 +70,81 @@ export class PaymentService {
         invoiceId: invoiceId,
         user: user._id,
         event: invoiceData.eventId,
+        registration: invoiceData.registrationId,
         amount: invoiceData.amount,
+        originalAmount: invoiceData.amount,
+        discountAmount: 0,
+        referralCode: user.referral?.code,
         status: 'pending',
         metadata: {
           eventName: invoiceData.eventName,
           place: invoiceData.place,
-          time: invoiceData.time
+          time: invoiceData.time,
+          tierName: invoiceData.tierName
         },
         createdAt: new Date(),
         updatedAt: new Date()
       });
 
+      // Apply promo code; a code that is no longer valid falls back to the full price
+      let promo = null;
+      if (invoiceData.promoCode) {
+        try {
+          promo = await promoService.validateCode(invoiceData.promoCode, user._id.toString(), invoiceData.eventId);
+          const discount = promoService.calculateDiscount(promo, invoiceData.amount);
+          invoice.discountAmount = discount;
+          invoice.amount = invoiceData.amount - discount;
+          invoice.promoCode = promo.code;
+        } catch (promoError: any) {
+          console.warn(`Promo code ${invoiceData.promoCode} not applied for user ${user._id}:`, promoError.message);
+        }
+      }
+
       await invoice.save();
 
+      if (promo) {
+        try {
+          await promoService.redeem(promo, invoice, invoiceData.amount, invoice.discountAmount || 0);
+        } catch (redeemError: any) {
+          // Lost the race for the last use of the code
+          console.warn(`Promo code ${promo.code} could not be redeemed:`, redeemError.message);
+          invoice.amount = invoiceData.amount;
+          invoice.discountAmount = 0;
+          invoice.promoCode = undefined;
+          await invoice.save();
+        }
+      }
+
+      // The registration now waits on this invoice, which releases its seat if it expires unpaid
+      if (invoiceData.registrationId) {
+        const { EventRegistration } = await import('../models/event-registration.model');
+        await EventRegistration.updateOne(
+          { _id: invoiceData.registrationId, status: 'registered' },
+          { $set: { status: 'payment_initiated' } }
+        );
+      }
+
+      // Use any credit the user holds, e.g. from an earlier overpayment
+      const creditApplied = await creditService.applyToInvoice(invoice);
+      if (creditApplied > 0) {
+        const { balanceDue } = await this.applyPayment(invoice);
+        if (balanceDue <= 0) {
+          return {
+            invoiceId,
+            amount: invoice.amount,
+            message: 'Invoice paid in full from credit balance'
+          };
+        }
+      }
+
+      // Unpaid invoices get payment reminders and expire after the event's deadline
+      try {
+        const { scheduleInvoicePaymentJobs } = await import('../jobs/invoice-payment.job');
+        await scheduleInvoicePaymentJobs(invoice);
+      } catch (scheduleError) {
+        console.error(`Failed to schedule payment reminders for invoice ${invoiceId}:`, scheduleError);
+      }
+
       // Send Telegram message if user has telegram data
       const telegramId = user.telegramData?.chatId || user.telegramData?.id;
       let message = 'Invoice created';
@@ -74,9 +154,10 @@ export class PaymentService {
           const telegramService = new TelegramService();
           await telegramService.sendPaymentMethodSelection(
             telegramId, 
-            invoiceData.amount, 
+            invoice.balanceDue, 
             invoiceData.eventName,
-            invoiceId
+            invoiceId,
+            resolveLanguage(user)
           );
           message = 'Invoice created and payment method selection sent';
         } catch (telegramError) {
@@ -89,6 +170,7 @@ export class PaymentService {
 
       return {
         invoiceId,
+        amount: invoice.amount,
         message
       };
     } catch (error: any) {
@@ -98,25 +180,20 @@ export class PaymentService {
   }
 
   /**
-   * Verify payment manually via various payment methods (Telebirr, CBE, BOA)
+   * Verify payment manually via the registered payment verifiers (Telebirr, CBE, BOA, ...).
+   * `retryable` is set when the provider could not be reached, so checking again later may succeed.
    */
-  async verifyPayment(transactionId: string, userId: string, method: string = 'telebirr', eventName?: string): Promise<{ success: boolean; message: string; invoice?: any }> {
+  async verifyPayment(transactionId: string, userId: string, method: string = 'telebirr', invoiceId?: string): Promise<{ success: boolean; message: string; invoice?: any; retryable?: boolean }> {
     try {
       console.log(`Verifying ${method} transaction: ${transactionId} for user ${userId}`);
       
-      let receipt;
-      
-      // 1. Verify with appropriate service
-      if (method?.toLowerCase() === 'cbe') {
-          const { bankVerifierService } = await import('./bank-verifier.service');
-          receipt = await bankVerifierService.verifyCBE(transactionId);
-      } else if (method?.toLowerCase() === 'boa') {
-          const { bankVerifierService } = await import('./bank-verifier.service');
-          receipt = await bankVerifierService.verifyBOA(transactionId);
-      } else {
-          // Default to Telebirr
-          receipt = await telebirrService.verifyTransaction(transactionId);
+      // 1. Verify with the provider registered for this method
+      const verifier = method ? paymentVerifierRegistry.get(method) : paymentVerifierRegistry.getDefault();
+      if (!verifier) {
+        return { success: false, message: `Unsupported payment method: ${method}` };
       }
+
+      const receipt = await verifier.verify(transactionId);
       
       if (receipt.status !== 'valid') {
         return { success: false, message: 'Invalid transaction receipt' };
@@ -126,12 +203,25 @@ export class PaymentService {
       const { Invoice } = await import('../models/invoice.model');
       
       // Check if this transaction ID was already used (to prevent duplicate verification)
-      const existingPaidInvoice = await Invoice.findOne({
-        transactionId: transactionId,
-        status: 'paid'
+      const usedOnInvoice = await Invoice.findOne({
+        $or: [{ transactionId: transactionId }, { 'payments.transactionId': transactionId }]
       });
-      
-      if (existingPaidInvoice && existingPaidInvoice.user.toString() === userId) {
+
+      if (usedOnInvoice && (usedOnInvoice.user.toString() !== userId || ['cancelled', 'refunded'].includes(usedOnInvoice.status))) {
+        return { success: false, message: 'This transaction ID has already been used' };
+      }
+
+      if (usedOnInvoice && usedOnInvoice.status !== 'paid') {
+        return {
+          success: false,
+          message: `This transaction was already applied to your invoice. You still owe ${usedOnInvoice.balanceDue} ETB.`,
+          invoice: usedOnInvoice
+        };
+      }
+
+      const existingPaidInvoice = usedOnInvoice;
+
+      if (existingPaidInvoice) {
         // Resend QR code for existing payment
         try {
           const { Registration } = await import('../models/user.model');
@@ -159,7 +249,8 @@ export class PaymentService {
               const telegramResult = await telegramService.sendVerificationSuccess(
                 chatId,
                 existingPaidInvoice,
-                qrBuffer
+                qrBuffer,
+                resolveLanguage(user)
               );
               
               console.log('Telegram send result:', telegramResult);
@@ -192,117 +283,282 @@ export class PaymentService {
         };
       }
       
-      // Find pending invoice for this user
-      // If eventName is provided, prioritize matching by event name, then by amount
-      let pendingInvoice;
-      
-      if (eventName) {
-        // First try to find invoice matching event name exactly
-        pendingInvoice = await Invoice.findOne({ 
-          user: userId,
-          'metadata.eventName': eventName,
-          amount: { $lte: receipt.amount },
-          status: 'pending'
-        }).sort({ createdAt: -1 });
+      // 3. Make sure the money went to one of our accounts
+      const receiverCheck = checkReceiver(verifier, receipt);
+      if (!receiverCheck.valid) {
+        console.warn(`Receiver mismatch for ${transactionId}: ${receiverCheck.reason}`);
+        await this.flagForReview(transactionId, verifier.key, userId, receipt, receiverCheck.reason!);
+        return {
+          success: false,
+          message: `${receiverCheck.reason} Please make sure you paid to the account in the payment instructions. Our team has been notified to review this payment.`
+        };
       }
-      
-      // If not found and eventName was provided, or if eventName wasn't provided, try without event name
-      if (!pendingInvoice) {
-        pendingInvoice = await Invoice.findOne({ 
-          user: userId,
-          amount: { $lte: receipt.amount }, // Invoice amount should be less than or equal to paid amount
-          status: 'pending'
-        }).sort({ createdAt: -1 });
+
+      // 4. The payment must not predate the invoice it settles
+      if (!receipt.paidAt) {
+        const reason = `We could not read the payment date "${receipt.date}" from this receipt.`;
+        await this.flagForReview(transactionId, verifier.key, userId, receipt, reason);
+        return { success: false, message: `${reason} Our team has been notified to review this payment.` };
       }
 
+      // Only invoices created before the payment (plus the grace window) qualify
+      const createdBefore = new Date(receipt.paidAt.getTime() + getReceiptGraceMs());
+
+      // Find an open invoice for this user, preferring the invoice the payment was made for,
+      // then one this payment covers in full, then the most recent
+      const openInvoices = await Invoice.find({
+        user: userId,
+        status: { $in: ['pending', 'partially_paid'] },
+        createdAt: { $lte: createdBefore }
+      }).sort({ createdAt: -1 });
+
+      const candidates = invoiceId
+        ? openInvoices.filter(inv => inv.invoiceId === invoiceId)
+        : [];
+      const pool = candidates.length > 0 ? candidates : openInvoices;
+      const pendingInvoice = pool.find(inv => inv.balanceDue <= receipt.amount) || pool[0];
+
       if (!pendingInvoice) {
-        return { success: false, message: `No pending invoice found for amount ${receipt.amount} ETB. Looking for invoice <= ${receipt.amount} ETB` };
-      }
+        const newerInvoice = await Invoice.exists({
+          user: userId,
+          status: { $in: ['pending', 'partially_paid'] }
+        });
 
-      // 3. Update Invoice
-      pendingInvoice.status = 'paid';
-      pendingInvoice.transactionId = transactionId;
-      pendingInvoice.paidAt = new Date(receipt.date);
-      pendingInvoice.receiptData = {
-        senderName: receipt.senderName,
-        confirmedAmount: receipt.amount,
-        date: receipt.date,
-        receiver: (receipt.receiverName && receipt.receiverName !== 'Unknown') 
-          ? receipt.receiverName 
-          : 'Reboot Adventures'
-      };
-      
-      await pendingInvoice.save();
-
-      // 4. Update EventRegistration status if linked
-      if (pendingInvoice.metadata && pendingInvoice.metadata.eventName) {
-         const { EventRegistration } = await import('../models/event-registration.model');
-         const { Event } = await import('../models/events.model');
-         
-         const event = await Event.findOne({ name: pendingInvoice.metadata.eventName });
-         
-         if (event) {
-            const registration = await EventRegistration.findOne({
-              user: pendingInvoice.user,
-              event: event._id
-            });
+        if (newerInvoice) {
+          return {
+            success: false,
+            message: `This transaction was made on ${receipt.paidAt.toLocaleString()}, before your invoice was issued. Please pay your current invoice with a new transaction.`
+          };
+        }
 
-            if (registration) {
-              registration.status = 'confirmed';
-              await registration.save();
-            }
-         }
+        return { success: false, message: `No pending invoice found for your payment of ${receipt.amount} ETB` };
       }
 
-      // 5. Send Success Message with QR Code
-      const { Registration } = await import('../models/user.model');
-      const user = await Registration.findById(pendingInvoice.user);
+      const result = await this.applyPayment(
+        pendingInvoice,
+        this.toInvoicePayment(transactionId, verifier.key, receipt)
+      );
 
-      if (user && user.telegramData) {
-          const telegramService = new TelegramService();
-          
-          // Use chatId if available, otherwise use telegramId
-          const chatId = user.telegramData.chatId || user.telegramData.id;
-          
-          if (chatId) {
-            // 6. Send Telegram notification with QR code (optional)
-            try {
-              console.log('Generating QR code for new payment...');
-              const qrBuffer = await qrService.generateTicketQR(pendingInvoice);
-              
-              console.log('Sending QR code to Telegram chat ID:', chatId);
-              const telegramResult = await telegramService.sendVerificationSuccess(
-                chatId,
-                pendingInvoice,
-                qrBuffer
-              );
-              
-              console.log('Telegram send result for new payment:', telegramResult);
-              console.log('QR code sent for new payment to user:', user.telegramData.username);
-            } catch (qrError: any) {
-              console.error('QR code generation or Telegram notification failed for new payment:', qrError.message);
-              console.error('Full QR error details:', qrError);
-              // Continue without QR code - payment is still verified
-            }
-          } else {
-            console.log('No chat ID or Telegram ID found for user during new payment');
-          }
-      } else {
-        console.log('User or Telegram data not found for new payment:', {
-          userExists: !!user,
-          hasTelegramData: !!user?.telegramData
-        });
+      if (result.balanceDue > 0) {
+        return {
+          success: true,
+          message: `Partial payment of ${receipt.amount} ETB received. Please pay the remaining ${result.balanceDue} ETB to complete your booking.`,
+          invoice: pendingInvoice
+        };
       }
 
       return { 
         success: true, 
-        message: 'Payment verified successfully', 
+        message: result.overpaid > 0
+          ? `Payment verified successfully. ${result.overpaid} ETB overpaid has been added to your credit balance.`
+          : 'Payment verified successfully', 
         invoice: pendingInvoice
       };
 
     } catch (error: any) {
       console.error('Verify payment error:', error);
-      return { success: false, message: error.message || 'Payment verification failed' };
+      return {
+        success: false,
+        message: error.message || 'Payment verification failed',
+        retryable: error instanceof ProviderUnavailableError
+      };
+    }
+  }
+
+  /**
+   * Record a suspicious receipt for an admin to review
+   */
+  private async flagForReview(
+    transactionId: string,
+    method: string,
+    userId: string,
+    receipt: VerifiedReceipt,
+    reason: string
+  ): Promise<void> {
+    try {
+      const { Invoice } = await import('../models/invoice.model');
+      const { PaymentReview } = await import('../models/payment-review.model');
+
+      const likelyInvoice = await Invoice.findOne({ user: userId, status: { $in: ['pending', 'partially_paid'] } }).sort({ createdAt: -1 });
+
+      await PaymentReview.findOneAndUpdate(
+        { transactionId },
+        {
+          $set: {
+            method,
+            user: userId,
+            invoice: likelyInvoice?._id,
+            reason,
+            receiptData: {
+              senderName: receipt.senderName,
+              receiverName: receipt.receiverName,
+              receiverAccount: receipt.receiverAccount,
+              confirmedAmount: receipt.amount,
+              date: receipt.date
+            }
+          },
+          $setOnInsert: { status: 'open' }
+        },
+        { upsert: true, new: true }
+      );
+    } catch (error) {
+      console.error(`Failed to flag transaction ${transactionId} for review:`, error);
+    }
+  }
+
+  /**
+   * Build the payment entry recorded on an invoice for a verified receipt
+   */
+  private toInvoicePayment(transactionId: string, method: string, receipt: VerifiedReceipt): IInvoicePayment {
+    return {
+      transactionId,
+      method,
+      amount: receipt.amount,
+      paidAt: receipt.paidAt || new Date(),
+      receiptData: {
+        senderName: receipt.senderName,
+        confirmedAmount: receipt.amount,
+        date: receipt.date,
+        receiver: receipt.receiverName,
+        receiverAccount: receipt.receiverAccount
+      }
+    };
+  }
+
+  /**
+   * Add a payment to an invoice. Settles it once the balance is covered, moving any
+   * overpayment to the user's credit; otherwise leaves it partially paid.
+   */
+  async applyPayment(invoice: IInvoice, payment?: IInvoicePayment): Promise<{ status: IInvoice['status']; balanceDue: number; overpaid: number }> {
+    if (payment) {
+      invoice.payments.push(payment);
+      invoice.amountPaid = (invoice.amountPaid || 0) + payment.amount;
+    }
+
+    const outstanding = Math.round((invoice.amount - invoice.amountPaid) * 100) / 100;
+
+    if (outstanding <= 0) {
+      const overpaid = -outstanding;
+      if (overpaid > 0) {
+        invoice.overpaidAmount = overpaid;
+        await creditService.addEntry({
+          user: invoice.user,
+          amount: overpaid,
+          type: 'overpayment',
+          invoice: invoice._id,
+          reference: payment?.transactionId,
+          note: `Overpayment on invoice ${invoice.invoiceId}`
+        });
+      }
+
+      await this.settleInvoice(invoice);
+      return { status: invoice.status, balanceDue: 0, overpaid };
+    }
+
+    invoice.status = 'partially_paid';
+    await invoice.save();
+
+    const { Registration } = await import('../models/user.model');
+    const user = await Registration.findById(invoice.user);
+    const chatId = user?.telegramData?.chatId || user?.telegramData?.id;
+
+    if (chatId) {
+      try {
+        const telegramService = new TelegramService();
+        const lang = resolveLanguage(user);
+        await telegramService.sendMessage(
+          chatId,
+          t(lang, 'payment.partial', {
+            paid: invoice.amountPaid,
+            amount: invoice.amount,
+            event: invoice.metadata?.eventName || t(lang, 'payment.yourEvent'),
+            outstanding
+          })
+        );
+      } catch (notifyError) {
+        console.error('Failed to send partial payment notice:', notifyError);
+      }
+    }
+
+    return { status: invoice.status, balanceDue: outstanding, overpaid: 0 };
+  }
+
+  /**
+   * Mark a fully covered invoice paid, confirm the registration and send the ticket
+   */
+  async settleInvoice(invoice: IInvoice): Promise<void> {
+    // 1. Update Invoice from the payment that completed it
+    const lastPayment = invoice.payments[invoice.payments.length - 1];
+
+    invoice.status = 'paid';
+    invoice.paidAt = lastPayment?.paidAt || new Date();
+    if (lastPayment) {
+      invoice.transactionId = lastPayment.transactionId;
+      invoice.receiptData = lastPayment.receiptData;
+    }
+
+    await invoice.save();
+
+    // 2. Update EventRegistration status if linked
+    if (invoice.registration || invoice.event) {
+      const { EventRegistration } = await import('../models/event-registration.model');
+
+      const registration = invoice.registration
+        ? await EventRegistration.findById(invoice.registration)
+        : await EventRegistration.findOne({ user: invoice.user, event: invoice.event });
+
+      if (registration) {
+        registration.status = 'confirmed';
+        await registration.save();
+      }
+    }
+
+    // 3. Send Success Message with QR Code
+    const { Registration } = await import('../models/user.model');
+    const user = await Registration.findById(invoice.user);
+
+    if (user && user.telegramData) {
+        const telegramService = new TelegramService();
+        
+        // Use chatId if available, otherwise use telegramId
+        const chatId = user.telegramData.chatId || user.telegramData.id;
+        
+        if (chatId) {
+          // 4. Send Telegram notification with QR code (optional)
+          try {
+            console.log('Generating QR code for new payment...');
+            const qrBuffer = await qrService.generateTicketQR(invoice);
+            
+            console.log('Sending QR code to Telegram chat ID:', chatId);
+            const telegramResult = await telegramService.sendVerificationSuccess(
+              chatId,
+              invoice,
+              qrBuffer,
+              resolveLanguage(user)
+            );
+            
+            console.log('Telegram send result for new payment:', telegramResult);
+            console.log('QR code sent for new payment to user:', user.telegramData.username);
+          } catch (qrError: any) {
+            console.error('QR code generation or Telegram notification failed for new payment:', qrError.message);
+            console.error('Full QR error details:', qrError);
+            // Continue without QR code - payment is still verified
+          }
+        } else {
+          console.log('No chat ID or Telegram ID found for user during new payment');
+        }
+    } else {
+      console.log('User or Telegram data not found for new payment:', {
+        userExists: !!user,
+        hasTelegramData: !!user?.telegramData
+      });
+    }
+
+    // 5. Reward whoever referred the user, on their first paid booking
+    try {
+      await referralService.rewardReferrer(invoice);
+    } catch (rewardError: any) {
+      console.error('Referral reward failed for invoice', invoice.invoiceId, rewardError.message);
     }
   }
 
@@ -340,14 +596,10 @@ export class PaymentService {
           const user = reg.user as any;
           
           // CHECK: Does this user already have a pending or paid invoice for this event?
-          // We check by metadata.eventName (legacy) or we should check by event ID if we added it to invoice
-          // The new Invoice model has 'event' field, but we need to ensure we populate it.
-          // For now, checking by metadata.eventName is safer for backward compatibility or current logic
-          
           const existingInvoice = await Invoice.findOne({
             user: user._id,
-            'metadata.eventName': event.name,
-            status: { $in: ['pending', 'paid'] }
+            event: event._id,
+            status: { $in: ['pending', 'partially_paid', 'paid'] }
           });
 
           if (existingInvoice) {
@@ -359,16 +611,15 @@ export class PaymentService {
           // Initialize payment
           await this.initializePayment(user, {
             eventName: event.name,
-            amount: event.price,
+            amount: this.getRegistrationAmount(event, reg),
             place: event.location,
             time: event.date,
-            eventId: event._id.toString()
+            eventId: event._id.toString(),
+            registrationId: String(reg._id),
+            tierName: reg.tierName,
+            promoCode: reg.promoCode
           });
 
-          // Update status in EventRegistration
-          reg.status = 'payment_initiated';
-          await reg.save();
-
           successCount++;
         } catch (error) {
           console.error(`Failed to initialize payment for registration ${reg._id}:`, error);
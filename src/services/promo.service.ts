@@ -0,0 +1,95 @@
+import { IPromoCode, PromoCode } from '../models/promo-code.model';
+import { PromoRedemption } from '../models/promo-redemption.model';
+import { IInvoice } from '../models/invoice.model';
+
+export class PromoService {
+  /**
+   * Look up a promo code and check it can be used by this user for this event
+   */
+  async validateCode(code: string, userId: string, eventId?: string): Promise<IPromoCode> {
+    const promo = await PromoCode.findOne({ code: code.trim().toUpperCase() });
+
+    if (!promo || !promo.isActive) {
+      throw new Error('Invalid promo code');
+    }
+
+    const now = new Date();
+    if (promo.validFrom && now < promo.validFrom) {
+      throw new Error('This promo code is not active yet');
+    }
+    if (promo.validUntil && now > promo.validUntil) {
+      throw new Error('This promo code has expired');
+    }
+
+    if (promo.maxUses && promo.usedCount >= promo.maxUses) {
+      throw new Error('This promo code has reached its usage limit');
+    }
+
+    if (promo.events.length > 0 && (!eventId || !promo.events.some(e => e.toString() === eventId))) {
+      throw new Error('This promo code is not valid for this event');
+    }
+
+    const userRedemptions = await PromoRedemption.countDocuments({ promoCode: promo._id, user: userId });
+    if (userRedemptions >= promo.perUserLimit) {
+      throw new Error('You have already used this promo code');
+    }
+
+    return promo;
+  }
+
+  /**
+   * Calculate the discount a promo code gives on an amount
+   */
+  calculateDiscount(promo: IPromoCode, amount: number): number {
+    const discount = promo.discountType === 'percentage'
+      ? Math.round(amount * promo.value) / 100
+      : promo.value;
+
+    return Math.min(discount, amount);
+  }
+
+  /**
+   * Record a redemption against an invoice, claiming one use of the code
+   */
+  async redeem(promo: IPromoCode, invoice: IInvoice, originalAmount: number, discountAmount: number): Promise<void> {
+    // Claim a use atomically so concurrent invoices can't exceed maxUses
+    const claimed = await PromoCode.findOneAndUpdate(
+      {
+        _id: promo._id,
+        $or: [
+          { maxUses: { $exists: false } },
+          { maxUses: null },
+          { $expr: { $lt: ['$usedCount', '$maxUses'] } }
+        ]
+      },
+      { $inc: { usedCount: 1 } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      throw new Error('This promo code has reached its usage limit');
+    }
+
+    await PromoRedemption.create({
+      promoCode: promo._id,
+      code: promo.code,
+      user: invoice.user,
+      event: invoice.event,
+      invoice: invoice._id,
+      originalAmount,
+      discountAmount
+    });
+  }
+
+  /**
+   * Give back the use claimed by an invoice that will never be paid
+   */
+  async releaseForInvoice(invoiceObjectId: any): Promise<void> {
+    const redemption = await PromoRedemption.findOneAndDelete({ invoice: invoiceObjectId });
+    if (redemption) {
+      await PromoCode.updateOne({ _id: redemption.promoCode }, { $inc: { usedCount: -1 } });
+    }
+  }
+}
+
+export const promoService = new PromoService();
@@ -97,32 +97,25 @@ export class QRService {
       const { Invoice } = await import('../models/invoice.model');
       const invoice = await Invoice.findOne({ 
         invoiceId, 
-        transactionId,
-        status: 'paid' 
+        transactionId
       });
 
-      if (!invoice) {
+      // Cancelling or refunding the registration voids its ticket
+      if (invoice && ['cancelled', 'refunded'].includes(invoice.status)) {
+        throw new Error('Ticket has been cancelled');
+      }
+
+      if (!invoice || invoice.status !== 'paid') {
         throw new Error('Invoice not found or not paid');
       }
 
       // Get registration to check check-in status
       const { EventRegistration } = await import('../models/event-registration.model');
-      let registration = await EventRegistration.findOne({
-        user: invoice.user,
-        event: invoice.event
-      });
-
-      // Fallback: If registration not found by ID (maybe old invoice), try find event by name and then registration
-      if (!registration && invoice.metadata?.eventName) {
-          const { Event } = await import('../models/events.model');
-          const event = await Event.findOne({ name: invoice.metadata.eventName });
-          if (event) {
-              registration = await EventRegistration.findOne({
-                  user: invoice.user,
-                  event: event._id
-              });
-          }
-      }
+      const registration = invoice.registration
+        ? await EventRegistration.findById(invoice.registration)
+        : invoice.event
+          ? await EventRegistration.findOne({ user: invoice.user, event: invoice.event })
+          : null;
 
       console.log(`Ticket Status Check: Ref=${reference}, CheckIn=${registration?.checkedIn || false}`);
 
@@ -149,7 +142,7 @@ export class QRService {
   /**
    * Determine ticket status based on invoice and registration
    */
-  private determineTicketStatus(invoice: any, registration?: any): 'valid' | 'used' | 'expired' {
+  determineTicketStatus(invoice: any, registration?: any): 'valid' | 'used' | 'expired' {
     const now = new Date();
     
     // 1. Check if user already checked in
@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import { ReferralCode, IReferralCode, ReferralCodeType } from '../models/referral-code.model';
+import { ReferralContact } from '../models/referral-contact.model';
+import { Registration } from '../models/user.model';
+import { Invoice, IInvoice } from '../models/invoice.model';
+import { CreditTransaction, ICreditTransaction } from '../models/credit-transaction.model';
+import { IReferralAttribution } from '../interfaces/user.interface';
+import { creditService } from './credit.service';
+import { notificationPreferenceService } from './notification-preference.service';
+import { TelegramService } from './telegram.service';
+import { t, resolveLanguage } from '../i18n';
+
+const START_PAYLOAD = /^ref_([a-z0-9-]{3,32})$/i;
+
+// Credit (ETB) a rider earns when a friend they referred pays for their first booking
+const REFERRAL_REWARD = Number(process.env.REFERRAL_REWARD_AMOUNT) || 100;
+
+export interface ReferralReportRow {
+  referralCodeId: string;
+  code: string;
+  type: ReferralCodeType;
+  name?: string;
+  owner?: unknown;
+  isActive: boolean;
+  link?: string;
+  contacts: number; // New Telegram users who opened the bot through the link
+  registrations: number;
+  payingUsers: number;
+  paidInvoices: number;
+  revenue: number; // Settled invoice amounts less refunds
+  refunded: number;
+  rewards: number; // Credit paid out to the owner of a user code
+  registrationRate: number; // % of contacts who registered
+  paymentRate: number; // % of registrations who paid
+}
+
+export interface ReferralSummary {
+  referralCode: IReferralCode;
+  link?: string;
+  friends: { name: string; joinedAt: Date; rewarded: boolean }[];
+  earned: number;
+  balance: number;
+}
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+
+export class ReferralService {
+  /**
+   * The t.me link that opens the bot with a referral code, if TELEGRAM_BOT_USERNAME is set
+   */
+  deepLink(code: string): string | undefined {
+    const botUsername = process.env.TELEGRAM_BOT_USERNAME;
+    return botUsername ? `https://t.me/${botUsername}?start=ref_${code}` : undefined;
+  }
+
+  /**
+   * Remember the referral code a new Telegram user opened the bot with (/start ref_<code>).
+   * Only the first code counts, and users who already registered are never re-attributed.
+   */
+  async recordContact(telegramId: number, payload?: string): Promise<IReferralCode | null> {
+    const match = payload?.match(START_PAYLOAD);
+    if (!match) {
+      return null;
+    }
+
+    const referralCode = await ReferralCode.findOne({ code: match[1].toLowerCase(), isActive: true });
+    if (!referralCode || await Registration.exists({ 'telegramData.id': telegramId })) {
+      return null;
+    }
+
+    await ReferralContact.updateOne(
+      { telegramId },
+      { $setOnInsert: { code: referralCode.code, referralCode: referralCode._id } },
+      { upsert: true }
+    );
+    return referralCode;
+  }
+
+  /**
+   * The attribution to store on a user registering now, from their first contact
+   */
+  async attributionFor(telegramId: number): Promise<IReferralAttribution | undefined> {
+    const contact = await ReferralContact.findOne({ telegramId });
+    if (!contact) {
+      return undefined;
+    }
+
+    return { code: contact.code, referralCode: contact.referralCode, firstSeenAt: contact.createdAt };
+  }
+
+  /**
+   * A user's own code to share with friends, created the first time it is asked for
+   */
+  async getOrCreateUserCode(userId: string): Promise<IReferralCode> {
+    const existing = await ReferralCode.findOne({ owner: userId });
+    if (existing) {
+      return existing;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await ReferralCode.create({
+          code: crypto.randomBytes(4).toString('hex'),
+          type: 'user',
+          owner: userId
+        });
+      } catch (error: any) {
+        if (error.code !== 11000 || attempt >= 2) throw error;
+
+        // Created meanwhile by another request, or the random code was taken
+        const created = await ReferralCode.findOne({ owner: userId });
+        if (created) return created;
+      }
+    }
+  }
+
+  get rewardAmount(): number {
+    return REFERRAL_REWARD;
+  }
+
+  /**
+   * Credit the owner of the user code a paid invoice is attributed to, once per referred
+   * friend (again only if that reward was reversed). Returns the entry, or null if nothing was earned.
+   */
+  async rewardReferrer(invoice: IInvoice): Promise<ICreditTransaction | null> {
+    if (!invoice.referralCode || invoice.status !== 'paid' || invoice.amount <= 0) {
+      return null;
+    }
+
+    const referralCode = await ReferralCode.findOne({ code: invoice.referralCode, type: 'user', isActive: true });
+    if (!referralCode?.owner || String(referralCode.owner) === String(invoice.user)) {
+      return null;
+    }
+
+    let reward: ICreditTransaction;
+    try {
+      reward = await creditService.addEntry({
+        user: referralCode.owner,
+        amount: REFERRAL_REWARD,
+        type: 'referral',
+        invoice: invoice._id,
+        referredUser: invoice.user,
+        note: `Referral reward for invoice ${invoice.invoiceId}`
+      });
+    } catch (error: any) {
+      // The friend already earned their referrer a reward on another booking
+      if (error.code === 11000) return null;
+      throw error;
+    }
+
+    console.log(`Referral reward of ${REFERRAL_REWARD} ETB for invoice ${invoice.invoiceId} credited to user ${referralCode.owner}`);
+
+    const [referrer, friend] = await Promise.all([
+      Registration.findById(referralCode.owner),
+      Registration.findById(invoice.user).select('fullName')
+    ]);
+    const chatId = referrer?.telegramData?.chatId || referrer?.telegramData?.id;
+    if (chatId && notificationPreferenceService.wants(referrer, 'payments')) {
+      const lang = resolveLanguage(referrer);
+      await new TelegramService().sendMessage(chatId, t(lang, 'referrals.rewarded', {
+        name: friend?.fullName.split(' ')[0] || t(lang, 'referrals.aFriend'),
+        amount: REFERRAL_REWARD
+      }));
+    }
+
+    return reward;
+  }
+
+  /**
+   * Take back the reward a paid invoice earned once it is cancelled or refunded, since only a
+   * completed booking counts. The friend's next paid booking can earn the reward again.
+   */
+  async reverseReward(invoice: IInvoice): Promise<ICreditTransaction | null> {
+    // Releasing the friend from the reward entry claims the reversal, so it happens only once
+    const reward = await CreditTransaction.findOneAndUpdate(
+      { type: 'referral', invoice: invoice._id, amount: { $gt: 0 }, referredUser: { $exists: true } },
+      { $unset: { referredUser: 1 } }
+    );
+    if (!reward) {
+      return null;
+    }
+
+    console.log(`Referral reward for invoice ${invoice.invoiceId} reversed for user ${reward.user}`);
+
+    return creditService.addEntry({
+      user: reward.user,
+      amount: -reward.amount,
+      type: 'referral',
+      invoice: invoice._id,
+      note: `Referral reward reversed: invoice ${invoice.invoiceId} was ${invoice.status}`
+    });
+  }
+
+  /**
+   * What /referrals shows a user: their code, the friends who joined with it and the credit they earned
+   */
+  async getSummary(userId: string): Promise<ReferralSummary> {
+    const referralCode = await this.getOrCreateUserCode(userId);
+
+    const [friends, rewards, balance] = await Promise.all([
+      Registration.find({ 'referral.code': referralCode.code }).select('fullName createdAt').sort({ createdAt: -1 }),
+      CreditTransaction.find({ user: userId, type: 'referral' }).select('amount referredUser'),
+      creditService.getBalance(userId)
+    ]);
+    const rewarded = new Set(rewards.filter(reward => reward.referredUser).map(reward => String(reward.referredUser)));
+
+    return {
+      referralCode,
+      link: this.deepLink(referralCode.code),
+      friends: friends.map(friend => ({
+        name: friend.fullName,
+        joinedAt: friend.createdAt,
+        rewarded: rewarded.has(String(friend._id))
+      })),
+      earned: Math.round(rewards.reduce((sum, reward) => sum + reward.amount, 0) * 100) / 100,
+      balance
+    };
+  }
+
+  /**
+   * Contacts, registrations, payments and revenue per referral code. `from` and `to` limit
+   * each count to what happened in that period.
+   */
+  async getReport(options: { from?: Date; to?: Date; type?: ReferralCodeType } = {}): Promise<ReferralReportRow[]> {
+    const range: Record<string, Date> = {};
+    if (options.from) range.$gte = options.from;
+    if (options.to) range.$lte = options.to;
+    const inRange = (field: string) => (Object.keys(range).length > 0 ? { [field]: range } : {});
+
+    const [codes, contacts, registrations, payments, rewards] = await Promise.all([
+      ReferralCode.find(options.type ? { type: options.type } : {}).populate('owner', 'fullName'),
+      ReferralContact.aggregate([
+        { $match: inRange('createdAt') },
+        { $group: { _id: '$code', count: { $sum: 1 } } }
+      ]),
+      Registration.aggregate([
+        { $match: { 'referral.code': { $exists: true }, ...inRange('createdAt') } },
+        { $group: { _id: '$referral.code', count: { $sum: 1 } } }
+      ]),
+      // Every invoice that was ever settled counts, as on the dashboard
+      Invoice.aggregate([
+        {
+          $match: {
+            referralCode: { $exists: true },
+            status: { $in: ['paid', 'cancelled', 'refunded'] },
+            paidAt: { $exists: true },
+            ...inRange('paidAt')
+          }
+        },
+        {
+          $group: {
+            _id: '$referralCode',
+            paidInvoices: { $sum: 1 },
+            payingUsers: { $addToSet: '$user' },
+            gross: { $sum: '$amount' },
+            refunded: { $sum: { $ifNull: ['$refundedAmount', 0] } }
+          }
+        }
+      ]),
+      // Rewards go to the owner of a user code, so they are grouped by user
+      CreditTransaction.aggregate([
+        { $match: { type: 'referral', ...inRange('createdAt') } },
+        { $group: { _id: '$user', total: { $sum: '$amount' } } }
+      ])
+    ]);
+
+    const byCode = <T extends { _id: string }>(rows: T[]) => new Map(rows.map(row => [row._id, row]));
+    const contactsByCode = byCode(contacts);
+    const registrationsByCode = byCode(registrations);
+    const paymentsByCode = byCode(payments);
+    const rewardsByOwner = new Map(rewards.map(row => [String(row._id), row.total as number]));
+
+    return codes
+      .map(referralCode => {
+        const contactCount = contactsByCode.get(referralCode.code)?.count || 0;
+        const registrationCount = registrationsByCode.get(referralCode.code)?.count || 0;
+        const payment = paymentsByCode.get(referralCode.code);
+        const payingUsers = payment?.payingUsers.length || 0;
+
+        return {
+          referralCodeId: String(referralCode._id),
+          code: referralCode.code,
+          type: referralCode.type,
+          name: referralCode.name,
+          owner: referralCode.owner,
+          isActive: referralCode.isActive,
+          link: this.deepLink(referralCode.code),
+          contacts: contactCount,
+          registrations: registrationCount,
+          payingUsers,
+          paidInvoices: payment?.paidInvoices || 0,
+          revenue: (payment?.gross || 0) - (payment?.refunded || 0),
+          refunded: payment?.refunded || 0,
+          rewards: referralCode.type === 'user' ? rewardsByOwner.get(String(referralCode.owner?._id)) || 0 : 0,
+          registrationRate: percentage(registrationCount, contactCount),
+          paymentRate: percentage(payingUsers, registrationCount)
+        };
+      })
+      .sort((a, b) => b.revenue - a.revenue || b.registrations - a.registrations);
+  }
+}
+
+export const referralService = new ReferralService();
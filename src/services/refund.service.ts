@@ -0,0 +1,225 @@
+import { Event, IEvent } from '../models/events.model';
+import { EventRegistration, IEventRegistration } from '../models/event-registration.model';
+import { IInvoice, Invoice } from '../models/invoice.model';
+import { IRefund, Refund } from '../models/refund.model';
+import { creditService } from './credit.service';
+import { promoService } from './promo.service';
+import { referralService } from './referral.service';
+import { waitlistService } from './waitlist.service';
+
+export interface CancellationOptions {
+  requestedBy: 'user' | 'admin';
+  reason?: string;
+  payoutMethod?: string;
+  payoutReference?: string;
+  refundPercentage?: number; // Admin override of the event's refund policy
+  processedBy?: string;
+}
+
+export class RefundService {
+  /**
+   * Generate a unique refund ID
+   */
+  private generateRefundId(): string {
+    return `RFD-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  }
+
+  /**
+   * Share of the ticket price refunded when cancelling at the given time,
+   * taken from the most generous rule the notice period still qualifies for
+   */
+  getRefundPercentage(event: IEvent, at: Date = new Date()): number {
+    const hoursUntilEvent = (new Date(event.date).getTime() - at.getTime()) / (60 * 60 * 1000);
+
+    const rule = [...(event.refundPolicy || [])]
+      .sort((a, b) => b.hoursBefore - a.hoursBefore)
+      .find(r => hoursUntilEvent >= r.hoursBefore);
+
+    return rule ? rule.percentage : 0;
+  }
+
+  /**
+   * Find the paid invoice for a registration's seat
+   */
+  async findPaidInvoice(registration: IEventRegistration): Promise<IInvoice | null> {
+    return Invoice.findOne({
+      user: registration.user,
+      status: 'paid',
+      $or: [{ registration: registration._id }, { event: registration.event }]
+    }).sort({ paidAt: -1 });
+  }
+
+  /**
+   * Work out what cancelling a registration now would refund, without changing anything
+   */
+  async quoteCancellation(registration: IEventRegistration): Promise<{ invoice: IInvoice | null; percentage: number; amount: number }> {
+    const event = await Event.findById(registration.event);
+    const invoice = await this.findPaidInvoice(registration);
+
+    if (!event || !invoice) {
+      return { invoice, percentage: 0, amount: 0 };
+    }
+
+    const percentage = this.getRefundPercentage(event);
+    return { invoice, percentage, amount: this.calculateRefund(invoice, percentage) };
+  }
+
+  /**
+   * Refund owed on an invoice at the given percentage
+   */
+  private calculateRefund(invoice: IInvoice, percentage: number): number {
+    return Math.round(invoice.amount * percentage) / 100;
+  }
+
+  /**
+   * Cancel a registration: refund any paid invoice under the event's policy,
+   * void unpaid invoices, free the seat and promote the next person on the waitlist
+   */
+  async cancelRegistration(
+    registration: IEventRegistration,
+    options: CancellationOptions
+  ): Promise<{ registration: IEventRegistration; refund: IRefund | null; promoted: IEventRegistration | null }> {
+    if (registration.status === 'cancelled') {
+      throw new Error('Registration is already cancelled');
+    }
+    if (registration.checkedIn) {
+      throw new Error('Registration has already been checked in');
+    }
+
+    const event = await Event.findById(registration.event);
+    if (options.requestedBy === 'user' && event && new Date(event.date) <= new Date()) {
+      throw new Error('This event has already started');
+    }
+
+    // Claim the cancellation first so a concurrent request (e.g. a double tap) can't refund twice
+    const previous = await EventRegistration.findOneAndUpdate(
+      { _id: registration._id, status: { $ne: 'cancelled' }, checkedIn: { $ne: true } },
+      { $set: { status: 'cancelled' } }
+    );
+    if (!previous) {
+      throw new Error('Registration is already cancelled');
+    }
+
+    // 1. Refund the paid invoice, which also invalidates its QR ticket
+    let refund: IRefund | null = null;
+    const found = await this.findPaidInvoice(registration);
+    const percentage = options.refundPercentage ?? (event ? this.getRefundPercentage(event) : 0);
+    const amount = found ? this.calculateRefund(found, percentage) : 0;
+
+    const paidInvoice = found && await Invoice.findOneAndUpdate(
+      { _id: found._id, status: 'paid' },
+      { $set: { status: amount > 0 ? 'refunded' : 'cancelled', refundedAmount: amount } },
+      { new: true }
+    );
+
+    if (paidInvoice) {
+      // The booking didn't complete, so whoever referred the user loses the reward it earned
+      await referralService.reverseReward(paidInvoice);
+
+      if (amount > 0) {
+        const lastPayment = [...paidInvoice.payments].reverse().find(p => p.method !== 'credit');
+        const payoutMethod = options.payoutMethod || lastPayment?.method || 'credit';
+
+        refund = await Refund.create({
+          refundId: this.generateRefundId(),
+          invoice: paidInvoice._id,
+          user: registration.user,
+          event: registration.event,
+          registration: registration._id,
+          amount,
+          percentage,
+          reason: options.reason,
+          requestedBy: options.requestedBy,
+          payoutMethod,
+          status: 'pending'
+        });
+
+        if (payoutMethod === 'credit' || options.payoutReference) {
+          await this.completeRefund(refund, {
+            payoutMethod,
+            payoutReference: options.payoutReference,
+            processedBy: options.processedBy
+          });
+        }
+      }
+    }
+
+    // 2. Any unpaid invoice for this seat is no longer payable
+    const pendingInvoices = await Invoice.find({
+      user: registration.user,
+      status: { $in: ['pending', 'partially_paid'] },
+      $or: [{ registration: registration._id }, { event: registration.event }]
+    });
+
+    for (const invoice of pendingInvoices) {
+      const { modifiedCount } = await Invoice.updateOne(
+        { _id: invoice._id, status: { $in: ['pending', 'partially_paid'] } },
+        { $set: { status: 'cancelled' } }
+      );
+      if (modifiedCount === 0) continue;
+
+      await promoService.releaseForInvoice(invoice._id);
+
+      // Money already paid towards the seat goes back to the user's credit
+      if (invoice.amountPaid > 0) {
+        await creditService.addEntry({
+          user: invoice.user,
+          amount: invoice.amountPaid,
+          type: 'adjustment',
+          invoice: invoice._id,
+          note: `Returned from cancelled invoice ${invoice.invoiceId}`
+        });
+      }
+    }
+
+    // 3. Free the seat, which the claim above already did for the registration itself
+    const wasWaitlisted = previous.status === 'waitlisted';
+    registration.status = 'cancelled';
+
+    if (wasWaitlisted) {
+      await waitlistService.removeFromWaitlist(registration);
+    }
+
+    const promoted = wasWaitlisted ? null : await waitlistService.promoteNext(String(registration.event));
+
+    return { registration, refund, promoted };
+  }
+
+  /**
+   * Record the payout of a pending refund. Refunds to credit are paid out immediately.
+   */
+  async completeRefund(
+    refund: IRefund,
+    payout: { payoutMethod?: string; payoutReference?: string; processedBy?: string }
+  ): Promise<IRefund> {
+    if (refund.status === 'completed') {
+      throw new Error('Refund has already been paid out');
+    }
+
+    const payoutMethod = payout.payoutMethod || refund.payoutMethod;
+    if (payoutMethod === 'credit') {
+      await creditService.addEntry({
+        user: refund.user,
+        amount: refund.amount,
+        type: 'adjustment',
+        invoice: refund.invoice,
+        reference: refund.refundId,
+        note: `Refund ${refund.refundId} for a cancelled registration`,
+        createdBy: payout.processedBy
+      });
+    } else if (!payout.payoutReference) {
+      throw new Error('Payout reference is required');
+    }
+
+    refund.payoutMethod = payoutMethod;
+    refund.payoutReference = payout.payoutReference || refund.refundId;
+    refund.status = 'completed';
+    refund.processedBy = payout.processedBy as any;
+    refund.processedAt = new Date();
+    await refund.save();
+
+    return refund;
+  }
+}
+
+export const refundService = new RefundService();
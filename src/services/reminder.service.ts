@@ -0,0 +1,113 @@
+import { Event, IEvent, IEventReminder } from '../models/events.model';
+import { EventRegistration } from '../models/event-registration.model';
+import { ReminderDelivery } from '../models/reminder-delivery.model';
+import { TelegramService } from './telegram.service';
+import { notificationPreferenceService } from './notification-preference.service';
+import { t, Language, DEFAULT_LANGUAGE, resolveLanguage, formatDateTime } from '../i18n';
+
+export class ReminderService {
+  /**
+   * When a reminder is due to go out for an event
+   */
+  getSendTime(event: IEvent, reminder: IEventReminder): Date {
+    return new Date(new Date(event.date).getTime() - reminder.offsetMinutes * 60 * 1000);
+  }
+
+  /**
+   * Fill a reminder template for one registrant, in their language when the event has a translation
+   */
+  renderMessage(event: IEvent, reminder: IEventReminder, fullName?: string, lang: Language = DEFAULT_LANGUAGE): string {
+    const values: Record<string, string> = {
+      name: fullName || t(lang, 'reminder.defaultName'),
+      event: event.name,
+      time: formatDateTime(event.date, lang),
+      meetingPoint: event.meetingPoint || event.location
+    };
+
+    const template = (lang === 'am' && reminder.translations?.am) || reminder.template;
+    if (template) {
+      return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+    }
+
+    return t(lang, 'reminder.default', values);
+  }
+
+  /**
+   * Send one of an event's reminders to every confirmed registrant who hasn't had it yet
+   */
+  async sendReminder(eventId: string, offsetMinutes: number): Promise<{ sent: number; skipped: number; failed: number }> {
+    const result = { sent: 0, skipped: 0, failed: 0 };
+
+    const event = await Event.findById(eventId);
+    if (!event || !event.isActive) {
+      return result;
+    }
+
+    // The event may have been edited since this reminder was scheduled
+    const reminder = event.reminders.find(r => r.offsetMinutes === offsetMinutes);
+    const now = Date.now();
+    if (!reminder || now < this.getSendTime(event, reminder).getTime() || now >= new Date(event.date).getTime()) {
+      return result;
+    }
+
+    // Skip a reminder that is overdue because a later one is already due
+    const laterDue = event.reminders.some(r => r.offsetMinutes < offsetMinutes && now >= this.getSendTime(event, r).getTime());
+    if (laterDue) {
+      return result;
+    }
+
+    const registrations = await EventRegistration.find({ event: eventId, status: 'confirmed' }).populate('user');
+    const telegramService = new TelegramService();
+
+    for (const registration of registrations) {
+      const user = registration.user as any;
+      const chatId = user?.telegramData?.chatId || user?.telegramData?.id;
+      // No chat to send to, or the user turned reminders off
+      if (!chatId || !notificationPreferenceService.wants(user, 'reminders')) {
+        result.skipped++;
+        continue;
+      }
+
+      // Claim the delivery first so a reminder is never sent twice
+      try {
+        await ReminderDelivery.create({
+          event: event._id,
+          registration: registration._id,
+          user: user._id,
+          offsetMinutes
+        });
+      } catch (error: any) {
+        if (error.code === 11000) {
+          result.skipped++;
+          continue;
+        }
+        throw error;
+      }
+
+      const lang = resolveLanguage(user);
+      const delivered = await telegramService.sendEventReminder(
+        chatId,
+        this.renderMessage(event, reminder, user.fullName, lang),
+        String(registration._id),
+        lang
+      );
+
+      if (delivered) {
+        await ReminderDelivery.updateOne(
+          { registration: registration._id, offsetMinutes },
+          { $set: { status: 'sent', sentAt: new Date() } }
+        );
+        result.sent++;
+      } else {
+        // Release the claim so a retry of the job can try again
+        await ReminderDelivery.deleteOne({ registration: registration._id, offsetMinutes, status: 'sending' });
+        result.failed++;
+      }
+    }
+
+    console.log(`Reminder ${offsetMinutes}m for ${event.name}: ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed`);
+    return result;
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -0,0 +1,110 @@
+import { FilterQuery } from 'mongoose';
+import { Registration } from '../models/user.model';
+import { EventRegistration } from '../models/event-registration.model';
+import { ISegmentFilters } from '../models/segment.model';
+import { IRegistration, NotificationCategory } from '../interfaces/user.interface';
+import { notificationPreferenceService } from './notification-preference.service';
+
+const UNPAID_STATUSES = ['registered', 'payment_initiated'];
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface SegmentPreview {
+  count: number;
+  sample: {
+    id: string;
+    fullName: string;
+    username?: string;
+    language?: string;
+  }[];
+}
+
+export class SegmentService {
+  /**
+   * Mongo query for the subscribed Telegram users matching a segment's filters, leaving out
+   * those who turned off the message's category. Empty filters match every subscriber.
+   */
+  async buildUserQuery(filters: ISegmentFilters = {}, category?: NotificationCategory): Promise<FilterQuery<IRegistration>> {
+    const conditions: FilterQuery<IRegistration>[] = [
+      {
+        $or: [
+          { 'telegramData.chatId': { $ne: null } },
+          { 'telegramData.id': { $ne: null } }
+        ],
+        ...notificationPreferenceService.audienceQuery(category)
+      }
+    ];
+
+    if (filters.event || filters.registrationStatus) {
+      const registrationQuery: Record<string, any> = {};
+      if (filters.event) {
+        registrationQuery.event = filters.event;
+      }
+      if (filters.registrationStatus === 'confirmed') {
+        registrationQuery.status = 'confirmed';
+      } else if (filters.registrationStatus === 'unpaid') {
+        registrationQuery.status = { $in: UNPAID_STATUSES };
+      } else {
+        registrationQuery.status = { $ne: 'cancelled' };
+      }
+
+      const userIds = await EventRegistration.distinct('user', registrationQuery);
+      conditions.push({ _id: { $in: userIds } });
+    }
+
+    if (filters.inactiveMonths) {
+      const since = new Date();
+      since.setMonth(since.getMonth() - filters.inactiveMonths);
+
+      const recentBookers = await EventRegistration.distinct('user', {
+        createdAt: { $gte: since },
+        status: { $ne: 'cancelled' }
+      });
+      conditions.push({ _id: { $nin: recentBookers } });
+    }
+
+    if (filters.experience?.length) {
+      conditions.push({ horseRidingExperience: { $in: filters.experience } });
+    }
+
+    if (filters.referralSources?.length) {
+      // Referral sources are typed in by users, so match them ignoring case
+      conditions.push({
+        referralSource: { $in: filters.referralSources.map(source => new RegExp(`^${escapeRegex(source.trim())}$`, 'i')) }
+      });
+    }
+
+    if (filters.tags?.length) {
+      conditions.push({ tags: { $in: filters.tags.map(tag => tag.trim().toLowerCase()) } });
+    }
+
+    return { $and: conditions };
+  }
+
+  /**
+   * How many users a segment reaches, with a few of them to sanity-check the filters
+   */
+  async preview(filters: ISegmentFilters = {}, sampleSize = 5, category?: NotificationCategory): Promise<SegmentPreview> {
+    const query = await this.buildUserQuery(filters, category);
+
+    const [count, users] = await Promise.all([
+      Registration.countDocuments(query),
+      Registration.find(query)
+        .select('fullName language telegramData.username')
+        .sort({ createdAt: -1 })
+        .limit(sampleSize)
+    ]);
+
+    return {
+      count,
+      sample: users.map(user => ({
+        id: String(user._id),
+        fullName: user.fullName,
+        username: user.telegramData?.username,
+        language: user.language
+      }))
+    };
+  }
+}
+
+export const segmentService = new SegmentService();
@@ -0,0 +1,220 @@
+import { Types } from 'mongoose';
+import { SupportTicket, ISupportTicket, SupportTicketStatus } from '../models/support-ticket.model';
+import { Registration } from '../models/user.model';
+import { TelegramService } from './telegram.service';
+import { botSessionService } from './bot-session.service';
+import { t, Language, isLanguage, DEFAULT_LANGUAGE, escapeHtml } from '../i18n';
+
+// Relayed copies are cut short to fit Telegram's limits (4096 for messages, 1024 for captions)
+const MAX_RELAYED_TEXT = 3500;
+const MAX_RELAYED_CAPTION = 900;
+
+export interface SupportSender {
+  telegramId: number;
+  chatId: string | number;
+  name: string;
+  username?: string;
+  language: Language;
+}
+
+export interface SupportStaff {
+  adminId?: string; // Unset for staff in the support chat who haven't linked their Telegram account
+  name: string;
+}
+
+export interface SupportListOptions {
+  status?: SupportTicketStatus;
+  assignedTo?: string | null; // null for unassigned threads
+  page?: number;
+  limit?: number;
+}
+
+export class SupportService {
+  /**
+   * Whether a chat is the staff group support threads are relayed to (SUPPORT_CHAT_ID)
+   */
+  isStaffChat(chatId: string | number): boolean {
+    return !!process.env.SUPPORT_CHAT_ID && String(chatId) === process.env.SUPPORT_CHAT_ID;
+  }
+
+  /**
+   * Short reference staff use to tell threads apart
+   */
+  reference(ticket: ISupportTicket): string {
+    return `#${String(ticket._id).slice(-6)}`;
+  }
+
+  /**
+   * Add a user's message to their open thread, starting one if they have none, and relay it to staff.
+   * `wasWaiting` is true if the thread was already waiting for staff, so the user was told before.
+   */
+  async addUserMessage(sender: SupportSender, content: { text: string; photo?: string }): Promise<{ ticket: ISupportTicket; wasWaiting: boolean }> {
+    let ticket = await SupportTicket.findOne({ telegramId: sender.telegramId, status: { $ne: 'closed' } });
+    const wasWaiting = ticket?.status === 'open';
+    const isNew = !ticket;
+
+    if (!ticket) {
+      const user = await Registration.findOne({ 'telegramData.id': sender.telegramId }).select('_id');
+      ticket = new SupportTicket({ user: user?._id, telegramId: sender.telegramId, chatId: String(sender.chatId) });
+    }
+
+    const now = new Date();
+    ticket.set({
+      name: sender.name,
+      username: sender.username,
+      language: sender.language,
+      status: 'open',
+      lastUserMessageAt: now
+    });
+
+    const label = isNew ? `🆕 ${this.staffLabel(ticket)}` : `💬 ${this.staffLabel(ticket)}`;
+    const hint = isNew ? '\n\n<i>Reply to this message to answer, or reply /close to close the thread.</i>' : '';
+    const relayMessageId = content.photo
+      ? await this.relayToStaff(`${label}\n\n${escapeHtml(content.text.slice(0, MAX_RELAYED_CAPTION))}${hint}`, content.photo)
+      : await this.relayToStaff(`${label}\n\n${escapeHtml(content.text.slice(0, MAX_RELAYED_TEXT))}${hint}`);
+
+    ticket.messages.push({ sender: 'user', text: content.text, photo: content.photo, relayMessageId, createdAt: now });
+    await ticket.save();
+
+    return { ticket, wasWaiting };
+  }
+
+  /**
+   * Send a staff reply to the user and record it. Replies made outside the staff chat are copied
+   * into it, so the team sees the whole conversation; `relayMessageId` is the reply's own message
+   * when it was written there.
+   */
+  async reply(ticket: ISupportTicket, text: string, staff: SupportStaff, relayMessageId?: number): Promise<ISupportTicket> {
+    if (ticket.status === 'closed') {
+      throw new Error('This support thread is closed');
+    }
+
+    const telegramService = new TelegramService();
+    const lang = isLanguage(ticket.language) ? ticket.language : DEFAULT_LANGUAGE;
+    const result = await telegramService.deliverMessage(ticket.chatId, t(lang, 'support.reply', { message: escapeHtml(text) }));
+    if (!result.ok) {
+      throw new Error(`Could not deliver the reply: ${result.error}`);
+    }
+
+    // Let the user answer without typing /support again, unless the bot is waiting for something else
+    const state = await botSessionService.get(ticket.chatId);
+    if (!state || state.name === 'in_support') {
+      await botSessionService.set(ticket.chatId, { name: 'in_support' });
+    }
+
+    if (relayMessageId === undefined) {
+      relayMessageId = await this.relayToStaff(
+        `↩️ ${this.staffLabel(ticket)}\n<b>${escapeHtml(staff.name)}:</b> ${escapeHtml(text.slice(0, MAX_RELAYED_TEXT))}`
+      );
+    }
+
+    const now = new Date();
+    const admin = staff.adminId ? new Types.ObjectId(staff.adminId) : undefined;
+    ticket.messages.push({ sender: 'staff', text, admin, staffName: staff.name, relayMessageId, createdAt: now });
+    ticket.status = 'answered';
+    ticket.lastStaffMessageAt = now;
+    if (!ticket.firstResponseAt) {
+      ticket.firstResponseAt = now;
+    }
+    // Whoever answers an unassigned thread first takes it
+    if (!ticket.assignedTo && admin) {
+      ticket.assignedTo = admin;
+    }
+    await ticket.save();
+
+    return ticket;
+  }
+
+  /**
+   * Close a thread and let the user know. Their next message starts a new one.
+   */
+  async close(ticket: ISupportTicket, staff: SupportStaff): Promise<ISupportTicket> {
+    if (ticket.status === 'closed') {
+      return ticket;
+    }
+
+    ticket.status = 'closed';
+    ticket.closedAt = new Date();
+    ticket.closedBy = staff.adminId ? new Types.ObjectId(staff.adminId) : undefined;
+    await ticket.save();
+
+    const state = await botSessionService.get(ticket.chatId);
+    if (state?.name === 'in_support') {
+      await botSessionService.clear(ticket.chatId);
+    }
+
+    const telegramService = new TelegramService();
+    const lang = isLanguage(ticket.language) ? ticket.language : DEFAULT_LANGUAGE;
+    await telegramService.sendMessage(ticket.chatId, t(lang, 'support.closed'));
+    await this.relayToStaff(`✅ ${this.staffLabel(ticket)} closed by ${escapeHtml(staff.name)}`);
+
+    return ticket;
+  }
+
+  /**
+   * The thread a message in the staff chat belongs to, from the relayed message it replies to
+   */
+  async findByRelayMessage(messageId: number): Promise<ISupportTicket | null> {
+    return SupportTicket.findOne({ 'messages.relayMessageId': messageId });
+  }
+
+  /**
+   * Threads for the admin inbox
+   */
+  async list(options: SupportListOptions = {}) {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const query: Record<string, any> = {};
+    if (options.status) {
+      query.status = options.status;
+    }
+    if (options.assignedTo !== undefined) {
+      query.assignedTo = options.assignedTo;
+    }
+
+    // Open threads by how long they've waited, anything else by latest activity
+    const sort: Record<string, 1 | -1> = options.status === 'open' ? { lastUserMessageAt: 1 } : { updatedAt: -1 };
+
+    const [tickets, total] = await Promise.all([
+      SupportTicket.find(query)
+        .slice('messages', -1) // Only the latest message, as a preview
+        .populate('assignedTo', 'firstName lastName email')
+        .populate('user', 'fullName phoneNumber')
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit),
+      SupportTicket.countDocuments(query)
+    ]);
+
+    return {
+      tickets,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  private staffLabel(ticket: ISupportTicket): string {
+    const username = ticket.username ? ` (@${ticket.username})` : '';
+    return `<b>${this.reference(ticket)}</b> · ${escapeHtml(ticket.name)}${username}`;
+  }
+
+  /**
+   * Post to the staff chat, returning the message ID staff reply to. Threads are still
+   * stored and answerable from the admin API when no staff chat is configured.
+   */
+  private async relayToStaff(text: string, photo?: string): Promise<number | undefined> {
+    const staffChatId = process.env.SUPPORT_CHAT_ID;
+    if (!staffChatId) {
+      return undefined;
+    }
+
+    const telegramService = new TelegramService();
+    const result = await telegramService.deliverMessage(staffChatId, text, {}, photo);
+    if (!result.ok) {
+      console.error(`Failed to relay support message to staff chat: ${result.error}`);
+      return undefined;
+    }
+    return result.messageId;
+  }
+}
+
+export const supportService = new SupportService();
@@ -1,10 +1,12 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { ProviderUnavailableError, isTransientHttpError } from './payment-verifiers/payment-verifier.registry';
 
 export interface TelebirrReceipt {
   transactionId: string;
   senderName: string;
   receiverName?: string;
+  receiverAccount?: string;
   amount: number;
   date: string;
   status: 'valid' | 'invalid';
@@ -52,6 +54,11 @@ export class TelebirrService {
                              receiverLabel.parent().next().text().trim() || 
                              'Unknown';
 
+        const receiverAccountLabel = $('td:contains("Credited party account no"), td:contains("Credited Party account no"), div:contains("Credited Party account no")').last();
+        const receiverAccount = receiverAccountLabel.next().text().trim() || 
+                                receiverAccountLabel.parent().next().text().trim() || 
+                                undefined;
+
         const senderLabel = $('td:contains("Payer Name"), div:contains("Payer Name")').last();
         const senderName = senderLabel.next().text().trim() || 
                            senderLabel.parent().next().text().trim() || 
@@ -62,7 +69,7 @@ export class TelebirrService {
         // We look for the header "Settled Amount" and "Payment date"
         
         let amountStr = '0';
-        let date = new Date().toISOString();
+        let date = '';
 
         // Look for the table containing "Settled Amount" - be more specific
         const settledAmountHeader = $('td:contains("Settled Amount"), th:contains("Settled Amount")').last();
@@ -128,6 +135,7 @@ export class TelebirrService {
           transactionId,
           senderName,
           receiverName,
+          receiverAccount,
           amount,
           date,
           status: 'valid'
@@ -137,13 +145,14 @@ export class TelebirrService {
         console.error(`Telebirr verification failed for ${transactionId} (Attempt ${attempt + 1}):`, error.message);
         
         // If it's a timeout or network error, retry
-        if (error.code === 'ECONNABORTED' || error.response?.status >= 500) {
+        if (isTransientHttpError(error)) {
           attempt++;
           if (attempt < maxRetries) {
             console.log(`Retrying in 3s... (Attempt ${attempt + 1} failed)`);
             await new Promise(resolve => setTimeout(resolve, 3000)); // Wait 3s before retry
             continue;
           }
+          throw new ProviderUnavailableError('Telebirr is not responding right now. Please try again shortly.');
         }
         
         // If it's a specific error like "Invalid transaction ID", throw immediately
@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IRegistration } from '../interfaces/user.interface';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+const USER_TOKEN_EXPIRES_IN = process.env.TELEGRAM_USER_TOKEN_EXPIRES_IN || '1h';
+// initData older than this is refused so a leaked copy can't be replayed indefinitely
+const INIT_DATA_MAX_AGE_SECONDS = parseInt(process.env.TELEGRAM_INIT_DATA_MAX_AGE_SECONDS || '86400', 10);
+
+export interface TelegramWebAppUser {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  is_bot?: boolean;
+  photo_url?: string;
+}
+
+export interface TelegramInitData {
+  user: TelegramWebAppUser;
+  authDate: Date;
+}
+
+export class TelegramAuthService {
+  /**
+   * Check a Mini App initData string against the bot token and return the user it was issued for.
+   * See https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+   */
+  validateInitData(initData: string): TelegramInitData {
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    if (!botToken) {
+      throw new Error('TELEGRAM_BOT_TOKEN is not set');
+    }
+
+    const params = new URLSearchParams(initData);
+    const hash = params.get('hash');
+    if (!hash) {
+      throw new Error('initData is missing its hash');
+    }
+    params.delete('hash');
+
+    const dataCheckString = Array.from(params.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('\n');
+
+    const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+    const expected = crypto.createHmac('sha256', secretKey).update(dataCheckString).digest();
+    const received = Buffer.from(hash, 'hex');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new Error('Invalid initData signature');
+    }
+
+    const authDate = parseInt(params.get('auth_date') || '', 10);
+    if (!authDate || Date.now() / 1000 - authDate > INIT_DATA_MAX_AGE_SECONDS) {
+      throw new Error('initData has expired');
+    }
+
+    const user = JSON.parse(params.get('user') || 'null') as TelegramWebAppUser | null;
+    if (!user?.id) {
+      throw new Error('initData has no user');
+    }
+
+    return { user, authDate: new Date(authDate * 1000) };
+  }
+
+  /**
+   * Issue a short-lived JWT for a registered user, accepted by the `authenticate` middleware
+   */
+  issueUserToken(user: IRegistration): { token: string; expiresIn: string } {
+    const token = jwt.sign({ id: user._id, type: 'user' }, JWT_SECRET, {
+      expiresIn: USER_TOKEN_EXPIRES_IN
+    } as jwt.SignOptions);
+
+    return { token, expiresIn: USER_TOKEN_EXPIRES_IN };
+  }
+}
+
+export const telegramAuthService = new TelegramAuthService();
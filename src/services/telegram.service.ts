@@ -3,9 +3,21 @@ import { IRegistration } from '../interfaces/user.interface';
 import { Registration } from '../models/user.model';
 import { configDotenv } from 'dotenv';
 import FormData from 'form-data';
+import { paymentVerifierRegistry } from './payment-verifiers';
+import { t, Language, DEFAULT_LANGUAGE, resolveLanguage, formatDateTime } from '../i18n';
+import { notificationPreferenceService } from './notification-preference.service';
 
 configDotenv()
 
+export type TelegramDeliveryResult =
+  | { ok: true; messageId: number }
+  | {
+      ok: false;
+      error: string;
+      retryAfter?: number; // Seconds Telegram asked us to wait (HTTP 429)
+      permanent: boolean; // Retrying won't help, e.g. the user blocked the bot
+    };
+
 export class TelegramService {
   private readonly botToken: string;
   private readonly botApiUrl: string;
@@ -37,6 +49,26 @@ export class TelegramService {
       if (error.response) {
         console.error('Telegram API Error Response:', error.response.data);
       }
+      await this.handleForbidden(chatId, error);
+      return false;
+    }
+  }
+
+  /**
+   * Replace the text and keyboard of a message the bot sent, e.g. after a button press
+   */
+  async editMessageText(chatId: string | number, messageId: number, text: string, options: any = {}): Promise<boolean> {
+    try {
+      await axios.post(`${this.botApiUrl}/editMessageText`, {
+        chat_id: chatId,
+        message_id: messageId,
+        text,
+        parse_mode: 'HTML',
+        ...options
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Error editing Telegram message:', error.response?.data?.description || error.message);
       return false;
     }
   }
@@ -85,6 +117,7 @@ export class TelegramService {
       if (error.response) {
         console.error('Telegram API Error Response:', error.response.data);
       }
+      await this.handleForbidden(chatId, error);
       return false;
     }
   }
@@ -113,25 +146,24 @@ export class TelegramService {
     chatId: string | number, 
     amount: number, 
     eventName: string,
-    invoiceId: string
+    invoiceId: string,
+    lang: Language = DEFAULT_LANGUAGE
   ): Promise<boolean> {
     try {
-      const message = `
-💰 <b>Payment for ${eventName}</b>
-
-Amount: <b>${amount} ETB</b>
-
-Please select your preferred payment method:
-`;
+      const message = t(lang, 'payment.selection', { event: eventName, amount });
+
+      // One button per registered provider, three to a row
+      const buttons = paymentVerifierRegistry.getAll().map(v => ({
+        text: v.displayName,
+        callback_data: `PMETHOD_${v.key}_${invoiceId}`
+      }));
+      const rows = [];
+      for (let i = 0; i < buttons.length; i += 3) {
+        rows.push(buttons.slice(i, i + 3));
+      }
 
       const replyMarkup = {
-        inline_keyboard: [
-          [
-            { text: 'Telebirr', callback_data: `PMETHOD_telebirr_${invoiceId}` },
-            { text: 'CBE', callback_data: `PMETHOD_cbe_${invoiceId}` },
-            { text: 'BOA', callback_data: `PMETHOD_boa_${invoiceId}` }
-          ]
-        ]
+        inline_keyboard: rows
       };
 
       return this.sendMessage(chatId, message, { reply_markup: replyMarkup });
@@ -148,44 +180,31 @@ Please select your preferred payment method:
     chatId: string | number,
     method: string,
     amount: number,
-    eventName: string
+    eventName: string,
+    invoiceId: string,
+    lang: Language = DEFAULT_LANGUAGE
   ): Promise<boolean> {
-      let phoneOrAccount = '';
-      let bankName = '';
-      
-      const methodKey = method.toLowerCase();
-      
-      if (methodKey === 'telebirr') {
-          phoneOrAccount = process.env.TELEBIRR_PHONE_NUMBER || 'Unknown';
-          bankName = 'Telebirr';
-      } else if (methodKey === 'cbe') {
-          phoneOrAccount = process.env.CBE_ACCOUNT_NUMBER || 'Unknown';
-          bankName = 'CBE Account';
-      } else if (methodKey === 'boa') {
-          phoneOrAccount = process.env.BOA_ACCOUNT_NUMBER || 'Unknown';
-          bankName = 'BOA Account';
+      const verifier = paymentVerifierRegistry.get(method);
+      if (!verifier) {
+          return this.sendMessage(chatId, t(lang, 'payment.unsupportedMethod'));
       }
 
-      const message = `
-🏦 <b>${bankName} Payment Instructions</b>
-
-💰 Payment for <b>${eventName}</b>
-
-Amount: <b>${amount} ETB</b>
-
-Please transfer to:
-<b>${phoneOrAccount}</b>
+      const phoneOrAccount = verifier.getReceivingAccount() || 'Unknown';
+      const bankName = verifier.accountLabel;
 
-⚠️ <b>IMPORTANT:</b>
-- Transfer <b>MUST</b> be initiated from <b>${bankName}</b> only (${method.toUpperCase()} ➡️ ${method.toUpperCase()}).
-- After paying, please reply to this message with your <b>Transaction ID</b>.
-<i>Verification method: ${bankName}</i>
-`;
+      const message = t(lang, 'payment.instructions', {
+        bank: bankName,
+        event: eventName,
+        amount,
+        account: phoneOrAccount,
+        provider: verifier.displayName,
+        invoiceId
+      });
 
       return this.sendMessage(chatId, message, {
         reply_markup: {
           force_reply: true,
-          input_field_placeholder: `Enter ${bankName} Transaction ID...`
+          input_field_placeholder: t(lang, 'payment.instructionsPlaceholder', { bank: bankName })
         }
       });
   }
@@ -196,18 +215,13 @@ Please transfer to:
   async sendVerificationSuccess(
     chatId: string | number, 
     invoice: any, 
-    qrBuffer: Buffer
+    qrBuffer: Buffer,
+    lang: Language = DEFAULT_LANGUAGE
   ): Promise<boolean> {
     try {
-      const eventName = invoice.metadata?.eventName || 'Event';
-      const caption = `
-✅ <b>Payment Verified!</b>
-
-You are confirmed for <b>${eventName}</b>.
-Here is your ticket QR code. Please show this at the entrance.
-
-See you there! 🚀
-`;
+      const eventName = invoice.metadata?.eventName || t(lang, 'common.event');
+      const caption = t(lang, 'payment.success', { event: eventName }) +
+        t(lang, 'ticket.reference', { invoiceId: invoice.invoiceId });
       
       return this.sendPhoto(chatId, qrBuffer, caption);
     } catch (error) {
@@ -217,27 +231,46 @@ See you there! 🚀
   }
 
   /**
-   * Send bulk messages to multiple users
+   * Send a message, or a photo captioned with it, and report why it failed so callers can throttle and retry.
+   * Used by broadcasts; most code only needs sendMessage.
    */
-  async broadcastMessage(
-    userIds: (string | number)[],
-    message: string,
-    options: any = {}
-  ): Promise<{ success: number; failed: number }> {
-    const results = await Promise.allSettled(
-      userIds.map(userId => this.sendMessage(userId, message, options))
-    );
+  async deliverMessage(chatId: string | number, text: string, options: any = {}, photo?: string): Promise<TelegramDeliveryResult> {
+    try {
+      const response = photo
+        ? await axios.post(`${this.botApiUrl}/sendPhoto`, {
+            chat_id: chatId,
+            photo,
+            caption: text,
+            parse_mode: 'HTML',
+            ...options
+          })
+        : await axios.post(`${this.botApiUrl}/sendMessage`, {
+            chat_id: chatId,
+            text,
+            parse_mode: 'HTML',
+            ...options
+          });
+      return { ok: true, messageId: (response.data as any).result?.message_id };
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      const data = error.response?.data;
+      const description = data?.description || error.message;
 
-    return {
-      success: results.filter(r => r.status === 'fulfilled' && r.value).length,
-      failed: results.filter(r => r.status === 'rejected' || !r.value).length
-    };
+      if (status === 429) {
+        return { ok: false, error: description, retryAfter: data?.parameters?.retry_after || 1, permanent: false };
+      }
+
+      await this.handleForbidden(chatId, error);
+
+      // Bad requests and blocked/deactivated users fail the same way every time
+      return { ok: false, error: description, permanent: status === 400 || status === 403 };
+    }
   }
 
   /**
-   * Send payment reminder for an invoice
+   * Remind a user to pay an open invoice; the final reminder warns that the seat is about to be released
    */
-  async sendPaymentReminder(invoiceId: string): Promise<boolean> {
+  async sendPaymentReminder(invoiceId: string, final = false): Promise<boolean> {
     try {
       // Import Invoice model
       const { Invoice } = await import('../models/invoice.model');
@@ -245,19 +278,32 @@ See you there! 🚀
       const invoice = await Invoice.findOne({ invoiceId }).populate('user');
       
       if (!invoice) return false;
-      if (invoice.status === 'paid') return false;
+      if (invoice.status !== 'pending' && invoice.status !== 'partially_paid') return false;
 
       const user = invoice.user as any;
-      if (!user || !user.telegramData?.chatId) return false;
-
-      const eventName = invoice.metadata?.eventName || 'Event';
-      // Re-send selection flow
-      return this.sendPaymentMethodSelection(
-          user.telegramData.chatId, 
-          invoice.amount, 
-          eventName,
-          invoiceId
-      );
+      const chatId = user?.telegramData?.chatId || user?.telegramData?.id;
+      if (!chatId) return false;
+      if (!notificationPreferenceService.wants(user, 'payments')) return false;
+
+      const lang = resolveLanguage(user);
+      const eventName = invoice.metadata?.eventName || t(lang, 'common.event');
+      const deadline = invoice.expiresAt ? formatDateTime(invoice.expiresAt, lang) : null;
+
+      const header = t(lang, final ? 'payment.finalReminder' : 'payment.reminder', { event: eventName });
+      const deadlineLine = deadline
+        ? t(lang, final ? 'payment.finalPayBy' : 'payment.payBy', { deadline })
+        : t(lang, 'payment.payToKeep');
+
+      const message = `${header}\n\n` +
+        `${t(lang, 'payment.amountDue', { amount: invoice.balanceDue, currency: invoice.currency })}\n` +
+        `<i>Invoice: ${invoiceId}</i>\n\n` +
+        deadlineLine;
+
+      return this.sendMessage(chatId, message, {
+        reply_markup: {
+          inline_keyboard: [[{ text: t(lang, 'payment.payNow'), callback_data: `PAY_${invoiceId}` }]]
+        }
+      });
     } catch (error) {
       console.error('Error sending payment reminder:', error);
       return false;
@@ -265,31 +311,19 @@ See you there! 🚀
   }
 
   /**
-   * Send event reminder
+   * Send an event reminder with a button to show the ticket QR code again
    */
-  async sendEventReminder(eventId: string, message: string): Promise<{ success: number; failed: number }> {
-    try {
-      // Import Invoice model
-      const { Invoice } = await import('../models/invoice.model');
-      
-      // Find all paid invoices for this event (if we had eventId in invoice, which we added to model)
-      // Or find via EventRegistration
-      const { EventRegistration } = await import('../models/event-registration.model');
-      
-      const registrations = await EventRegistration.find({
-        event: eventId,
-        status: 'confirmed' // or 'paid'
-      }).populate('user');
-
-      const userIds = registrations
-        .map(reg => (reg.user as any).telegramData?.chatId)
-        .filter(chatId => chatId);
-
-      return this.broadcastMessage(userIds, message);
-    } catch (error) {
-      console.error('Error sending event reminder:', error);
-      return { success: 0, failed: 0 };
-    }
+  async sendEventReminder(
+    chatId: string | number,
+    message: string,
+    registrationId: string,
+    lang: Language = DEFAULT_LANGUAGE
+  ): Promise<boolean> {
+    return this.sendMessage(chatId, message, {
+      reply_markup: {
+        inline_keyboard: [[{ text: t(lang, 'ticket.showButton'), callback_data: `TICKET_${registrationId}` }]]
+      }
+    });
   }
 
   /**
@@ -359,4 +393,14 @@ See you there! 🚀
       return null;
     }
   }
+
+  /**
+   * Stop notifying a user Telegram refuses to deliver to (403: they blocked the bot or deleted their account)
+   */
+  private async handleForbidden(chatId: string | number, error: any): Promise<void> {
+    if (error.response?.status !== 403) return;
+    await notificationPreferenceService.markUnreachable(chatId).catch(err =>
+      console.error('Failed to unsubscribe unreachable Telegram chat:', err.message)
+    );
+  }
 }
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { Event, IEvent } from '../models/events.model';
+import { EventRegistration, IEventRegistration, SEAT_HOLDING_STATUSES } from '../models/event-registration.model';
+import { TelegramService } from './telegram.service';
+import { paymentService } from './payment.service';
+import { t, resolveLanguage } from '../i18n';
+
+// A crashed claim frees the lock after SEAT_LOCK_TTL_MS; waiters give up after SEAT_LOCK_WAIT_MS
+const SEAT_LOCK_TTL_MS = 10 * 1000;
+const SEAT_LOCK_WAIT_MS = 5 * 1000;
+const SEAT_LOCK_RETRY_MS = 100;
+
+export class WaitlistService {
+  /**
+   * Count registrations currently holding a seat for an event
+   */
+  async countHeldSeats(eventId: string): Promise<number> {
+    return EventRegistration.countDocuments({
+      event: eventId,
+      status: { $in: SEAT_HOLDING_STATUSES }
+    });
+  }
+
+  /**
+   * Count registrations currently holding a seat in a specific ticket tier
+   */
+  async countHeldTierSeats(eventId: string, tierId: string): Promise<number> {
+    return EventRegistration.countDocuments({
+      event: eventId,
+      tier: tierId,
+      status: { $in: SEAT_HOLDING_STATUSES }
+    });
+  }
+
+  /**
+   * Check whether a seat is free for the event and, if given, the chosen tier's quota
+   */
+  async hasRoom(event: IEvent, tierId?: string): Promise<boolean> {
+    const eventId = String(event._id);
+    if (await this.countHeldSeats(eventId) >= event.capacity) {
+      return false;
+    }
+
+    if (tierId) {
+      const tier = event.tiers.find(t => t._id.toString() === tierId);
+      if (tier && await this.countHeldTierSeats(eventId, tierId) >= tier.quota) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Run `claim` while holding the event's seat lock, so two requests never both count the
+   * last seat as free before either has taken it. Every write that takes a seat goes through here.
+   */
+  async withSeatLock<T>(eventId: string, claim: () => Promise<T>): Promise<T> {
+    const token = crypto.randomBytes(8).toString('hex');
+    const giveUpAt = Date.now() + SEAT_LOCK_WAIT_MS;
+
+    for (;;) {
+      const now = new Date();
+      const { modifiedCount } = await Event.updateOne(
+        { _id: eventId, seatLockExpiresAt: { $not: { $gt: now } } },
+        { $set: { seatLockToken: token, seatLockExpiresAt: new Date(now.getTime() + SEAT_LOCK_TTL_MS) } }
+      );
+      if (modifiedCount > 0) break;
+
+      if (Date.now() >= giveUpAt) {
+        throw new Error('Too many bookings for this event at once, please try again');
+      }
+      await new Promise(resolve => setTimeout(resolve, SEAT_LOCK_RETRY_MS));
+    }
+
+    try {
+      return await claim();
+    } finally {
+      await Event.updateOne(
+        { _id: eventId, seatLockToken: token },
+        { $unset: { seatLockToken: 1, seatLockExpiresAt: 1 } }
+      );
+    }
+  }
+
+  /**
+   * Get the next free position at the end of an event's waitlist
+   */
+  async getNextPosition(eventId: string): Promise<number> {
+    const last = await EventRegistration.findOne({
+      event: eventId,
+      status: 'waitlisted'
+    }).sort({ waitlistPosition: -1 });
+
+    return (last?.waitlistPosition || 0) + 1;
+  }
+
+  /**
+   * Remove a registration from the waitlist and close the gap behind it
+   */
+  async removeFromWaitlist(registration: IEventRegistration): Promise<void> {
+    const position = registration.waitlistPosition;
+    registration.waitlistPosition = undefined;
+    await registration.save();
+
+    if (position) {
+      await EventRegistration.updateMany(
+        { event: registration.event, status: 'waitlisted', waitlistPosition: { $gt: position } },
+        { $inc: { waitlistPosition: -1 } }
+      );
+    }
+  }
+
+  /**
+   * Put a promoted registration that could not be invoiced back at the front of the waitlist,
+   * unless an invoice was issued for it after all
+   */
+  private async returnToFrontOfWaitlist(registration: IEventRegistration): Promise<void> {
+    const { modifiedCount } = await EventRegistration.updateOne(
+      { _id: registration._id, status: 'registered' },
+      { $set: { status: 'waitlisted', waitlistPosition: 0 } }
+    );
+
+    if (modifiedCount > 0) {
+      await EventRegistration.updateMany(
+        { event: registration.event, status: 'waitlisted' },
+        { $inc: { waitlistPosition: 1 } }
+      );
+    }
+  }
+
+  /**
+   * Promote the first waitlisted registration for an event and send them an invoice
+   */
+  async promoteNext(eventId: string): Promise<IEventRegistration | null> {
+    const event = await Event.findById(eventId);
+    if (!event || !event.isActive) {
+      return null;
+    }
+
+    // Take the first person in line whose tier still has room
+    const registration = await this.withSeatLock(eventId, async () => {
+      const queue = await EventRegistration.find({ event: eventId, status: 'waitlisted' })
+        .sort({ waitlistPosition: 1 })
+        .select('_id tier');
+
+      for (const candidate of queue) {
+        if (!(await this.hasRoom(event, candidate.tier?.toString()))) continue;
+
+        // Claim atomically so two releases never promote the same person
+        const claimed = await EventRegistration.findOneAndUpdate(
+          { _id: candidate._id, status: 'waitlisted' },
+          { $set: { status: 'registered' } },
+          { new: true }
+        ).populate('user');
+
+        if (claimed) return claimed;
+      }
+      return null;
+    });
+
+    if (!registration) {
+      return null;
+    }
+
+    await this.removeFromWaitlist(registration);
+
+    const user = registration.user as any;
+
+    const chatId = user?.telegramData?.chatId || user?.telegramData?.id;
+    if (chatId) {
+      try {
+        const telegramService = new TelegramService();
+        await telegramService.sendMessage(chatId, t(resolveLanguage(user), 'waitlist.promoted', { event: event.name }));
+      } catch (notifyError) {
+        console.error('Failed to send waitlist promotion notice:', notifyError);
+      }
+    }
+
+    // Invoicing moves the registration on to payment_initiated, which expires if left unpaid
+    try {
+      await paymentService.initializePayment(user, {
+        eventName: event.name,
+        amount: paymentService.getRegistrationAmount(event, registration),
+        place: event.location,
+        time: event.date,
+        eventId: String(event._id),
+        registrationId: String(registration._id),
+        tierName: registration.tierName,
+        promoCode: registration.promoCode
+      });
+    } catch (error) {
+      console.error(`Failed to invoice promoted registration ${registration._id}; returning it to the waitlist:`, error);
+      await this.returnToFrontOfWaitlist(registration);
+      return null;
+    }
+
+    console.log(`Promoted registration ${registration._id} from waitlist for event ${event.name}`);
+    return registration;
+  }
+
+  /**
+   * Promote waitlisted registrations until the event is back at capacity
+   */
+  async fillOpenSeats(eventId: string): Promise<number> {
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return 0;
+    }
+
+    let promoted = 0;
+    let heldSeats = await this.countHeldSeats(eventId);
+
+    while (heldSeats < event.capacity) {
+      const registration = await this.promoteNext(eventId);
+      if (!registration) break;
+      promoted++;
+      heldSeats++;
+    }
+
+    return promoted;
+  }
+}
+
+export const waitlistService = new WaitlistService();